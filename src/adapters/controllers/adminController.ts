@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { reloadKnowledgeBase } from '../../application/services/KnowledgeBaseService';
+dotenv.config();
+
+/**
+ * Allow the request only with the ADMIN_API_KEY in the x-admin-key header
+ */
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(503).json({ error: 'Admin API is disabled. Set ADMIN_API_KEY to enable it.' });
+  }
+
+  const providedKey = Buffer.from(req.get('x-admin-key') ?? '');
+  const expectedKey = Buffer.from(adminKey);
+  if (providedKey.length !== expectedKey.length || !crypto.timingSafeEqual(providedKey, expectedKey)) {
+    return res.status(401).json({ error: 'Invalid admin key' });
+  }
+
+  next();
+};
+
+/**
+ * Reload the knowledge base articles from disk without a restart
+ */
+export const reloadKnowledgeBaseHandler = async (req: Request, res: Response) => {
+  try {
+    const passages = await reloadKnowledgeBase();
+    res.json({ success: true, passages });
+  } catch (error) {
+    console.error('Error reloading knowledge base:', error);
+    res.status(500).json({ error: 'An error occurred while reloading the knowledge base.' });
+  }
+};
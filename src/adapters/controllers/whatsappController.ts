@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { processMessage } from '../../application/services/ChatService';
+import { getLlmResponse } from '../../application/services/LlmService';
+import { WhatsAppClient } from '../../infrastructure/whatsapp/WhatsAppClient';
+import { toWhatsAppFormat } from '../../infrastructure/whatsapp/WhatsAppFormatter';
+import { t, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { detectLanguage } from '../../domain/services/LanguageDetector';
+dotenv.config();
+
+// Inbound message as delivered by the WhatsApp Cloud API webhook
+interface WhatsAppInboundMessage {
+  from: string;
+  id: string;
+  timestamp?: string;
+  type: string;
+  text?: { body: string };
+}
+
+interface WhatsAppWebhookPayload {
+  object?: string;
+  entry?: {
+    changes?: {
+      value?: {
+        messages?: WhatsAppInboundMessage[];
+      };
+    }[];
+  }[];
+}
+
+// WhatsApp may deliver the same message more than once
+const MAX_REMEMBERED_MESSAGE_IDS = 1000;
+
+/**
+ * Map a WhatsApp phone number to a conversation session ID
+ */
+export const getWhatsAppSessionId = (phoneNumber: string): string => `whatsapp:${phoneNumber}`;
+
+/**
+ * Create the webhook handlers for the WhatsApp channel
+ * @param client - Client used to send replies
+ */
+export const createWhatsAppController = (client: WhatsAppClient) => {
+  const handledMessageIds = new Set<string>();
+
+  if (!process.env.WHATSAPP_APP_SECRET && !allowsUnsignedWebhooks()) {
+    console.error('WHATSAPP_APP_SECRET is not set, every WhatsApp webhook call will be rejected.');
+  }
+
+  /**
+   * Webhook verification handshake (GET)
+   */
+  const verifyWebhook = (req: Request, res: Response) => {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    const challenge = req.query['hub.challenge'];
+
+    if (mode === 'subscribe' && token && token === process.env.WHATSAPP_VERIFY_TOKEN) {
+      return res.status(200).send(challenge);
+    }
+
+    return res.sendStatus(403);
+  };
+
+  /**
+   * Inbound messages (POST)
+   */
+  const receiveWebhook = async (req: Request, res: Response) => {
+    if (!isValidSignature(req)) {
+      return res.sendStatus(401);
+    }
+
+    // Acknowledge right away so WhatsApp does not retry while we answer
+    res.sendStatus(200);
+
+    const payload = req.body as WhatsAppWebhookPayload;
+    for (const message of extractMessages(payload)) {
+      if (handledMessageIds.has(message.id)) {
+        continue;
+      }
+      rememberMessageId(handledMessageIds, message.id);
+
+      try {
+        await handleInboundMessage(client, message);
+      } catch (error) {
+        console.error('Error processing WhatsApp message:', error);
+      }
+    }
+  };
+
+  return { verifyWebhook, receiveWebhook };
+};
+
+/**
+ * Run one inbound message through the chat pipeline and send the reply
+ */
+const handleInboundMessage = async (
+  client: WhatsAppClient,
+  message: WhatsAppInboundMessage
+): Promise<void> => {
+  const text = message.type === 'text' ? message.text?.body?.trim() : undefined;
+
+  if (!text) {
+    await client.sendText(message.from, t(DEFAULT_LANGUAGE, 'whatsapp.textOnly'));
+    return;
+  }
+
+  let responseText: string;
+  try {
+    // WhatsApp gets the plain text version of the reply
+    const reply = await processMessage(text, getWhatsAppSessionId(message.from), {
+      clientId: `whatsapp:${message.from}`,
+      respondWithLlm: getLlmResponse
+    });
+    responseText = reply.text;
+  } catch (error) {
+    console.error('Error processing chat from WhatsApp:', error);
+    responseText = t(detectLanguage(text, DEFAULT_LANGUAGE), 'whatsapp.error');
+  }
+
+  await client.sendText(message.from, toWhatsAppFormat(responseText));
+};
+
+/**
+ * Collect all inbound messages from a webhook payload
+ */
+const extractMessages = (payload: WhatsAppWebhookPayload): WhatsAppInboundMessage[] => {
+  if (payload?.object !== 'whatsapp_business_account') {
+    return [];
+  }
+
+  return (payload.entry || []).flatMap((entry) =>
+    (entry.changes || []).flatMap((change) => change.value?.messages || [])
+  );
+};
+
+const rememberMessageId = (ids: Set<string>, id: string): void => {
+  ids.add(id);
+  if (ids.size > MAX_REMEMBERED_MESSAGE_IDS) {
+    // Sets iterate in insertion order, so this drops the oldest ID
+    const oldest = ids.values().next().value;
+    if (oldest !== undefined) {
+      ids.delete(oldest);
+    }
+  }
+};
+
+// Only for local development: accept webhook calls without an app secret to check them with
+const allowsUnsignedWebhooks = (): boolean => process.env.WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS === 'true';
+
+/**
+ * Check the X-Hub-Signature-256 header against the app secret.
+ * Without a secret every call is rejected, unless unsigned webhooks are allowed explicitly.
+ */
+const isValidSignature = (req: Request): boolean => {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    return allowsUnsignedWebhooks();
+  }
+
+  const signature = req.get('x-hub-signature-256');
+  const rawBody: Buffer | undefined = (req as Request & { rawBody?: Buffer }).rawBody;
+  if (!signature || !rawBody) {
+    return false;
+  }
+
+  const expected = 'sha256=' + crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex');
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
@@ -0,0 +1,35 @@
+/**
+ * authMiddleware.ts
+ * Express middleware attaching the logged-in customer to the request, read from the
+ * aninka_session cookie or an "Authorization: Bearer" header
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { resolveCustomerContext } from '../../application/services/CustomerContextService';
+
+// Request after attachCustomer; customer is null for guests
+export type CustomerRequest = Request & { customer?: CustomerContext | null };
+
+const readBearerToken = (header: string | undefined): string | undefined => {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+};
+
+/**
+ * Resolve the customer once per request, so that controllers and services share it
+ */
+export const attachCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  (req as CustomerRequest).customer = await resolveCustomerContext({
+    cookie: req.cookies?.aninka_session,
+    bearerToken: readBearerToken(req.headers.authorization)
+  });
+  next();
+};
+
+/**
+ * The customer attached by attachCustomer, or null for guests
+ */
+export const getRequestCustomer = (req: Request): CustomerContext | null => {
+  return (req as CustomerRequest).customer ?? null;
+};
@@ -0,0 +1,30 @@
+/**
+ * rateLimitMiddleware.ts
+ * Express middleware rejecting chat messages that are too long or sent too often
+ * from one IP address or session
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { MAX_MESSAGE_LENGTH, checkRequestLimits } from '../../application/services/RateLimitService';
+
+/**
+ * Answer 413 for overlong messages and 429 with Retry-After once a limit is reached
+ */
+export const limitChatRequests = async (req: Request, res: Response, next: NextFunction) => {
+  const { message, sessionId } = req.body ?? {};
+  if (typeof message === 'string' && message.length > MAX_MESSAGE_LENGTH) {
+    return res.status(413).json({ error: `Message must be at most ${MAX_MESSAGE_LENGTH} characters` });
+  }
+
+  const result = await checkRequestLimits(req.ip ?? 'unknown', typeof sessionId === 'string' ? sessionId : undefined);
+  if (!result.allowed) {
+    console.warn(`Rate limit per ${result.scope} reached by ${req.ip}`);
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+    return res.status(429).json({
+      error: 'Too many requests, please try again later.',
+      retryAfter: result.retryAfterSeconds
+    });
+  }
+
+  next();
+};
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConversationState } from '../../domain/entities/ConversationState';
+import { LlmCompletion, LlmProvider } from '../../infrastructure/llm/LlmProvider';
+import { getLlmProvider } from '../../infrastructure/llm/LlmProviderFactory';
+import { runAgent } from './AgentService';
+
+// The backend knows no products or orders
+vi.mock('axios', () => ({ default: { get: vi.fn(async () => ({ data: { success: false } })), post: vi.fn() } }));
+vi.mock('../../infrastructure/llm/LlmProviderFactory', () => ({ getLlmProvider: vi.fn() }));
+
+// A model that asks for one tool call and then answers
+const useToolCall = (name: string, args: Record<string, unknown>) => {
+  const completions: LlmCompletion[] = [
+    { text: '', provider: 'mock', toolCalls: [{ id: 'call-1', name, arguments: JSON.stringify(args) }] },
+    { text: 'Selesai.', provider: 'mock' }
+  ];
+  const provider = { name: 'mock', complete: vi.fn(async () => completions.shift()!), stream: vi.fn() };
+  vi.mocked(getLlmProvider).mockReturnValue(provider as unknown as LlmProvider);
+};
+
+const requestedUrls = () => vi.mocked(axios.get).mock.calls.map(([url]) => url);
+
+describe('runAgent tool arguments', () => {
+  beforeEach(() => {
+    vi.mocked(axios.get).mockClear();
+  });
+
+  it('refuses product and order IDs that are not IDs', async () => {
+    for (const [name, args] of [
+      ['get_product', { product_id: '../users/1' }],
+      ['get_product', { product_id: '1?include=secrets' }],
+      ['get_order', { order_id: '../users/1' }],
+      ['get_order', { order_id: 'ORD-001/cancel' }]
+    ] as const) {
+      useToolCall(name, args);
+      const result = await runAgent('cek ini', createConversationState('session'));
+      expect(result.toolCalls[0]).toMatchObject({ name, success: false });
+    }
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('looks up valid IDs on the backend', async () => {
+    useToolCall('get_product', { product_id: 'p001' });
+    expect((await runAgent('detail p001', createConversationState('session'))).toolCalls[0].success).toBe(true);
+
+    useToolCall('get_order', { order_id: 'ord-999' });
+    expect((await runAgent('cek ord-999', createConversationState('session'))).toolCalls[0].success).toBe(true);
+
+    expect(requestedUrls()).toEqual([
+      expect.stringMatching(/\/api\/products\/p001$/),
+      expect.stringMatching(/\/api\/orders\/ORD-999$/)
+    ]);
+  });
+});
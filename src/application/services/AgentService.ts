@@ -0,0 +1,218 @@
+/**
+ * AgentService.ts
+ * Agent mode: the LLM answers with the help of catalog, order and membership lookups
+ * it requests as tool calls, executed here for the customer the request is made for
+ */
+
+import dotenv from 'dotenv';
+import { ConversationState, ToolCallLog } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { getLlmProvider } from '../../infrastructure/llm/LlmProviderFactory';
+import { LlmMessage, LlmToolCall, LlmToolDefinition } from '../../infrastructure/llm/LlmProvider';
+import { searchProducts, getProductById } from '../../infrastructure/api/ProductApi';
+import { getOrderById } from '../../infrastructure/api/OrderApi';
+import { extractBareOrderId } from '../../domain/services/EntityExtractor';
+import {
+  searchProductsExternal,
+  getProductByIdExternal,
+  getOrderByIdExternal,
+  getUserStatusExternal
+} from '../../infrastructure/api/ExternalApi';
+import { buildChatMessages } from './LlmService';
+import { canAccessOrder } from './OrderAccessService';
+import { recordLlmUsage } from './RateLimitService';
+dotenv.config();
+
+const AGENT_MODE = process.env.AGENT_MODE === 'true';
+const MAX_STEPS = Number(process.env.AGENT_MAX_STEPS ?? '4');
+// Turns classified below this confidence are handled by the agent
+const CONFIDENCE_THRESHOLD = Number(process.env.AGENT_CONFIDENCE_THRESHOLD ?? '0.6');
+
+// Product IDs as the catalog uses them, e.g. "p001"; tool arguments come from the model,
+// so anything else (a path, a query string) is refused before it reaches the backend
+const PRODUCT_ID_REGEX = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export interface AgentResult {
+  text: string;
+  toolCalls: ToolCallLog[];
+}
+
+interface ToolOutcome {
+  content: unknown;
+  summary: string;
+}
+
+export const AGENT_TOOLS: LlmToolDefinition[] = [
+  {
+    name: 'search_products',
+    description: 'Search the Aninka Fashion catalog. Use for any question about available products, prices, colors or sizes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        keyword: { type: 'string', description: 'Product name or keyword, e.g. "gamis"' },
+        category: { type: 'string', description: 'Category such as gamis, setelan, daster, shirt, shoes, bag' },
+        color: { type: 'string' },
+        size: { type: 'string' },
+        min_price: { type: 'number', description: 'Minimum price in Rupiah' },
+        max_price: { type: 'number', description: 'Maximum price in Rupiah' },
+        exclude_colors: { type: 'array', items: { type: 'string' }, description: 'Colors the customer does not want' }
+      }
+    }
+  },
+  {
+    name: 'get_product',
+    description: 'Get the details of one product by its ID.',
+    parameters: {
+      type: 'object',
+      properties: { product_id: { type: 'string' } },
+      required: ['product_id']
+    }
+  },
+  {
+    name: 'get_order',
+    description: 'Get the status, items and total of an order by its order number.',
+    parameters: {
+      type: 'object',
+      properties: { order_id: { type: 'string', description: 'Order number, e.g. "ORD-001"' } },
+      required: ['order_id']
+    }
+  },
+  {
+    name: 'get_user_status',
+    description: 'Get the membership level and points of the logged-in customer.',
+    parameters: { type: 'object', properties: {} }
+  }
+];
+
+/**
+ * Whether a classified turn should be handed to the agent
+ */
+export const shouldUseAgent = (confidence: number): boolean => {
+  return AGENT_MODE && confidence < CONFIDENCE_THRESHOLD;
+};
+
+/**
+ * Run one tool call against the APIs, falling back to mock data like the intent handlers do
+ */
+const runTool = async (
+  name: string,
+  args: Record<string, any>,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<ToolOutcome> => {
+  switch (name) {
+    case 'search_products': {
+      const filters = { min_price: args.min_price, max_price: args.max_price, exclude_colors: args.exclude_colors };
+      let products: unknown[] = await searchProductsExternal(
+        args.keyword, args.category, args.color, args.size, 1, 5, customer, filters
+      );
+      if (products.length === 0 && (args.keyword || args.category)) {
+        products = await searchProducts(args.keyword || args.category, filters);
+      }
+      return { content: products, summary: `${products.length} produk` };
+    }
+
+    case 'get_product': {
+      const productId = String(args.product_id ?? '');
+      if (!PRODUCT_ID_REGEX.test(productId)) {
+        throw new Error(`Invalid product_id "${productId}"`);
+      }
+      const product = await getProductByIdExternal(productId, customer) ?? await getProductById(productId);
+      return { content: product, summary: product ? `produk ${productId}` : 'tidak ditemukan' };
+    }
+
+    case 'get_order': {
+      // Same order numbers as customers can type, e.g. "ORD-001" or "12345"
+      const orderId = extractBareOrderId(String(args.order_id ?? ''));
+      if (!orderId) {
+        throw new Error(`Invalid order_id "${args.order_id}"`);
+      }
+      const order = await getOrderByIdExternal(orderId, customer) ?? await getOrderById(orderId);
+      // The agent cannot ask a guest to verify, so it only sees orders the sender may see
+      if (order && !(await canAccessOrder(order, state, customer))) {
+        return {
+          content: { error: 'The customer must log in, or send this order number again to verify it with the email or phone used at checkout' },
+          summary: 'perlu verifikasi'
+        };
+      }
+      return { content: order, summary: order ? `pesanan ${orderId} (${order.status})` : 'tidak ditemukan' };
+    }
+
+    case 'get_user_status': {
+      if (!customer) {
+        return { content: { error: 'User is not logged in' }, summary: 'belum login' };
+      }
+      const user = await getUserStatusExternal(customer);
+      return { content: user, summary: user ? `member ${user.membershipLevel}` : 'tidak ditemukan' };
+    }
+
+    default:
+      throw new Error(`Unknown tool "${name}"`);
+  }
+};
+
+/**
+ * Execute a tool call requested by the model
+ * @returns The message fed back to the model and the log entry for the conversation state
+ */
+const executeToolCall = async (
+  call: LlmToolCall,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<{ message: LlmMessage; log: ToolCallLog }> => {
+  const timestamp = new Date().toISOString();
+  let args: Record<string, any> = {};
+
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+    const outcome = await runTool(call.name, args, state, customer);
+
+    return {
+      message: { role: 'tool', toolCallId: call.id, content: JSON.stringify(outcome.content ?? null) },
+      log: { name: call.name, arguments: args, success: true, result: outcome.summary, timestamp }
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Agent tool "${call.name}" failed:`, error);
+
+    return {
+      message: { role: 'tool', toolCallId: call.id, content: JSON.stringify({ error: errorMessage }) },
+      log: { name: call.name, arguments: args, success: false, result: errorMessage, timestamp }
+    };
+  }
+};
+
+/**
+ * Let the LLM answer a message, calling tools until it gives a final answer
+ * or the step limit is reached
+ */
+export const runAgent = async (
+  message: string,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<AgentResult> => {
+  const provider = getLlmProvider();
+  const messages = buildChatMessages(message, state, { useTools: true });
+  const toolCalls: ToolCallLog[] = [];
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const completion = await provider.complete(messages, { tools: AGENT_TOOLS });
+    await recordLlmUsage(state.sessionId, completion.usage);
+
+    if (!completion.toolCalls?.length) {
+      return { text: completion.text, toolCalls };
+    }
+
+    messages.push({ role: 'assistant', content: completion.text, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      const { message: toolMessage, log } = await executeToolCall(call, state, customer);
+      messages.push(toolMessage);
+      toolCalls.push(log);
+    }
+  }
+
+  // Step limit reached: answer with what has been looked up so far
+  const finalCompletion = await provider.complete(messages);
+  await recordLlmUsage(state.sessionId, finalCompletion.usage);
+  return { text: finalCompletion.text, toolCalls };
+};
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConversationState, ConversationState, ProductReference } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { extractEntities } from '../../domain/services/EntityExtractor';
+import { ApiProduct } from '../../infrastructure/api/ExternalApi';
+import { CartStore } from '../../infrastructure/cart/CartStore';
+import { createMemoryCartStore } from '../../infrastructure/cart/MemoryCartStore';
+import { getCart, handleCartRequest, setCartStores } from './CartService';
+import { findProduct } from './ProductReferenceService';
+
+vi.mock('./ProductReferenceService', () => ({ findProduct: vi.fn() }));
+
+const products: ApiProduct[] = [
+  {
+    id: 'P1',
+    name: 'Kemeja Flanel',
+    description: '',
+    price: 150000,
+    category: 'kemeja',
+    imageUrl: '',
+    inStock: true,
+    size: 'S, M, L',
+    color: 'merah, hitam'
+  },
+  {
+    id: 'P2',
+    name: 'Kaos Polos',
+    description: '',
+    price: 50000,
+    category: 'kaos',
+    imageUrl: '',
+    inStock: true,
+    size: 'M',
+    color: 'putih'
+  },
+  {
+    id: 'P3',
+    name: 'Topi Baseball',
+    description: '',
+    price: 75000,
+    category: 'topi',
+    imageUrl: '',
+    inStock: false
+  }
+];
+
+const shownResults: ProductReference[] = products.map((product, index) => ({
+  id: product.id,
+  name: product.name,
+  category: product.category,
+  price: product.price,
+  inStock: product.inStock,
+  color: product.color,
+  size: product.size,
+  position: index + 1
+}));
+
+const customer: CustomerContext = {
+  userId: '7',
+  token: 'token',
+  name: 'Budi',
+  membershipLevel: 'silver',
+  membershipPoints: 0,
+  registeredSince: '2024-01-01'
+};
+
+// Keeps customer carts by user ID
+const createCustomerStore = (): CartStore<CustomerContext> => {
+  const carts = createMemoryCartStore();
+  return {
+    get: (owner) => carts.get(owner.userId),
+    addItem: (owner, item) => carts.addItem(owner.userId, item),
+    updateQuantity: (owner, itemId, quantity) => carts.updateQuantity(owner.userId, itemId, quantity),
+    removeItem: (owner, itemId) => carts.removeItem(owner.userId, itemId)
+  };
+};
+
+describe('handleCartRequest', () => {
+  let state: ConversationState;
+
+  const send = (message: string, asCustomer?: CustomerContext) =>
+    handleCartRequest(message, extractEntities(message), state, asCustomer);
+
+  const cartLines = async (asCustomer?: CustomerContext) =>
+    (await getCart(state, asCustomer))?.items.map((item) => [item.productId, item.size, item.color, item.quantity]);
+
+  beforeEach(() => {
+    setCartStores({ guest: createMemoryCartStore(), customer: createCustomerStore() });
+    vi.mocked(findProduct).mockImplementation(async (id) => products.find((product) => product.id === id) ?? null);
+
+    state = createConversationState('session');
+    state.context.lastProductResults = shownResults;
+  });
+
+  it('adds the product at the position of the last results', async () => {
+    const reply = await send('masukkan nomor 1 ukuran M warna hitam ke keranjang');
+    expect(reply.responseText).toBe('**Kemeja Flanel** (M, hitam) sebanyak 1 sudah masuk ke keranjang.');
+    expect(await cartLines()).toEqual([['P1', 'M', 'hitam', 1]]);
+  });
+
+  it('picks the only size and color of a product', async () => {
+    await send('masukkan nomor 2 ke keranjang');
+    expect(await cartLines()).toEqual([['P2', 'M', 'putih', 1]]);
+  });
+
+  it('asks for the size with one quick reply per size', async () => {
+    const reply = await send('masukkan nomor 1 ke keranjang');
+    expect(reply.responseText).toBe('**Kemeja Flanel** tersedia dalam ukuran S, M, L. Ukuran mana yang Anda mau?');
+    expect(reply.messages[1]).toEqual({
+      type: 'quick_replies',
+      options: ['S', 'M', 'L'].map((size) => ({ label: size, value: `Masukkan nomor 1 ukuran ${size} ke keranjang` }))
+    });
+    expect(await cartLines()).toEqual([]);
+  });
+
+  it('rejects sizes and colors the product does not come in', async () => {
+    expect((await send('masukkan nomor 1 ukuran XL warna hitam ke keranjang')).responseText)
+      .toBe('Maaf, **Kemeja Flanel** tidak tersedia dalam ukuran XL. Ukuran yang tersedia: S, M, L.');
+    expect((await send('masukkan nomor 1 ukuran M warna biru ke keranjang')).responseText)
+      .toBe('Maaf, **Kemeja Flanel** tidak tersedia dalam warna biru. Warna yang tersedia: merah, hitam.');
+    expect(await cartLines()).toEqual([]);
+  });
+
+  it('does not add products that are out of stock or not shown', async () => {
+    expect((await send('masukkan nomor 3 ke keranjang')).responseText).toContain('Topi Baseball');
+    expect((await send('masukkan nomor 7 ke keranjang')).responseText)
+      .toBe('Maaf, tidak ada produk nomor 7 pada daftar yang ditampilkan.');
+    expect(await cartLines()).toEqual([]);
+  });
+
+  it('limits the quantity per cart line', async () => {
+    expect((await send('masukkan nomor 2 ke keranjang 100 pcs')).responseText)
+      .toBe('Maaf, jumlah per item harus antara 1 dan 99.');
+    expect(await cartLines()).toEqual([]);
+
+    await send('masukkan nomor 2 ke keranjang 3 pcs');
+    expect((await send('ubah jumlah item nomor 1 jadi 100')).responseText)
+      .toBe('Maaf, jumlah per item harus antara 1 dan 99.');
+    expect(await cartLines()).toEqual([['P2', 'M', 'putih', 3]]);
+  });
+
+  it('updates and removes cart lines by position', async () => {
+    await send('masukkan nomor 1 ukuran L warna merah ke keranjang');
+    await send('masukkan nomor 2 ke keranjang');
+
+    const updated = await send('ubah jumlah item nomor 2 jadi 4');
+    expect(updated.responseText).toContain('Jumlah **Kaos Polos** (M, putih) diubah menjadi 4.');
+    expect(await cartLines()).toEqual([['P1', 'L', 'merah', 1], ['P2', 'M', 'putih', 4]]);
+
+    const removed = await send('hapus item nomor 1 dari keranjang');
+    expect(removed.responseText).toContain('**Kemeja Flanel** (L, merah) sudah dihapus dari keranjang.');
+    expect(await cartLines()).toEqual([['P2', 'M', 'putih', 4]]);
+
+    expect((await send('hapus item nomor 5 dari keranjang')).responseText)
+      .toBe('Maaf, tidak ada item nomor 5 di keranjang Anda.');
+  });
+
+  it('keeps the cart of a logged-in customer apart from the guest cart', async () => {
+    await send('masukkan nomor 2 ke keranjang', customer);
+    expect(await cartLines(customer)).toEqual([['P2', 'M', 'putih', 1]]);
+    expect(await cartLines()).toEqual([]);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * CartService.ts
+ * Conversational cart: "masukkan yang nomor 2 ke keranjang", "lihat keranjang",
+ * "hapus item nomor 1" and "ubah jumlah jadi 2". Logged-in customers use their
+ * cart on the backend; guests get a cart kept with the chat session.
+ */
+
+import { Cart, CartItem, getCartTotal } from '../../domain/entities/Cart';
+import { ConversationState, ProductReference } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { RichMessage, handoffMessage, quickReplies, textMessage } from '../../domain/entities/ChatResponse';
+import { ExtractedEntities } from '../../domain/services/EntityExtractor';
+import { resolveProductReference } from '../../domain/services/ReferenceResolver';
+import { parseSizes, parseVariants, hasSize, hasColor } from '../../domain/services/ProductVariants';
+import { t, formatCurrency, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { CartStore } from '../../infrastructure/cart/CartStore';
+import { createExternalCartStore } from '../../infrastructure/cart/ExternalCartStore';
+import { ApiProduct } from '../../infrastructure/api/ExternalApi';
+import { createSessionCartStore } from './SessionCartStore';
+import { findProduct } from './ProductReferenceService';
+
+// Highest quantity of one cart line that can be set through the chat
+const MAX_CART_QUANTITY = 99;
+
+export interface CartReply {
+  responseText: string;
+  messages: RichMessage[];
+}
+
+interface CartStores {
+  // Carts of guests, keyed by chat session ID
+  guest: CartStore;
+  // Carts of logged-in customers, kept by the backend
+  customer: CartStore<CustomerContext>;
+}
+
+let stores: CartStores | null = null;
+
+const getStores = (): CartStores => {
+  if (!stores) {
+    stores = { guest: createSessionCartStore(), customer: createExternalCartStore() };
+  }
+  return stores;
+};
+
+/**
+ * Replace the cart stores, e.g. with in-memory stores in tests
+ */
+export const setCartStores = (newStores: CartStores): void => {
+  stores = newStores;
+};
+
+const createReply = (text: string, extra: RichMessage[] = []): CartReply => ({
+  responseText: text,
+  messages: [textMessage(text), ...extra]
+});
+
+const createUnavailableReply = (language: Language): CartReply => {
+  return createReply(t(language, 'cart.unavailable'), [handoffMessage(language)]);
+};
+
+/**
+ * Size and color of a cart line, e.g. " (M, hitam)"
+ */
+const formatVariant = (item: Pick<CartItem, 'size' | 'color'>): string => {
+  const variant = [item.size, item.color].filter(Boolean).join(', ');
+  return variant ? ` (${variant})` : '';
+};
+
+/**
+ * The cart as a numbered list with its total
+ */
+const formatCart = (cart: Cart, language: Language): string => {
+  const lines = cart.items.map((item, index) => t(language, 'cart.item', {
+    position: index + 1,
+    name: item.name,
+    variant: formatVariant(item),
+    quantity: item.quantity,
+    price: formatCurrency(item.price, language),
+    subtotal: formatCurrency(item.price * item.quantity, language)
+  }));
+
+  return [
+    t(language, 'cart.title'),
+    ...lines,
+    '',
+    t(language, 'cart.total', { total: formatCurrency(getCartTotal(cart), language) })
+  ].join('\n');
+};
+
+const createCartReply = (cart: Cart, language: Language, notice?: string): CartReply => {
+  if (cart.items.length === 0) {
+    const text = [notice, t(language, 'cart.empty')].filter(Boolean).join('\n\n');
+    return createReply(text, [quickReplies([t(language, 'quickReply.searchProducts')])]);
+  }
+
+  return createReply([notice, formatCart(cart, language)].filter(Boolean).join('\n\n'));
+};
+
+/**
+ * The quick reply that adds the product again with a size or color chosen
+ */
+const createAddCommand = (
+  position: number,
+  size: string | undefined,
+  color: string | undefined,
+  language: Language
+): string => {
+  const options =
+    (size ? t(language, 'cart.sizeOption', { size }) : '') +
+    (color ? t(language, 'cart.colorOption', { color }) : '');
+  return t(language, 'cart.addCommand', { position, options });
+};
+
+type VariantChoice =
+  | { size?: string; color?: string }
+  | { reply: CartReply };
+
+/**
+ * Check the asked size and color against the product; a product offered in
+ * only one size or color gets it picked, and one offered in several gets asked about
+ */
+const chooseVariant = (
+  product: ApiProduct,
+  position: number,
+  entities: ExtractedEntities,
+  language: Language
+): VariantChoice => {
+  const name = product.name;
+  const sizes = parseSizes(product.size);
+  const colors = parseVariants(product.color);
+
+  let size: string | undefined;
+  if (entities.size) {
+    size = entities.size.toUpperCase();
+    if (sizes.length === 0) {
+      return { reply: createReply(t(language, 'reference.sizeUnknown', { name })) };
+    }
+    if (!hasSize(sizes, size)) {
+      return {
+        reply: createReply(t(language, 'reference.sizeUnavailable', { name, size, sizes: sizes.join(', ') }))
+      };
+    }
+  } else if (sizes.length === 1) {
+    size = sizes[0];
+  } else if (sizes.length > 1) {
+    const text = t(language, 'cart.chooseSize', { name, sizes: sizes.join(', ') });
+    return {
+      reply: createReply(text, [{
+        type: 'quick_replies',
+        options: sizes.map((option) => ({
+          label: option,
+          value: createAddCommand(position, option, entities.color, language)
+        }))
+      }])
+    };
+  }
+
+  let color: string | undefined;
+  if (entities.color) {
+    color = entities.color;
+    if (colors.length === 0) {
+      return { reply: createReply(t(language, 'cart.colorUnknown', { name })) };
+    }
+    if (!hasColor(colors, color)) {
+      return {
+        reply: createReply(t(language, 'cart.colorUnavailable', { name, color, colors: colors.join(', ') }))
+      };
+    }
+  } else if (colors.length === 1) {
+    color = colors[0];
+  } else if (colors.length > 1) {
+    const text = t(language, 'cart.chooseColor', { name, colors: colors.join(', ') });
+    return {
+      reply: createReply(text, [{
+        type: 'quick_replies',
+        options: colors.map((option) => ({
+          label: option,
+          value: createAddCommand(position, size, option, language)
+        }))
+      }])
+    };
+  }
+
+  return { size, color };
+};
+
+/**
+ * The product of the last results to add: the one referred to,
+ * or the only one shown
+ */
+const resolveProductToAdd = (
+  message: string,
+  entities: ExtractedEntities,
+  results: ProductReference[]
+): { product: ProductReference | null; position: number } | null => {
+  const reference = resolveProductReference(message, entities, results);
+  if (reference) {
+    return { product: reference.product, position: reference.position };
+  }
+
+  if (results.length === 1) {
+    return { product: results[0], position: results[0].position ?? 1 };
+  }
+  return null;
+};
+
+const addToCart = async <Owner>(
+  store: CartStore<Owner>,
+  owner: Owner,
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer: CustomerContext | null | undefined,
+  language: Language
+): Promise<CartReply> => {
+  const results = state.context.lastProductResults ?? [];
+  if (results.length === 0) {
+    return createReply(t(language, 'cart.searchFirst'), [quickReplies([t(language, 'quickReply.searchProducts')])]);
+  }
+
+  const target = resolveProductToAdd(message, entities, results);
+  if (!target) {
+    return createReply(t(language, 'cart.whichProduct'));
+  }
+  if (!target.product) {
+    return createReply(t(language, 'reference.outOfRange', { position: target.position }));
+  }
+
+  const quantity = entities.quantity ?? 1;
+  if (quantity < 1 || quantity > MAX_CART_QUANTITY) {
+    return createReply(t(language, 'cart.invalidQuantity', { max: MAX_CART_QUANTITY }));
+  }
+
+  // Stock, sizes and colors are checked on the current product data
+  const product = await findProduct(target.product.id, customer);
+  if (!product) {
+    return createReply(t(language, 'reference.unavailable', { name: target.product.name }));
+  }
+  if (!product.inStock) {
+    return createReply(t(language, 'reference.outOfStock', { name: product.name }));
+  }
+
+  const variant = chooseVariant(product, target.position, entities, language);
+  if ('reply' in variant) {
+    return variant.reply;
+  }
+
+  const cart = await store.addItem(owner, {
+    productId: product.id,
+    name: product.name,
+    price: product.price,
+    quantity,
+    size: variant.size,
+    color: variant.color,
+    imageUrl: product.imageUrl,
+    weight: product.weight
+  });
+  if (!cart) {
+    return createUnavailableReply(language);
+  }
+
+  const text = t(language, 'cart.added', { name: product.name, variant: formatVariant(variant), quantity });
+  return createReply(text, [quickReplies([t(language, 'quickReply.viewCart'), t(language, 'quickReply.searchProducts')])]);
+};
+
+/**
+ * The cart line a remove or update request refers to: "item nomor 2",
+ * "yang merah", or the only line in the cart
+ */
+const resolveCartItem = (
+  message: string,
+  entities: ExtractedEntities,
+  cart: Cart
+): { item: CartItem | null; position: number } | null => {
+  const lines: ProductReference[] = cart.items.map((item, index) => ({
+    id: item.id,
+    name: item.name,
+    category: '',
+    price: item.price,
+    inStock: true,
+    color: item.color,
+    size: item.size,
+    position: index + 1
+  }));
+
+  const reference = resolveProductReference(message, entities, lines);
+  if (reference) {
+    const item = cart.items.find((line) => line.id === reference.product?.id) ?? null;
+    return { item, position: reference.position };
+  }
+
+  return cart.items.length === 1 ? { item: cart.items[0], position: 1 } : null;
+};
+
+const changeCartItem = async <Owner>(
+  store: CartStore<Owner>,
+  owner: Owner,
+  message: string,
+  entities: ExtractedEntities,
+  language: Language
+): Promise<CartReply> => {
+  const cart = await store.get(owner);
+  if (!cart) {
+    return createUnavailableReply(language);
+  }
+  if (cart.items.length === 0) {
+    return createCartReply(cart, language);
+  }
+
+  const isRemoval = entities.cart_action === 'remove' || entities.quantity === 0;
+  if (!isRemoval && entities.quantity === undefined) {
+    return createReply(t(language, 'cart.askQuantity'));
+  }
+  if (!isRemoval && entities.quantity! > MAX_CART_QUANTITY) {
+    return createReply(t(language, 'cart.invalidQuantity', { max: MAX_CART_QUANTITY }));
+  }
+
+  const target = resolveCartItem(message, entities, cart);
+  if (!target) {
+    return createReply(`${t(language, 'cart.whichItem')}\n\n${formatCart(cart, language)}`);
+  }
+  if (!target.item) {
+    return createReply(t(language, 'cart.itemOutOfRange', { position: target.position }));
+  }
+
+  const { item } = target;
+  const updatedCart = isRemoval
+    ? await store.removeItem(owner, item.id)
+    : await store.updateQuantity(owner, item.id, entities.quantity!);
+  if (!updatedCart) {
+    return createUnavailableReply(language);
+  }
+
+  const notice = isRemoval
+    ? t(language, 'cart.removed', { name: item.name, variant: formatVariant(item) })
+    : t(language, 'cart.updated', { name: item.name, variant: formatVariant(item), quantity: entities.quantity! });
+  return createCartReply(updatedCart, language, notice);
+};
+
+/**
+ * The cart of the customer, or of the guest's chat session
+ * @returns The cart, or null if it cannot be reached
+ */
+export const getCart = (state: ConversationState, customer?: CustomerContext | null): Promise<Cart | null> => {
+  return customer ? getStores().customer.get(customer) : getStores().guest.get(state.sessionId);
+};
+
+const runCartAction = async <Owner>(
+  store: CartStore<Owner>,
+  owner: Owner,
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer: CustomerContext | null | undefined
+): Promise<CartReply> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+
+  switch (entities.cart_action) {
+    case 'add':
+      return addToCart(store, owner, message, entities, state, customer, language);
+
+    case 'remove':
+    case 'update':
+      return changeCartItem(store, owner, message, entities, language);
+
+    default: {
+      const cart = await store.get(owner);
+      return cart ? createCartReply(cart, language) : createUnavailableReply(language);
+    }
+  }
+};
+
+/**
+ * Add, show, remove or change cart items as asked in the message
+ */
+export const handleCartRequest = (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<CartReply> => {
+  return customer
+    ? runCartAction(getStores().customer, customer, message, entities, state, customer)
+    : runCartAction(getStores().guest, state.sessionId, message, entities, state, customer);
+};
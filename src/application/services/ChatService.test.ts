@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryConversationStore } from '../../infrastructure/store/MemoryConversationStore';
+import { processMessage } from './ChatService';
+import { setConversationStore } from './ConversationStateManager';
+
+// The backend cannot be reached, so orders come from the mock data
+vi.mock('axios', () => ({ default: { get: vi.fn(async () => { throw new Error('offline'); }), post: vi.fn() } }));
+
+const respondWithLlm = vi.fn(async () => 'LLM');
+const send = (message: string) => processMessage(message, 'guest-session', { respondWithLlm });
+
+describe('processMessage order tracking for guests', () => {
+  beforeEach(() => {
+    setConversationStore(createMemoryConversationStore());
+  });
+
+  it('tells a guest asking about their orders how to log in', async () => {
+    for (const message of ['cek pesanan saya', 'pesanan saya']) {
+      const reply = await send(message);
+      expect(reply.text).toBe('Untuk melihat riwayat pesanan, silakan masuk (login) ke akun Anda di website Aninka terlebih dahulu, ' +
+        'lalu buka chat ini kembali. Jika Anda tahu nomor pesanan atau nomor resinya, kirim saja nomornya (contoh: ORD-001).');
+    }
+  });
+
+  it('takes the order number sent after the login hint', async () => {
+    await send('cek pesanan saya');
+    const reply = await send('ORD-001');
+    expect(reply.text).toContain('mohon kirimkan email atau nomor HP yang digunakan saat memesan **ORD-001**');
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * ChatService.ts
+ * Service running the classify → handle → respond pipeline shared by all chat channels
+ */
+
+import dotenv from 'dotenv';
+import { getConversationState, updateState } from './ConversationStateManager';
+import {
+  ConversationState,
+  OrderAccessState,
+  OrderBrowsingState,
+  PendingAction,
+  ProductBrowsingState,
+  ProductReference,
+  SlotFillingState,
+  ToolCallLog,
+  addIntentToState,
+  addMessageToState
+} from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import {
+  ChatResponse,
+  RichMessage,
+  handoffMessage,
+  quickReplies,
+  textMessage
+} from '../../domain/entities/ChatResponse';
+import { compactHistory } from './ConversationHistory';
+import { LlmPromptContext } from './LlmService';
+import { searchKnowledgeBase, formatSources } from './KnowledgeBaseService';
+import { hasLlmBudget } from './RateLimitService';
+import { askForMissingSlots, isSlotFillingExpired, resolveSlotAnswer } from './DialogManager';
+import { runAgent, shouldUseAgent } from './AgentService';
+import { answerProductReference } from './ProductReferenceService';
+import { browseProductPages, searchProductPage, toSearchCriteria } from './ProductBrowsingService';
+import { handleCartRequest } from './CartService';
+import { estimateShipping } from './ShippingService';
+import { trackShipment } from './ShipmentTrackingService';
+import {
+  showOrder,
+  listOrders,
+  answerOrderListFollowUp,
+  continueOrderVerification,
+  toOrderListFilters
+} from './OrderService';
+import { getVerificationReminder } from './OrderAccessService';
+import {
+  startCancellation,
+  continueCancellation,
+  isPendingActionExpired,
+  getPendingCancellationReminder
+} from './OrderCancellationService';
+import { formatCorrectionNotice } from '../../domain/services/TextNormalizer';
+import { detectLanguage } from '../../domain/services/LanguageDetector';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { classifyIntent, Intent, IntentClassification, shouldUseFallback, getFallbackResponse } from '../../domain/services/IntentClassifier';
+import {
+  formatShipmentTrackingResponse,
+  getUserStatusExternal,
+  formatUserStatusResponse
+} from '../../infrastructure/api/ExternalApi';
+dotenv.config();
+
+// Oldest transcript messages beyond this many are dropped from the state
+const MAX_HISTORY_MESSAGES = Number(process.env.CONVERSATION_HISTORY_LIMIT ?? '200');
+
+// Agent tool calls kept on the state for auditing
+const MAX_TOOL_CALL_LOG = 50;
+
+// Produces a free-form answer for a message, either in one piece or streamed
+export type LlmResponder = (
+  message: string,
+  state: ConversationState,
+  promptContext?: LlmPromptContext
+) => Promise<string>;
+
+// Outcome of handling one classified message
+export interface IntentResult {
+  responseText: string;
+  // Cards and buttons for rich clients; without them the reply is a single text message
+  messages?: RichMessage[];
+  // Recorded instead of the classified intent, e.g. for "ya" answering a pending flow
+  intent?: Intent;
+  lastProductSearch?: string;
+  // Products shown by a search, replacing the remembered results
+  lastProductResults?: ProductReference[];
+  lastOrderId?: string;
+  // New pending flow step; null ends the flow, undefined leaves it untouched
+  pendingAction?: PendingAction | null;
+  // Slots still being asked for; null ends slot filling, undefined leaves it untouched
+  slotFilling?: SlotFillingState | null;
+  // Search being paged through; null ends browsing, undefined leaves it untouched
+  productBrowsing?: ProductBrowsingState | null;
+  // Order list being paged through; null ends it, undefined leaves it untouched
+  orderBrowsing?: OrderBrowsingState | null;
+  // Orders a guest has verified; undefined leaves them untouched
+  orderAccess?: OrderAccessState;
+  // Lookups made by the LLM in agent mode
+  toolCalls?: ToolCallLog[];
+}
+
+export interface ProcessMessageOptions {
+  customer?: CustomerContext | null;
+  // IP address or WhatsApp number of the sender, for limits the session ID cannot reset
+  clientId?: string;
+  respondWithLlm: LlmResponder;
+  // Returns true when the turn was abandoned and must not be recorded
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Classify a message, handle its intent and record the finished turn
+ * @returns The reply as rich messages, with the full text for text-only channels
+ */
+export const processMessage = async (
+  message: string,
+  sessionId: string,
+  options: ProcessMessageOptions
+): Promise<ChatResponse> => {
+  // Get or create conversation state for this session
+  const storedState = await getConversationState(sessionId);
+
+  // Reply in the language of the latest message
+  const language = detectLanguage(message, storedState.language ?? DEFAULT_LANGUAGE);
+  const conversationState: ConversationState = { ...storedState, language };
+
+  // Classify user intent
+  let classification = classifyIntent(message, conversationState);
+
+  // A pending multi-turn flow gets the first chance to use the message
+  const pendingAction = conversationState.pendingAction;
+  let result: IntentResult | null = null;
+  if (pendingAction && !isPendingActionExpired(pendingAction)) {
+    if (pendingAction.type === 'verify_order') {
+      const step = await continueOrderVerification(pendingAction, message, conversationState, options.customer, options.clientId);
+      if (step) {
+        result = { ...step, intent: Intent.ORDER_TRACKING };
+      }
+    } else {
+      const step = await continueCancellation(
+        pendingAction,
+        message,
+        classification.entities,
+        conversationState,
+        options.customer,
+        options.clientId
+      );
+      if (step) {
+        result = { ...step, intent: Intent.ORDER_ACTION };
+      }
+    }
+  }
+
+  // An answer to a follow-up question completes the earlier request
+  const slotFilling = conversationState.slotFilling;
+  if (!result && slotFilling && !isSlotFillingExpired(slotFilling)) {
+    classification = resolveSlotAnswer(slotFilling, message, classification) ?? classification;
+  }
+
+  if (!result) {
+    // Follow-ups on the last results: "yang nomor 2", "yang merah tadi", "lihat lagi", "halaman 3";
+    // "masukkan yang nomor 2 ke keranjang" and "ongkir yang kedua ke Bandung" refer to a result
+    // too but are cart and shipping requests. An order list just shown comes before the products.
+    const normalizedMessage = classification.normalizedMessage ?? message;
+    const isRequest = classification.intent === Intent.CART || classification.intent === Intent.SHIPPING;
+    const orderFollowUp = isRequest
+      ? null
+      : await answerOrderListFollowUp(normalizedMessage, classification.entities, conversationState, options.customer);
+    const followUp = isRequest || orderFollowUp
+      ? null
+      : await answerProductReference(normalizedMessage, classification.entities, conversationState, options.customer) ??
+        await browseProductPages(normalizedMessage, classification.entities, conversationState, options.customer);
+
+    result = orderFollowUp
+      ? { ...orderFollowUp, intent: orderFollowUp.lastOrderId ? Intent.ORDER_TRACKING : Intent.ORDER_HISTORY }
+      : followUp
+      ? { ...followUp, intent: Intent.PRODUCT_SEARCH }
+      : await handleIntent(
+          message,
+          classification,
+          conversationState,
+          options.customer,
+          options.respondWithLlm
+        );
+
+    // Confirm guessed spellings, e.g. "Maksud Anda *gamis*?"
+    addText(result, formatCorrectionNotice(classification.corrections ?? [], language), 'start');
+
+    if (slotFilling && result.slotFilling === undefined) {
+      result.slotFilling = null;
+    }
+
+    // The flow was interrupted: keep it so the user can still finish it
+    if (pendingAction && result.pendingAction === undefined) {
+      if (isPendingActionExpired(pendingAction)) {
+        result.pendingAction = null;
+      } else {
+        addText(result, pendingAction.type === 'verify_order'
+          ? getVerificationReminder(pendingAction, language)
+          : getPendingCancellationReminder(pendingAction, language), 'end');
+      }
+    }
+  }
+
+  if (!options.isCancelled?.()) {
+    // Update state with the message and response
+    await recordTurn(sessionId, conversationState, classification, message, result);
+
+    // Summarizing old turns needs an LLM call, so it does not hold up the reply
+    compactHistory(sessionId).catch((error) => {
+      console.error('Error summarizing conversation history:', error);
+    });
+  }
+
+  return {
+    text: result.responseText,
+    messages: result.messages ?? [textMessage(result.responseText)]
+  };
+};
+
+/**
+ * Add a note before or after the reply, in the text and as its own message
+ */
+const addText = (result: IntentResult, text: string, position: 'start' | 'end'): void => {
+  if (!text) {
+    return;
+  }
+
+  const messages = result.messages ?? [textMessage(result.responseText)];
+  if (position === 'start') {
+    result.responseText = text + result.responseText;
+    result.messages = [textMessage(text.trim()), ...messages];
+  } else {
+    result.responseText += text;
+    result.messages = [...messages, textMessage(text.trim())];
+  }
+};
+
+/**
+ * Shortcuts to the main things the assistant can do
+ */
+const getMenuQuickReplies = (language: Language): RichMessage => {
+  return quickReplies([
+    t(language, 'quickReply.searchProducts'),
+    t(language, 'quickReply.trackOrder'),
+    t(language, 'quickReply.membership')
+  ]);
+};
+
+/**
+ * Answer without the LLM once today's token budget is used up: the best matching
+ * knowledge base passage when there is one, otherwise what the assistant can still do
+ */
+const respondWithTemplate: LlmResponder = async (message, state, promptContext) => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const passage = promptContext?.knowledge?.[0];
+  if (passage) {
+    return `${t(language, 'llm.knowledgeAnswer')}\n\n${passage.content} [1]`;
+  }
+  return t(language, 'llm.limited');
+};
+
+/**
+ * Run the intent-specific logic for a classified message
+ */
+export const handleIntent = async (
+  message: string,
+  classification: IntentClassification,
+  conversationState: ConversationState,
+  customer: CustomerContext | null | undefined,
+  respondWithLlm: LlmResponder
+): Promise<IntentResult> => {
+  const language = conversationState.language ?? DEFAULT_LANGUAGE;
+
+  // Once today's LLM tokens are used up, free-form answers come from templates
+  const llmAvailable = await hasLlmBudget(conversationState.sessionId);
+  const respond = llmAvailable ? respondWithLlm : respondWithTemplate;
+
+  // Low-confidence turns go to the tool-calling agent when enabled;
+  // the keyword router stays the fast path for everything else
+  if (llmAvailable && shouldUseAgent(classification.confidence)) {
+    try {
+      const agentResult = await runAgent(message, conversationState, customer);
+      return { responseText: agentResult.text, toolCalls: agentResult.toolCalls };
+    } catch (error) {
+      console.error('Agent failed, using the intent router:', error);
+    }
+  }
+
+  // Handle fallback for low confidence
+  if (shouldUseFallback(classification)) {
+    const responseText = getFallbackResponse(language);
+    return { responseText, messages: [textMessage(responseText), getMenuQuickReplies(language)] };
+  }
+
+  // A logged-in customer asking about "pesanan saya" without a number picks from their orders
+  const { entities } = classification;
+  if (classification.intent === Intent.ORDER_TRACKING && customer && !entities.order_id && !entities.waybill) {
+    return { ...await listOrders({}, 1, customer, language), intent: Intent.ORDER_HISTORY };
+  }
+
+  // Ask a follow-up question when a required slot is still missing
+  const slotQuestion = askForMissingSlots(classification, conversationState.slotFilling, language);
+  if (slotQuestion) {
+    // A guest asking about "pesanan saya" is told how to log in; the order number can still be sent
+    if (classification.intent === Intent.ORDER_TRACKING && !customer) {
+      return { ...slotQuestion, responseText: t(language, 'orders.loginRequired') };
+    }
+    return slotQuestion;
+  }
+
+  switch (classification.intent) {
+    case Intent.PRODUCT_SEARCH: {
+      // New search criteria always start again from the first page
+      return searchProductPage(toSearchCriteria(classification.entities), 1, customer, language);
+    }
+
+    case Intent.CART: {
+      const normalizedMessage = classification.normalizedMessage ?? message;
+      return handleCartRequest(normalizedMessage, classification.entities, conversationState, customer);
+    }
+
+    case Intent.SHIPPING: {
+      const normalizedMessage = classification.normalizedMessage ?? message;
+      return estimateShipping(normalizedMessage, classification.entities, conversationState, customer);
+    }
+
+    case Intent.ORDER_TRACKING: {
+      // A waybill number on its own is tracked with the courier, without an order
+      const { waybill, courier } = classification.entities;
+      if (!classification.entities.order_id && waybill) {
+        const tracked = formatShipmentTrackingResponse(await trackShipment(waybill, courier), waybill, language);
+        return { responseText: tracked.text, messages: tracked.messages };
+      }
+
+      // Extract order ID from entities
+      return showOrder(classification.entities.order_id!, conversationState, customer);
+    }
+
+    case Intent.ORDER_HISTORY: {
+      // "riwayat pesanan", "pesanan yang dibatalkan bulan lalu"; new filters start from the first page
+      return listOrders(toOrderListFilters(classification.entities), 1, customer, language);
+    }
+
+    case Intent.ORDER_ACTION: {
+      if (classification.entities.order_action === 'cancel') {
+        return startCancellation(classification.entities, conversationState, customer);
+      }
+
+      // Returns and refunds are not automated yet, use the LLM for general response
+      return { responseText: await respond(message, conversationState) };
+    }
+
+    case Intent.GENERAL_FAQ:
+    case Intent.MENU_QUERY: {
+      // Ground the answer in the store's own knowledge base
+      const knowledge = await searchKnowledgeBase(message);
+      const answer = await respond(message, conversationState, { knowledge });
+      return { responseText: answer + formatSources(knowledge, answer, language) };
+    }
+
+    case Intent.GREETING: {
+      // Handle greetings with a friendly response
+      const responseText = t(language, 'greeting');
+      return { responseText, messages: [textMessage(responseText), getMenuQuickReplies(language)] };
+    }
+
+    case Intent.USER_STATUS: {
+      // The status is always the logged-in customer's own
+      if (customer) {
+        try {
+          // Get user status from external API
+          const userStatus = await getUserStatusExternal(customer);
+          return { responseText: formatUserStatusResponse(userStatus, language) };
+        } catch (error) {
+          console.error('Error getting user status from external API:', error);
+          const responseText = t(language, 'user.unavailable');
+          return { responseText, messages: [textMessage(responseText), handoffMessage(language)] };
+        }
+      }
+      return { responseText: t(language, 'user.loginRequired') };
+    }
+
+    default:
+      // For general queries, use the LLM
+      return { responseText: await respond(message, conversationState) };
+  }
+};
+
+/**
+ * Save the classified intent, the message and the response of a finished turn
+ */
+export const recordTurn = (
+  sessionId: string,
+  conversationState: ConversationState,
+  classification: IntentClassification,
+  message: string,
+  result: IntentResult
+): Promise<ConversationState> => {
+  const intent = result.intent ?? classification.intent;
+
+  let nextState = addMessageToState(
+    conversationState,
+    message,
+    result.responseText,
+    intent,
+    classification.entities,
+    MAX_HISTORY_MESSAGES
+  );
+  nextState = addIntentToState(nextState, intent, classification.confidence);
+
+  return updateState(sessionId, {
+    currentIntent: nextState.currentIntent,
+    confidence: nextState.confidence,
+    entities: classification.entities,
+    history: nextState.history,
+    language: conversationState.language,
+    ...(result.pendingAction !== undefined ? { pendingAction: result.pendingAction } : {}),
+    ...(result.slotFilling !== undefined ? { slotFilling: result.slotFilling } : {}),
+    ...(result.productBrowsing !== undefined ? { productBrowsing: result.productBrowsing } : {}),
+    ...(result.orderBrowsing !== undefined ? { orderBrowsing: result.orderBrowsing } : {}),
+    ...(result.orderAccess !== undefined ? { orderAccess: result.orderAccess } : {}),
+    ...(result.toolCalls?.length
+      ? { toolCalls: [...(conversationState.toolCalls ?? []), ...result.toolCalls].slice(-MAX_TOOL_CALL_LOG) }
+      : {}),
+    context: {
+      ...nextState.context,
+      ...(result.lastProductSearch ? { lastProductSearch: result.lastProductSearch } : {}),
+      ...(result.lastProductResults ? { lastProductResults: result.lastProductResults } : {}),
+      ...(result.lastOrderId ? { lastOrderId: result.lastOrderId } : {}),
+    }
+  });
+};
@@ -0,0 +1,105 @@
+/**
+ * ConversationHistory.ts
+ * Service for fitting the conversation transcript into the LLM's token budget
+ */
+
+import dotenv from 'dotenv';
+import { ConversationMessage, ConversationState } from '../../domain/entities/ConversationState';
+import { getLlmProvider } from '../../infrastructure/llm/LlmProviderFactory';
+import { LlmMessage } from '../../infrastructure/llm/LlmProvider';
+import { getConversationState, updateState } from './ConversationStateManager';
+import { hasLlmBudget, recordLlmUsage } from './RateLimitService';
+dotenv.config();
+
+// Tokens of transcript sent with each LLM request
+const HISTORY_TOKEN_BUDGET = Number(process.env.LLM_HISTORY_TOKEN_BUDGET ?? '2048');
+const SUMMARY_MAX_TOKENS = Number(process.env.LLM_SUMMARY_MAX_TOKENS ?? '256');
+
+/**
+ * Rough token count, about four characters per token for Latin text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const messageTokens = (message: ConversationMessage): number => estimateTokens(message.content) + 4;
+
+/**
+ * Messages not yet folded into the summary, oldest first
+ */
+const getUnsummarizedMessages = (state: ConversationState): ConversationMessage[] => {
+  const coveredUntil = state.summary?.coveredUntil ?? -1;
+  return (state.history || []).filter((message) => message.index > coveredUntil);
+};
+
+/**
+ * Select the most recent unsummarized messages that fit in the token budget
+ */
+export const selectHistoryWindow = (
+  state: ConversationState,
+  budget: number = HISTORY_TOKEN_BUDGET
+): LlmMessage[] => {
+  const messages = getUnsummarizedMessages(state);
+  const window: LlmMessage[] = [];
+  let used = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += messageTokens(messages[i]);
+    if (used > budget) break;
+    window.unshift({ role: messages[i].role, content: messages[i].content });
+  }
+
+  return window;
+};
+
+/**
+ * Fold the oldest turns into the running summary once the unsummarized
+ * transcript exceeds the token budget. Trims down to half the budget so
+ * the next summary is only needed after several more turns.
+ */
+export const compactHistory = async (sessionId: string): Promise<void> => {
+  const state = await getConversationState(sessionId);
+  const messages = getUnsummarizedMessages(state);
+
+  const total = messages.reduce((sum, message) => sum + messageTokens(message), 0);
+  // Without tokens left the transcript is only trimmed, by selectHistoryWindow
+  if (total <= HISTORY_TOKEN_BUDGET || !(await hasLlmBudget(sessionId))) {
+    return;
+  }
+
+  // Pick the oldest messages until the remainder fits in half the budget
+  const toSummarize: ConversationMessage[] = [];
+  let remaining = total;
+  for (const message of messages) {
+    if (remaining <= HISTORY_TOKEN_BUDGET / 2) break;
+    toSummarize.push(message);
+    remaining -= messageTokens(message);
+  }
+
+  const transcript = toSummarize
+    .map((message) => `${message.role === 'user' ? 'Pelanggan' : 'Asisten'}: ${message.content}`)
+    .join('\n');
+
+  const completion = await getLlmProvider().complete(
+    [
+      {
+        role: 'system',
+        content:
+        `Ringkas percakapan layanan pelanggan Aninka Fashion berikut dalam beberapa kalimat.
+        Pertahankan fakta penting: produk, ukuran, warna, nomor pesanan, keluhan dan permintaan pelanggan.
+        Gabungkan dengan ringkasan sebelumnya jika ada.`,
+      },
+      {
+        role: 'user',
+        content: `${state.summary ? `Ringkasan sebelumnya:\n${state.summary.text}\n\n` : ''}Percakapan:\n${transcript}`,
+      },
+    ],
+    { maxTokens: SUMMARY_MAX_TOKENS }
+  );
+  await recordLlmUsage(sessionId, completion.usage);
+
+  await updateState(sessionId, {
+    summary: {
+      text: completion.text.trim(),
+      coveredUntil: toSummarize[toSummarize.length - 1].index
+    }
+  });
+};
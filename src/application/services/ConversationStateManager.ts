@@ -3,50 +3,111 @@
  * Service for managing conversation state across sessions
  */
 
+import dotenv from 'dotenv';
 import { ConversationState, createConversationState, updateConversationState } from '../../domain/entities/ConversationState';
+import { ConversationStore } from '../../infrastructure/store/ConversationStore';
+import { createConversationStoreFromEnv } from '../../infrastructure/store/ConversationStoreFactory';
+dotenv.config();
 
-// In-memory store for conversation states
-// In a production environment, this would be replaced with a database or Redis
-const conversationStates: Record<string, ConversationState> = {};
+// Sessions expire after being idle for this long
+const SESSION_TTL_SECONDS = Number(process.env.CONVERSATION_TTL_SECONDS ?? '86400');
+
+let store: ConversationStore | null = null;
+let sweeper: NodeJS.Timeout | null = null;
+
+const getStore = (): ConversationStore => {
+  if (!store) {
+    store = createConversationStoreFromEnv();
+  }
+  return store;
+};
+
+/**
+ * Replace the conversation store, e.g. with an in-memory store in tests
+ */
+export const setConversationStore = (newStore: ConversationStore): void => {
+  store = newStore;
+};
 
 /**
  * Get conversation state for a session
  * Creates a new state if one doesn't exist
  */
-export const getConversationState = (sessionId: string): ConversationState => {
-  if (!conversationStates[sessionId]) {
-    conversationStates[sessionId] = createConversationState(sessionId);
+export const getConversationState = async (sessionId: string): Promise<ConversationState> => {
+  const existingState = await getStore().get(sessionId);
+  if (existingState) {
+    return existingState;
   }
-  
-  return conversationStates[sessionId];
+
+  const newState = createConversationState(sessionId);
+  await getStore().set(sessionId, newState, SESSION_TTL_SECONDS);
+
+  return newState;
 };
 
 /**
  * Update conversation state for a session
  */
-export const updateState = (
+export const updateState = async (
   sessionId: string,
   updates: Partial<ConversationState>
-): ConversationState => {
-  const currentState = getConversationState(sessionId);
+): Promise<ConversationState> => {
+  const currentState = await getConversationState(sessionId);
   const updatedState = updateConversationState(currentState, updates);
-  
-  // Save the updated state
-  conversationStates[sessionId] = updatedState;
-  
+
+  // Save the updated state, which also extends the session's expiry
+  await getStore().set(sessionId, updatedState, SESSION_TTL_SECONDS);
+
   return updatedState;
 };
 
 /**
  * Clear conversation state for a session
  */
-export const clearConversationState = (sessionId: string): void => {
-  delete conversationStates[sessionId];
+export const clearConversationState = async (sessionId: string): Promise<void> => {
+  await getStore().delete(sessionId);
 };
 
 /**
  * Get all active conversation sessions
  */
-export const getAllSessionIds = (): string[] => {
-  return Object.keys(conversationStates);
-};
\ No newline at end of file
+export const getAllSessionIds = async (): Promise<string[]> => {
+  return getStore().keys();
+};
+
+/**
+ * Periodically remove sessions that have been idle longer than the TTL
+ */
+export const startSessionSweeper = (
+  intervalMs: number = Number(process.env.CONVERSATION_SWEEP_INTERVAL_MS ?? '60000')
+): void => {
+  if (sweeper) return;
+
+  sweeper = setInterval(async () => {
+    try {
+      const removed = await getStore().sweepExpired();
+      if (removed > 0) {
+        console.log(`Removed ${removed} expired conversation session(s)`);
+      }
+    } catch (error) {
+      console.error('Error sweeping expired conversations:', error);
+    }
+  }, intervalMs);
+
+  // The sweeper alone should not keep the process running
+  sweeper.unref();
+};
+
+/**
+ * Stop the sweeper and release the store's connections
+ */
+export const stopSessionSweeper = async (): Promise<void> => {
+  if (sweeper) {
+    clearInterval(sweeper);
+    sweeper = null;
+  }
+  if (store) {
+    await store.close();
+    store = null;
+  }
+};
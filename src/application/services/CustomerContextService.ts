@@ -0,0 +1,84 @@
+/**
+ * CustomerContextService.ts
+ * Resolves the Laravel session cookie or a bearer token to the logged-in customer,
+ * caching the result so that each turn does not decrypt and look up the same login again
+ */
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { extractAuthToken } from '../../infrastructure/api/AuthService';
+import { getCurrentUserExternal } from '../../infrastructure/api/ExternalApi';
+dotenv.config();
+
+// How long a resolved login is trusted before the backend is asked again
+const CUSTOMER_CACHE_TTL_MS = Number(process.env.CUSTOMER_CONTEXT_TTL_SECONDS ?? '300') * 1000;
+
+// Logins kept in the cache; the oldest are dropped first
+const MAX_CACHED_CUSTOMERS = 1000;
+
+export interface CustomerCredentials {
+  // Encrypted aninka_session cookie of the web widget
+  cookie?: string;
+  // Token from an "Authorization: Bearer" header
+  bearerToken?: string;
+}
+
+interface CachedCustomer {
+  customer: CustomerContext;
+  expiresAt: number;
+}
+
+// Keyed by a hash of the credential, so the cache holds no cookies
+const cache = new Map<string, CachedCustomer>();
+
+const cacheKey = (credentials: CustomerCredentials): string => {
+  const credential = credentials.bearerToken ? `bearer:${credentials.bearerToken}` : `cookie:${credentials.cookie}`;
+  return crypto.createHash('sha256').update(credential).digest('hex');
+};
+
+/**
+ * Find the customer logged in with the given cookie or bearer token; the bearer token wins
+ * @returns The customer, or null for guests and logins the backend does not accept
+ */
+export const resolveCustomerContext = async (
+  credentials: CustomerCredentials,
+  now: number = Date.now()
+): Promise<CustomerContext | null> => {
+  if (!credentials.bearerToken && !credentials.cookie) {
+    return null;
+  }
+
+  const key = cacheKey(credentials);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.customer;
+  }
+  cache.delete(key);
+
+  const token = credentials.bearerToken ?? extractAuthToken(credentials.cookie!);
+  if (!token) {
+    return null;
+  }
+
+  const user = await getCurrentUserExternal(token);
+  if (!user) {
+    return null;
+  }
+
+  const customer: CustomerContext = {
+    userId: String(user.id),
+    token,
+    name: user.name,
+    email: user.email,
+    membershipLevel: user.membershipLevel,
+    membershipPoints: user.membershipPoints,
+    registeredSince: user.registeredSince
+  };
+
+  cache.set(key, { customer, expiresAt: now + CUSTOMER_CACHE_TTL_MS });
+  if (cache.size > MAX_CACHED_CUSTOMERS) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return customer;
+};
@@ -0,0 +1,125 @@
+/**
+ * DialogManager.ts
+ * Service for asking follow-up questions until an intent has the slots it needs
+ */
+
+import { SlotFillingState } from '../../domain/entities/ConversationState';
+import { ExtractedEntities, extractBareOrderId } from '../../domain/services/EntityExtractor';
+import { Intent, IntentClassification } from '../../domain/services/IntentClassifier';
+import { getMissingSlots, getSlots, isSlotFilled } from '../../domain/services/SlotSchema';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+
+// Unanswered follow-up questions are forgotten after this long
+const SLOT_FILLING_TTL_MS = 30 * 60 * 1000;
+
+// A different intent classified at least this confidently means the user moved on
+const TOPIC_CHANGE_CONFIDENCE = 0.7;
+
+// Short free-text answers are taken as the product name
+const MAX_PRODUCT_ANSWER_WORDS = 4;
+
+export interface SlotQuestion {
+  responseText: string;
+  slotFilling: SlotFillingState;
+}
+
+export const isSlotFillingExpired = (slotFilling: SlotFillingState, now: number = Date.now()): boolean => {
+  return now - new Date(slotFilling.startedAt).getTime() > SLOT_FILLING_TTL_MS;
+};
+
+/**
+ * Ask for the first missing required slot of a classification
+ * @returns The follow-up question, or null when nothing is missing
+ */
+export const askForMissingSlots = (
+  classification: IntentClassification,
+  previous?: SlotFillingState | null,
+  language: Language = DEFAULT_LANGUAGE
+): SlotQuestion | null => {
+  const missing = getMissingSlots(classification.intent, classification.entities);
+  if (missing.length === 0) {
+    return null;
+  }
+
+  // Remember every slot already known so later answers add to it
+  const filled: Record<string, any> = {};
+  for (const slot of getSlots(classification.intent)) {
+    for (const name of slot.entities) {
+      if (classification.entities[name] !== undefined) {
+        filled[name] = classification.entities[name];
+      }
+    }
+  }
+
+  return {
+    responseText: t(language, missing[0].prompt ?? 'slot.default'),
+    slotFilling: {
+      intent: classification.intent,
+      filled,
+      missing: missing.map((slot) => slot.name),
+      startedAt: previous?.startedAt ?? new Date().toISOString()
+    }
+  };
+};
+
+/**
+ * Read values a bare answer can give for the missing slots, e.g. "ORD-002" or "gamis"
+ */
+const fillFromBareAnswer = (
+  missing: string[],
+  message: string,
+  entities: ExtractedEntities
+): ExtractedEntities => {
+  const filled = { ...entities };
+
+  if (missing.includes('order_id') && !filled.order_id) {
+    filled.order_id = extractBareOrderId(message);
+  }
+
+  if (missing.includes('product') && !filled.product_name && !filled.category) {
+    const answer = message.trim().replace(/[?.!]+$/, '');
+    if (answer && answer.split(/\s+/).length <= MAX_PRODUCT_ANSWER_WORDS) {
+      filled.product_name = answer.toLowerCase();
+    }
+  }
+
+  return filled;
+};
+
+/**
+ * Combine the answer to a follow-up question with the slots collected so far
+ * @returns The classification to handle, or null if the user changed the subject
+ */
+export const resolveSlotAnswer = (
+  slotFilling: SlotFillingState,
+  message: string,
+  classification: IntentClassification
+): IntentClassification | null => {
+  const intent = slotFilling.intent as Intent;
+  const missingSlots = getSlots(intent).filter((slot) => slotFilling.missing.includes(slot.name));
+  const answersMissingSlot = missingSlots.some((slot) => isSlotFilled(slot, classification.entities));
+
+  if (
+    !answersMissingSlot &&
+    classification.intent !== intent &&
+    classification.confidence >= TOPIC_CHANGE_CONFIDENCE
+  ) {
+    return null;
+  }
+
+  const answer = classification.normalizedMessage ?? message;
+  const entities = fillFromBareAnswer(slotFilling.missing, answer, classification.entities);
+
+  return {
+    ...classification,
+    intent,
+    confidence: Math.max(classification.confidence, TOPIC_CHANGE_CONFIDENCE),
+    entities: { ...slotFilling.filled, ...stripUndefined(entities) }
+  };
+};
+
+const stripUndefined = (entities: ExtractedEntities): ExtractedEntities => {
+  return Object.fromEntries(
+    Object.entries(entities).filter(([, value]) => value !== undefined)
+  ) as ExtractedEntities;
+};
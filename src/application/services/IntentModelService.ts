@@ -0,0 +1,130 @@
+/**
+ * IntentModelService.ts
+ * Service for training the intent model from the labeled utterance file
+ * and measuring how well a classifier does on a held-out set
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { Intent, setIntentModel } from '../../domain/services/IntentClassifier';
+import { LabeledUtterance, trainIntentModel } from '../../domain/services/IntentModel';
+import { loadIntentDataset } from '../../infrastructure/knowledge/IntentDatasetLoader';
+dotenv.config();
+
+// "hybrid" runs the model alongside the rules, "rules" disables the model
+const INTENT_CLASSIFIER = process.env.INTENT_CLASSIFIER ?? 'hybrid';
+const TRAINING_FILE = path.resolve(process.env.INTENT_TRAINING_FILE ?? 'training-data/intents.jsonl');
+const MODEL_MIN_CONFIDENCE = Number(process.env.INTENT_MODEL_MIN_CONFIDENCE ?? '0.5');
+
+export interface IntentMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  // Number of test utterances labeled with the intent
+  support: number;
+}
+
+export interface EvaluationReport {
+  accuracy: number;
+  total: number;
+  intents: Intent[];
+  perIntent: Record<string, IntentMetrics>;
+  // confusion[actual][predicted] = count
+  confusion: Record<string, Record<string, number>>;
+}
+
+/**
+ * Train the intent model from the training file and start using it
+ * @returns The number of utterances trained on, or 0 when the model is disabled
+ */
+export const loadIntentModel = async (): Promise<number> => {
+  if (INTENT_CLASSIFIER === 'rules') {
+    setIntentModel(null);
+    return 0;
+  }
+
+  const examples = await loadIntentDataset(TRAINING_FILE);
+  const model = trainIntentModel(examples);
+  setIntentModel(model, MODEL_MIN_CONFIDENCE);
+
+  console.log(
+    `Intent model trained on ${examples.length} utterance(s) from ${TRAINING_FILE} ` +
+    `(temperature ${model.temperature})`
+  );
+  return examples.length;
+};
+
+/**
+ * Compare a classifier's predictions with the labels of a test set
+ */
+export const evaluateClassifier = (
+  examples: LabeledUtterance[],
+  classify: (text: string) => Intent
+): EvaluationReport => {
+  const confusion: Record<string, Record<string, number>> = {};
+  const intentSet = new Set<Intent>();
+  let correct = 0;
+
+  for (const example of examples) {
+    const predicted = classify(example.text);
+    intentSet.add(example.intent);
+    intentSet.add(predicted);
+
+    confusion[example.intent] = confusion[example.intent] ?? {};
+    confusion[example.intent][predicted] = (confusion[example.intent][predicted] ?? 0) + 1;
+    if (predicted === example.intent) correct++;
+  }
+
+  const intents = [...intentSet].sort();
+  const count = (actual: Intent, predicted: Intent) => confusion[actual]?.[predicted] ?? 0;
+
+  const perIntent: Record<string, IntentMetrics> = {};
+  for (const intent of intents) {
+    const truePositives = count(intent, intent);
+    const predictedTotal = intents.reduce((sum, actual) => sum + count(actual, intent), 0);
+    const support = intents.reduce((sum, predicted) => sum + count(intent, predicted), 0);
+
+    const precision = predictedTotal ? truePositives / predictedTotal : 0;
+    const recall = support ? truePositives / support : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+
+    perIntent[intent] = { precision, recall, f1, support };
+  }
+
+  return {
+    accuracy: examples.length ? correct / examples.length : 0,
+    total: examples.length,
+    intents,
+    perIntent,
+    confusion,
+  };
+};
+
+/**
+ * Render an evaluation report as plain-text tables
+ */
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const width = Math.max(...report.intents.map((intent) => intent.length), 'intent'.length);
+  const lines: string[] = [];
+
+  lines.push(`Accuracy: ${percent(report.accuracy)} (${report.total} utterances)`, '');
+  lines.push(`${'intent'.padEnd(width)}  precision  recall     f1         support`);
+  for (const intent of report.intents) {
+    const metrics = report.perIntent[intent];
+    lines.push(
+      `${intent.padEnd(width)}  ${percent(metrics.precision).padEnd(9)}  ${percent(metrics.recall).padEnd(9)}  ` +
+      `${percent(metrics.f1).padEnd(9)}  ${metrics.support}`
+    );
+  }
+
+  // Columns are numbered to keep the matrix narrow
+  lines.push('', 'Confusion matrix (rows: actual, columns: predicted)');
+  lines.push(`${''.padEnd(width + 4)}${report.intents.map((_, index) => String(index + 1).padStart(4)).join('')}`);
+  report.intents.forEach((actual, index) => {
+    const cells = report.intents.map((predicted) => String(report.confusion[actual]?.[predicted] ?? 0).padStart(4));
+    lines.push(`${`${index + 1}. ${actual}`.padEnd(width + 4)}${cells.join('')}`);
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,101 @@
+/**
+ * KnowledgeBaseService.ts
+ * Service for retrieving store knowledge (shipping, payment, returns, ...) for the LLM
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { createBm25Index, Bm25Index } from '../../infrastructure/knowledge/Bm25Index';
+import { loadKnowledgeBase, KnowledgePassage } from '../../infrastructure/knowledge/KnowledgeBaseLoader';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+dotenv.config();
+
+const KNOWLEDGE_BASE_DIR = path.resolve(process.env.KNOWLEDGE_BASE_DIR ?? 'knowledge-base');
+const TOP_K = Number(process.env.KNOWLEDGE_BASE_TOP_K ?? '3');
+// Passages scoring below this are not relevant enough to cite
+const MIN_SCORE = Number(process.env.KNOWLEDGE_BASE_MIN_SCORE ?? '0.5');
+
+let passages: KnowledgePassage[] = [];
+let index: Bm25Index | null = null;
+let loading: Promise<number> | null = null;
+
+export interface RetrievedPassage extends KnowledgePassage {
+  score: number;
+}
+
+/**
+ * Load (or reload) the knowledge base from disk and rebuild the index
+ * @returns The number of passages indexed
+ */
+export const reloadKnowledgeBase = async (): Promise<number> => {
+  const loaded = await loadKnowledgeBase(KNOWLEDGE_BASE_DIR);
+
+  // Title, section and tags are indexed with the content so they count as matches
+  const newIndex = createBm25Index(loaded.map((passage) => ({
+    id: passage.id,
+    text: [passage.articleTitle, passage.section, passage.tags.join(' '), passage.content]
+      .filter(Boolean)
+      .join('\n')
+  })));
+
+  // Swap both at once so searches never see a half-built index
+  passages = loaded;
+  index = newIndex;
+
+  console.log(`Knowledge base loaded: ${loaded.length} passage(s) from ${KNOWLEDGE_BASE_DIR}`);
+  return loaded.length;
+};
+
+const ensureLoaded = async (): Promise<number> => {
+  if (index) {
+    return passages.length;
+  }
+  if (!loading) {
+    loading = reloadKnowledgeBase();
+  }
+  return loading;
+};
+
+/**
+ * Find the passages most relevant to a question
+ */
+export const searchKnowledgeBase = async (query: string, limit: number = TOP_K): Promise<RetrievedPassage[]> => {
+  await ensureLoaded();
+  if (!index) return [];
+
+  const byId = new Map(passages.map((passage) => [passage.id, passage]));
+
+  return index.search(query, limit)
+    .filter((match) => match.score >= MIN_SCORE)
+    .map((match) => ({ ...byId.get(match.id)!, score: match.score }));
+};
+
+/**
+ * Human-readable title of a passage for citations
+ */
+export const getPassageTitle = (passage: KnowledgePassage): string => {
+  return passage.section ? `${passage.articleTitle} – ${passage.section}` : passage.articleTitle;
+};
+
+/**
+ * Format the list of sources cited under an answer
+ * @param answer - When it cites passages as [n], only those are listed
+ */
+export const formatSources = (
+  retrieved: KnowledgePassage[],
+  answer?: string,
+  language: Language = DEFAULT_LANGUAGE
+): string => {
+  if (retrieved.length === 0) return '';
+
+  const cited = retrieved
+    .map((passage, i) => ({ passage, number: i + 1 }))
+    .filter(({ number }) => answer?.includes(`[${number}]`));
+  const listed = cited.length > 0 ? cited : retrieved.map((passage, i) => ({ passage, number: i + 1 }));
+
+  const lines = listed.map(({ passage, number }) =>
+    `[${number}] ${getPassageTitle(passage)}${passage.url ? ` (${passage.url})` : ''}`
+  );
+
+  return `\n\n${t(language, 'sources.title')}\n${lines.join('\n')}`;
+};
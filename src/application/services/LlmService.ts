@@ -0,0 +1,113 @@
+/**
+ * LlmService.ts
+ * Service for generating free-form answers with the configured LLM provider
+ */
+
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { getLlmProvider } from '../../infrastructure/llm/LlmProviderFactory';
+import { LlmMessage } from '../../infrastructure/llm/LlmProvider';
+import { KnowledgePassage } from '../../infrastructure/knowledge/KnowledgeBaseLoader';
+import { selectHistoryWindow } from './ConversationHistory';
+import { getPassageTitle } from './KnowledgeBaseService';
+import { recordLlmUsage } from './RateLimitService';
+import { t, getLanguageName, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+
+// Extra material placed in the system prompt for a single request
+export interface LlmPromptContext {
+  // Knowledge base passages the answer must be based on, cited as [1], [2], ...
+  knowledge?: KnowledgePassage[];
+  // Tools are offered for looking up products, orders and membership
+  useTools?: boolean;
+}
+
+/**
+ * Build the system prompt and message list sent to the LLM
+ */
+export const buildChatMessages = (
+  message: string,
+  state: ConversationState,
+  promptContext?: LlmPromptContext
+): LlmMessage[] => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+
+  // Older turns that no longer fit in the window are only sent as a summary
+  let contextPrompt = '';
+  if (state.summary) {
+    contextPrompt = `\nRingkasan percakapan sebelumnya:\n${state.summary.text}`;
+  }
+
+  if (promptContext?.knowledge?.length) {
+    const passages = promptContext.knowledge
+      .map((passage, i) => `[${i + 1}] ${getPassageTitle(passage)}\n${passage.content}`)
+      .join('\n\n');
+    contextPrompt += `\nInformasi resmi Aninka Fashion:\n${passages}
+      Answer store policy questions (shipping, payment, returns, membership, features) only from the information above
+      and cite the numbers of the passages you used, e.g. [1]. Never invent policies that are not listed.`;
+  }
+
+  if (promptContext?.useTools) {
+    contextPrompt += `\nUse the available tools to look up products, orders and membership data instead of guessing.
+      Only mention products, prices and order details returned by the tools.`;
+  }
+
+  return [
+    {
+      role: 'system',
+      content:
+      `You are an AI assistant for Aninka Fashion (aninkafashion.com).
+      You help customers with:
+      - Finding clothing and accessories
+      - Answering questions about sizes and materials
+      - Providing fashion advice
+      - Handling order inquiries
+      - Processing returns and exchanges
+      - Order Status
+      - Tracking Orders
+      - Payment Methods
+      - Shipping Information
+      Please be polite and professional. Always answer in ${getLanguageName(language)}, the language the customer writes in.
+      If you don't know the answer, just say "${t(language, 'llm.unknown')}"
+      ${contextPrompt}`,
+    },
+    ...selectHistoryWindow(state),
+    { role: 'user', content: message },
+  ];
+};
+
+/**
+ * Get a complete response from the LLM
+ */
+export const getLlmResponse = async (
+  message: string,
+  state: ConversationState,
+  promptContext?: LlmPromptContext
+): Promise<string> => {
+  try {
+    const completion = await getLlmProvider().complete(buildChatMessages(message, state, promptContext));
+    await recordLlmUsage(state.sessionId, completion.usage);
+    return completion.text;
+  } catch (error) {
+    console.error('LLM error:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stream a response from the LLM token by token
+ */
+export const streamLlmResponse = async (
+  message: string,
+  state: ConversationState,
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+  promptContext?: LlmPromptContext
+): Promise<string> => {
+  try {
+    const completion = await getLlmProvider().stream(buildChatMessages(message, state, promptContext), onToken, { signal });
+    await recordLlmUsage(state.sessionId, completion.usage);
+    return completion.text;
+  } catch (error) {
+    console.error('LLM stream error:', error);
+    throw error;
+  }
+};
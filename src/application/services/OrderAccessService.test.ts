@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.ORDER_VERIFICATION_MAX_ATTEMPTS_PER_ORDER = '5';
+});
+
+import { createConversationState, PendingAction } from '../../domain/entities/ConversationState';
+import { createMemoryRateLimitStore } from '../../infrastructure/ratelimit/MemoryRateLimitStore';
+import { logSecurityEvent } from '../../infrastructure/security/SecurityEventLogger';
+import { checkOrderAccess, verifyOrderContact } from './OrderAccessService';
+import { setRateLimitStore } from './RateLimitService';
+
+// Orders come from the mock data
+vi.mock('../../infrastructure/api/ExternalApi', () => ({ getOrderByIdExternal: async () => null }));
+vi.mock('../../infrastructure/security/SecurityEventLogger', () => ({ logSecurityEvent: vi.fn() }));
+
+const action: PendingAction = {
+  type: 'verify_order',
+  step: 'awaiting_contact',
+  orderId: 'ORD-001',
+  startedAt: new Date().toISOString()
+};
+
+// Every guess comes from a new chat session
+const guess = (contact: string, clientId?: string) => {
+  return verifyOrderContact(action, contact, createConversationState(`session-${Math.random()}`), null, clientId);
+};
+
+describe('verifyOrderContact', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    vi.mocked(logSecurityEvent).mockClear();
+  });
+
+  it('verifies the order with the email or phone used at checkout', async () => {
+    expect(await guess('budi.santoso@example.com')).toMatchObject({ verified: true, orderAccess: { verifiedOrderIds: ['ORD-001'] } });
+    expect(await guess('0812-3456-7890')).toMatchObject({ verified: true });
+  });
+
+  it('keeps counting wrong contacts of a client across sessions', async () => {
+    expect(await guess('a@example.com', '10.0.0.1')).toMatchObject({ verified: false, reply: { pendingAction: action } });
+    expect(await guess('b@example.com', '10.0.0.1')).toMatchObject({ verified: false, reply: { pendingAction: action } });
+    expect(await guess('c@example.com', '10.0.0.1')).toMatchObject({ verified: false, reply: { pendingAction: null } });
+
+    // Locked now, even for the right contact from a new session
+    expect(await guess('budi.santoso@example.com', '10.0.0.1')).toMatchObject({ verified: false });
+    expect(logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'order_verification_locked', orderId: 'ORD-001' }));
+  });
+
+  it('does not lock the owner out after a few wrong contacts from someone else', async () => {
+    for (const contact of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      await guess(contact, '10.0.0.1');
+    }
+
+    const access = await checkOrderAccess('ORD-001', null, createConversationState('owner'), null, 'verify_order');
+    expect(access?.pendingAction).toMatchObject({ step: 'awaiting_contact' });
+    expect(await guess('budi.santoso@example.com', '10.0.0.2')).toMatchObject({ verified: true });
+  });
+
+  it('locks the order for everyone after many wrong contacts from different clients', async () => {
+    for (let client = 1; client <= 5; client++) {
+      await guess(`guess${client}@example.com`, `10.0.1.${client}`);
+    }
+    expect(logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'order_verification_order_locked',
+      orderId: 'ORD-001',
+      attempts: 5
+    }));
+
+    expect(await guess('budi.santoso@example.com', '10.0.0.2')).toMatchObject({ verified: false });
+    const denied = await checkOrderAccess('ORD-001', null, createConversationState('fresh'), null, 'verify_order');
+    expect(denied?.pendingAction).toBeNull();
+  });
+
+  it('locks a client that guesses across several orders', async () => {
+    for (const orderId of ['ORD-001', 'ORD-002', 'ORD-003']) {
+      await verifyOrderContact({ ...action, orderId }, 'x@example.com', createConversationState('s'), null, '10.0.0.9');
+    }
+
+    const verification = await verifyOrderContact(
+      { ...action, orderId: 'ORD-002' },
+      'rina.wulandari@example.com',
+      createConversationState('new'),
+      null,
+      '10.0.0.9'
+    );
+    expect(verification).toMatchObject({ verified: false });
+  });
+});
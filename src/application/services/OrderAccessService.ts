@@ -0,0 +1,257 @@
+/**
+ * OrderAccessService.ts
+ * Decides who may see or change an order: logged-in customers only their own orders,
+ * guests only orders they verified with the email or phone used at checkout
+ */
+
+import dotenv from 'dotenv';
+import { ConversationState, OrderAccessState, PendingAction } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { RichMessage, handoffMessage, textMessage } from '../../domain/entities/ChatResponse';
+import { extractContact, matchesContact, maskContact } from '../../domain/services/ContactExtractor';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { getOrderById } from '../../infrastructure/api/OrderApi';
+import { getOrderByIdExternal } from '../../infrastructure/api/ExternalApi';
+import { logSecurityEvent } from '../../infrastructure/security/SecurityEventLogger';
+import { getRateLimitStore } from './RateLimitService';
+dotenv.config();
+
+// Wrong contacts one client may give for an order, or across all orders, before the client
+// is locked out; the lock ends this many minutes after the last wrong contact
+const MAX_VERIFICATION_ATTEMPTS = Number(process.env.ORDER_VERIFICATION_MAX_ATTEMPTS ?? '3');
+const VERIFICATION_LOCK_MINUTES = Number(process.env.ORDER_VERIFICATION_LOCK_MINUTES ?? '30');
+// Wrong contacts for one order from all clients together before the order is locked for
+// everyone; kept high so that a few guesses cannot lock the owner out of their order
+const MAX_ORDER_VERIFICATION_ATTEMPTS = Number(process.env.ORDER_VERIFICATION_MAX_ATTEMPTS_PER_ORDER ?? '30');
+
+// Verified orders remembered per session; the oldest are forgotten first
+const MAX_VERIFIED_ORDERS = 20;
+
+// Who an order belongs to, as recorded by both the external API and the mock data
+export interface OrderOwnership {
+  id: string;
+  customerId: string;
+  customerEmail?: string;
+  customerPhone?: string;
+}
+
+export interface OrderAccessReply {
+  responseText: string;
+  messages: RichMessage[];
+  // New pending flow step; null ends the flow, undefined leaves it to the caller
+  pendingAction?: PendingAction | null;
+  orderAccess?: OrderAccessState;
+}
+
+export type ContactVerification =
+  | { verified: true; orderAccess: OrderAccessState }
+  | { verified: false; reply: OrderAccessReply };
+
+const NO_ACCESS: OrderAccessState = { verifiedOrderIds: [] };
+
+const textReply = (responseText: string): OrderAccessReply => ({
+  responseText,
+  messages: [textMessage(responseText)]
+});
+
+export const isOrderVerified = (orderId: string, access?: OrderAccessState): boolean => {
+  return access?.verifiedOrderIds.some((id) => id.toUpperCase() === orderId.toUpperCase()) ?? false;
+};
+
+// Failed verifications within the lock period: by the client, for the order or across
+// all orders, and for the order by everyone
+interface FailedAttempts {
+  byClient: number;
+  byOrder: number;
+}
+
+// Attempts are kept in the shared store rather than the conversation state,
+// so that a new session ID does not allow more guesses
+const orderKey = (orderId: string): string => `verification:order:${orderId.toUpperCase()}`;
+
+const clientKeys = (orderId: string, clientId: string): string[] => [
+  `${orderKey(orderId)}:client:${clientId}`,
+  `verification:client:${clientId}`
+];
+
+const countFailedAttempts = async (orderId: string, clientId: string, now: number): Promise<FailedAttempts> => {
+  const [byOrder, ...byClient] = await Promise.all(
+    [orderKey(orderId), ...clientKeys(orderId, clientId)].map((key) => getRateLimitStore().getCount(key, now))
+  );
+  return { byOrder, byClient: Math.max(...byClient) };
+};
+
+const recordFailedAttempt = async (orderId: string, clientId: string, now: number): Promise<FailedAttempts> => {
+  const lockEndsAt = now + VERIFICATION_LOCK_MINUTES * 60 * 1000;
+  const [byOrder, ...byClient] = await Promise.all(
+    [orderKey(orderId), ...clientKeys(orderId, clientId)].map((key) => getRateLimitStore().increment(key, 1, lockEndsAt, now))
+  );
+  return { byOrder, byClient: Math.max(...byClient) };
+};
+
+const isOrderLocked = (attempts: FailedAttempts): boolean => {
+  return MAX_ORDER_VERIFICATION_ATTEMPTS > 0 && attempts.byOrder >= MAX_ORDER_VERIFICATION_ATTEMPTS;
+};
+
+const isLocked = (attempts: FailedAttempts): boolean => {
+  return attempts.byClient >= MAX_VERIFICATION_ATTEMPTS || isOrderLocked(attempts);
+};
+
+const lockedReply = (language: Language): OrderAccessReply => {
+  const responseText = t(language, 'access.locked', { minutes: VERIFICATION_LOCK_MINUTES });
+  return { responseText, messages: [textMessage(responseText), handoffMessage(language)], pendingAction: null };
+};
+
+/**
+ * Load who an order belongs to, preferring the external API over the mock data
+ */
+const loadOrderOwnership = async (orderId: string, customer?: CustomerContext | null): Promise<OrderOwnership | null> => {
+  return await getOrderByIdExternal(orderId, customer) ?? await getOrderById(orderId);
+};
+
+const logDeniedAccess = (order: OrderOwnership, customerId: string, state: ConversationState): void => {
+  logSecurityEvent({ type: 'order_access_denied', sessionId: state.sessionId, orderId: order.id, customerId });
+};
+
+/**
+ * Whether the order can be shown without asking anything, e.g. to the agent:
+ * a logged-in customer's own order, or an order the guest verified in this session
+ */
+export const canAccessOrder = async (
+  order: OrderOwnership,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<boolean> => {
+  if (!customer) {
+    return isOrderVerified(order.id, state.orderAccess);
+  }
+
+  if (order.customerId !== customer.userId) {
+    logDeniedAccess(order, customer.userId, state);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Check that the sender may see or change an order before it is shown or cancelled.
+ * Guests are asked for the order's email or phone whether or not the order exists,
+ * so that order numbers cannot be probed.
+ * @param order The order as loaded, or null if it does not exist
+ * @param type The flow that continues once a guest has verified the order
+ * @returns Null when access is granted, otherwise the reply to send instead
+ */
+export const checkOrderAccess = async (
+  orderId: string,
+  order: OrderOwnership | null,
+  state: ConversationState,
+  customer: CustomerContext | null | undefined,
+  type: PendingAction['type'],
+  startedAt: string = new Date().toISOString()
+): Promise<OrderAccessReply | null> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+
+  if (customer) {
+    // An unknown order gets the usual "not found" reply
+    if (!order || order.customerId === customer.userId) {
+      return null;
+    }
+    logDeniedAccess(order, customer.userId, state);
+    return textReply(t(language, 'access.notOwned', { id: orderId.toUpperCase() }));
+  }
+
+  if (isOrderVerified(orderId, state.orderAccess)) {
+    return null;
+  }
+  // Only the order-wide lock is known here; a locked client is stopped when it answers
+  const byOrder = await getRateLimitStore().getCount(orderKey(orderId), Date.now());
+  if (isOrderLocked({ byOrder, byClient: 0 })) {
+    return lockedReply(language);
+  }
+
+  const orderIdUpper = orderId.toUpperCase();
+  return {
+    ...textReply(t(language, 'access.askContact', { id: orderIdUpper })),
+    pendingAction: { type, step: 'awaiting_contact', orderId: orderIdUpper, startedAt }
+  };
+};
+
+/**
+ * Check the email or phone a guest sent for the order awaiting verification.
+ * Failed attempts are logged; too many of them lock the client out, and far more
+ * of them for one order lock the order for everyone.
+ * @param clientId IP address or WhatsApp number of the sender; the session stands in without one
+ * @returns The outcome, or null if the message contains no email or phone
+ */
+export const verifyOrderContact = async (
+  action: PendingAction,
+  message: string,
+  state: ConversationState,
+  customer?: CustomerContext | null,
+  clientId?: string
+): Promise<ContactVerification | null> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const orderId = action.orderId ?? '';
+  const client = clientId ?? `session:${state.sessionId}`;
+  const now = Date.now();
+  const access = state.orderAccess ?? NO_ACCESS;
+
+  if (isLocked(await countFailedAttempts(orderId, client, now))) {
+    return { verified: false, reply: lockedReply(language) };
+  }
+
+  const contact = extractContact(message);
+  if (!contact) {
+    return null;
+  }
+
+  const order = await loadOrderOwnership(orderId, customer);
+  if (order && matchesContact(contact, { email: order.customerEmail, phone: order.customerPhone })) {
+    return {
+      verified: true,
+      orderAccess: {
+        ...access,
+        verifiedOrderIds: [...access.verifiedOrderIds, order.id].slice(-MAX_VERIFIED_ORDERS)
+      }
+    };
+  }
+
+  const failedAttempts = await recordFailedAttempt(orderId, client, now);
+  logSecurityEvent({
+    type: 'order_verification_failed',
+    sessionId: state.sessionId,
+    orderId,
+    contact: maskContact(contact),
+    clientId,
+    attempts: failedAttempts.byClient
+  });
+
+  // Many clients guessing one order: logged on its own, as the owner is locked out too
+  if (failedAttempts.byOrder === MAX_ORDER_VERIFICATION_ATTEMPTS) {
+    logSecurityEvent({ type: 'order_verification_order_locked', sessionId: state.sessionId, orderId, attempts: failedAttempts.byOrder });
+  }
+  if (failedAttempts.byClient >= MAX_VERIFICATION_ATTEMPTS) {
+    logSecurityEvent({ type: 'order_verification_locked', sessionId: state.sessionId, orderId, clientId, attempts: failedAttempts.byClient });
+  }
+  if (isLocked(failedAttempts)) {
+    return { verified: false, reply: lockedReply(language) };
+  }
+
+  return {
+    verified: false,
+    reply: {
+      ...textReply(t(language, 'access.contactMismatch', {
+        id: orderId,
+        count: MAX_VERIFICATION_ATTEMPTS - failedAttempts.byClient
+      })),
+      pendingAction: action
+    }
+  };
+};
+
+/**
+ * Reminder appended to other answers while a guest still has to verify an order
+ */
+export const getVerificationReminder = (action: PendingAction, language: Language = DEFAULT_LANGUAGE): string => {
+  return `\n\n${t(language, 'access.reminder', { id: action.orderId ?? '' })}`;
+};
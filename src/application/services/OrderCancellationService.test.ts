@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConversationState, PendingAction } from '../../domain/entities/ConversationState';
+import { cancelOrderExternal } from '../../infrastructure/api/ExternalApi';
+import { getOrderById } from '../../infrastructure/api/OrderApi';
+import { continueCancellation } from './OrderCancellationService';
+
+vi.mock('../../infrastructure/api/ExternalApi', () => ({
+  cancelOrderExternal: vi.fn(),
+  getOrderByIdExternal: async () => null
+}));
+
+const confirmation: PendingAction = {
+  type: 'cancel_order',
+  step: 'awaiting_confirmation',
+  orderId: 'ORD-003',
+  startedAt: new Date().toISOString()
+};
+
+const confirm = () => continueCancellation(confirmation, 'ya', {}, createConversationState('session'), null);
+
+describe('continueCancellation', () => {
+  beforeEach(() => {
+    vi.mocked(cancelOrderExternal).mockReset();
+  });
+
+  it('reports a cancellation the backend made', async () => {
+    vi.mocked(cancelOrderExternal).mockResolvedValue({ success: true });
+
+    const result = await confirm();
+    expect(result?.responseText).toContain('ORD-003');
+    expect(result?.pendingAction).toBeNull();
+    expect(result?.messages).toBeUndefined();
+  });
+
+  it('does not claim a cancellation while the backend is unreachable', async () => {
+    vi.mocked(cancelOrderExternal).mockResolvedValue(null);
+
+    const result = await confirm();
+    expect(result?.responseText).toBe('Maaf, pesanan **ORD-003** tidak dapat dibatalkan saat ini. Silakan coba lagi nanti atau hubungi customer service kami.');
+    expect(result?.messages?.map((message) => message.type)).toEqual(['text', 'handoff']);
+
+    // The order itself is left as it was
+    expect((await getOrderById('ORD-003'))?.status).not.toBe('cancelled');
+  });
+});
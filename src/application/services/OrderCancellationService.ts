@@ -0,0 +1,285 @@
+/**
+ * OrderCancellationService.ts
+ * Guided multi-turn flow for cancelling an order:
+ * collect the order ID → (verify a guest's contact) → check its status → ask for confirmation → cancel
+ */
+
+import { ConversationState, OrderAccessState, PendingAction } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { ExtractedEntities, extractBareOrderId } from '../../domain/services/EntityExtractor';
+import { getOrderById } from '../../infrastructure/api/OrderApi';
+import {
+  getOrderByIdExternal,
+  cancelOrderExternal,
+  getOrderStatusLabel
+} from '../../infrastructure/api/ExternalApi';
+import { t, formatCurrency, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { RichMessage, handoffMessage, quickReplies, textMessage } from '../../domain/entities/ChatResponse';
+import { OrderOwnership, checkOrderAccess, verifyOrderContact, getVerificationReminder } from './OrderAccessService';
+
+// Only orders that have not left the warehouse can be cancelled
+const CANCELLABLE_STATUSES = ['pending', 'processing'];
+
+// A flow left unanswered for longer than this is dropped
+const PENDING_ACTION_TTL_MS = 30 * 60 * 1000;
+
+const YES_WORDS = ['ya', 'iya', 'y', 'yes', 'yup', 'ok', 'oke', 'okay', 'betul', 'benar', 'setuju', 'yakin', 'lanjut'];
+const NO_WORDS = ['tidak', 'tdk', 'gak', 'ga', 'nggak', 'enggak', 'engga', 'no', 'jangan', 'gajadi'];
+
+export interface CancellationStepResult {
+  responseText: string;
+  // Buttons offered with the text, e.g. "Ya" / "Tidak" for the confirmation
+  messages?: RichMessage[];
+  // New pending action, or null when the flow has ended
+  pendingAction: PendingAction | null;
+  lastOrderId?: string;
+  // Orders a guest has verified, updated by the contact step
+  orderAccess?: OrderAccessState;
+}
+
+interface OrderSummary extends OrderOwnership {
+  status: string;
+  totalAmount: number;
+}
+
+/**
+ * Look up an order, preferring the external API over the mock data
+ */
+const findOrder = async (orderId: string, customer?: CustomerContext | null): Promise<OrderSummary | null> => {
+  const externalOrder = await getOrderByIdExternal(orderId, customer);
+  if (externalOrder) {
+    return externalOrder;
+  }
+
+  const order = await getOrderById(orderId);
+  return order
+    ? {
+        id: order.id,
+        customerId: order.customerId,
+        customerEmail: order.customerEmail,
+        customerPhone: order.customerPhone,
+        status: order.status,
+        totalAmount: order.totalAmount
+      }
+    : null;
+};
+
+/**
+ * Interpret a short answer as yes (true), no (false) or neither (null)
+ */
+export const parseConfirmation = (message: string): boolean | null => {
+  const normalized = message.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!normalized || normalized.split(' ').length > 4) {
+    return null;
+  }
+
+  if (NO_WORDS.some((word) => normalized === word || normalized.startsWith(`${word} `))) {
+    return false;
+  }
+  if (YES_WORDS.some((word) => normalized === word || normalized.startsWith(`${word} `))) {
+    return true;
+  }
+
+  return null;
+};
+
+export const isCancellableStatus = (status: string): boolean => {
+  return CANCELLABLE_STATUSES.includes(status.toLowerCase());
+};
+
+export const isPendingActionExpired = (action: PendingAction, now: number = Date.now()): boolean => {
+  return now - new Date(action.startedAt).getTime() > PENDING_ACTION_TTL_MS;
+};
+
+/**
+ * Check that the sender may cancel the order and its status,
+ * then ask for confirmation if it can be cancelled
+ */
+const checkOrder = async (
+  orderId: string,
+  state: ConversationState,
+  customer: CustomerContext | null | undefined,
+  startedAt: string
+): Promise<CancellationStepResult> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const order = await findOrder(orderId, customer);
+
+  const denied = await checkOrderAccess(orderId, order, state, customer, 'cancel_order', startedAt);
+  if (denied) {
+    return {
+      ...denied,
+      // Someone else's order: ask again for the customer's own order number
+      pendingAction: denied.pendingAction !== undefined
+        ? denied.pendingAction
+        : { type: 'cancel_order', step: 'awaiting_order_id', startedAt }
+    };
+  }
+
+  if (!order) {
+    return {
+      responseText: t(language, 'cancel.orderNotFound', { id: orderId }),
+      pendingAction: { type: 'cancel_order', step: 'awaiting_order_id', startedAt }
+    };
+  }
+
+  const status = getOrderStatusLabel(order.status, language);
+
+  if (!isCancellableStatus(order.status)) {
+    const responseText = t(language, 'cancel.notCancellable', { id: order.id, status });
+    return {
+      responseText,
+      messages: [textMessage(responseText), handoffMessage(language)],
+      pendingAction: null,
+      lastOrderId: order.id
+    };
+  }
+
+  const responseText = t(language, 'cancel.confirm', {
+    id: order.id,
+    status,
+    total: formatCurrency(order.totalAmount, language)
+  });
+  return {
+    responseText,
+    messages: [
+      textMessage(responseText),
+      quickReplies([t(language, 'quickReply.yes'), t(language, 'quickReply.no')])
+    ],
+    pendingAction: { type: 'cancel_order', step: 'awaiting_confirmation', orderId: order.id, startedAt },
+    lastOrderId: order.id
+  };
+};
+
+/**
+ * Cancel the confirmed order and report the outcome
+ */
+const performCancellation = async (
+  orderId: string,
+  customer: CustomerContext | null | undefined,
+  language: Language
+): Promise<CancellationStepResult> => {
+  const result = await cancelOrderExternal(orderId, customer);
+
+  if (result?.success) {
+    return {
+      responseText: t(language, 'cancel.success', { id: orderId }),
+      pendingAction: null,
+      lastOrderId: orderId
+    };
+  }
+
+  if (result) {
+    return {
+      responseText: result.message
+        ? t(language, 'cancel.rejectedWithReason', { id: orderId, reason: result.message })
+        : t(language, 'cancel.rejected', { id: orderId }),
+      pendingAction: null,
+      lastOrderId: orderId
+    };
+  }
+
+  // The backend is unreachable: the order is not cancelled, so there is no mock fallback
+  const responseText = t(language, 'cancel.unavailable', { id: orderId });
+  return {
+    responseText,
+    messages: [textMessage(responseText), handoffMessage(language)],
+    pendingAction: null,
+    lastOrderId: orderId
+  };
+};
+
+/**
+ * Start the cancellation flow for an ORDER_ACTION cancel request
+ */
+export const startCancellation = async (
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<CancellationStepResult> => {
+  const startedAt = new Date().toISOString();
+  const orderId = entities.order_id || state.context.lastOrderId;
+  const language = state.language ?? DEFAULT_LANGUAGE;
+
+  if (!orderId) {
+    return {
+      responseText: t(language, 'cancel.askOrderId'),
+      pendingAction: { type: 'cancel_order', step: 'awaiting_order_id', startedAt }
+    };
+  }
+
+  return checkOrder(orderId, state, customer, startedAt);
+};
+
+/**
+ * Continue a pending cancellation with the user's next message
+ * @returns The next step, or null if the message does not answer the pending question
+ */
+export const continueCancellation = async (
+  action: PendingAction,
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null,
+  clientId?: string
+): Promise<CancellationStepResult | null> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const confirmation = parseConfirmation(message);
+
+  if (action.step === 'awaiting_confirmation' && action.orderId) {
+    if (confirmation === true) {
+      return performCancellation(action.orderId, customer, language);
+    }
+    if (confirmation === false) {
+      return {
+        responseText: t(language, 'cancel.declined', { id: action.orderId }),
+        pendingAction: null,
+        lastOrderId: action.orderId
+      };
+    }
+    return null;
+  }
+
+  // Waiting for the order ID or a guest's contact
+  if (confirmation === false) {
+    return {
+      responseText: t(language, 'cancel.stopped'),
+      pendingAction: null
+    };
+  }
+
+  if (action.step === 'awaiting_contact' && action.orderId) {
+    const verification = await verifyOrderContact(action, message, state, customer, clientId);
+    if (!verification) {
+      return null;
+    }
+    if (!verification.verified) {
+      return { ...verification.reply, pendingAction: verification.reply.pendingAction ?? null };
+    }
+
+    const { orderAccess } = verification;
+    return { ...await checkOrder(action.orderId, { ...state, orderAccess }, customer, action.startedAt), orderAccess };
+  }
+
+  const orderId = entities.order_id || extractBareOrderId(message);
+  if (!orderId) {
+    return null;
+  }
+
+  return checkOrder(orderId, state, customer, action.startedAt);
+};
+
+/**
+ * Reminder appended to other answers while a cancellation is still pending
+ */
+export const getPendingCancellationReminder = (
+  action: PendingAction,
+  language: Language = DEFAULT_LANGUAGE
+): string => {
+  if (action.step === 'awaiting_confirmation' && action.orderId) {
+    return `\n\n${t(language, 'cancel.reminderConfirmation', { id: action.orderId })}`;
+  }
+  if (action.step === 'awaiting_contact') {
+    return getVerificationReminder(action, language);
+  }
+  return `\n\n${t(language, 'cancel.reminderOrderId')}`;
+};
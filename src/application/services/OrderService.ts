@@ -0,0 +1,247 @@
+/**
+ * OrderService.ts
+ * Orders in the chat: one order with its shipment ("cek pesanan ORD-001"), and the
+ * logged-in customer's order history, paged with "lihat lagi" and picked from with "nomor 2".
+ * Guests see an order once they have verified it with the email or phone used at checkout.
+ */
+
+import dotenv from 'dotenv';
+import {
+  ConversationState,
+  OrderAccessState,
+  OrderBrowsingState,
+  OrderListFilters,
+  OrderReference,
+  PendingAction
+} from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { ChatResponse, RichMessage, createTextResponse, quickReplies } from '../../domain/entities/ChatResponse';
+import { ExtractedEntities } from '../../domain/services/EntityExtractor';
+import { Intent } from '../../domain/services/IntentClassifier';
+import { parsePageNavigation } from '../../domain/services/PageNavigation';
+import { resolvePosition } from '../../domain/services/ReferenceResolver';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { getOrderById, getOrdersPage, formatOrderResponse } from '../../infrastructure/api/OrderApi';
+import {
+  ApiOrder,
+  ProductPage,
+  getOrderByIdExternal,
+  getOrdersExternal,
+  formatExternalOrderResponse,
+  formatOrderListResponse
+} from '../../infrastructure/api/ExternalApi';
+import { trackOrderShipment } from './ShipmentTrackingService';
+import { isCancellableStatus, parseConfirmation } from './OrderCancellationService';
+import { checkOrderAccess, verifyOrderContact } from './OrderAccessService';
+dotenv.config();
+
+// Orders shown per page of the order history
+const ORDER_PAGE_SIZE = Number(process.env.ORDER_PAGE_SIZE ?? '5');
+
+// Intents after which "nomor 2" or "lihat lagi" still refer to the order list
+const ORDER_LIST_INTENTS: string[] = [Intent.ORDER_HISTORY, Intent.ORDER_TRACKING];
+
+export interface OrderReply {
+  responseText: string;
+  messages: RichMessage[];
+  lastOrderId?: string;
+  // New order list; null ends it, undefined leaves it untouched
+  orderBrowsing?: OrderBrowsingState | null;
+  // Guest verification of the order; null ends it, undefined leaves it untouched
+  pendingAction?: PendingAction | null;
+  orderAccess?: OrderAccessState;
+}
+
+const toReply = (response: ChatResponse): OrderReply => ({
+  responseText: response.text,
+  messages: response.messages
+});
+
+/**
+ * Order list filters of a message
+ */
+export const toOrderListFilters = (entities: ExtractedEntities): OrderListFilters => ({
+  status: entities.order_status,
+  from: entities.order_date_from,
+  to: entities.order_date_to
+});
+
+/**
+ * Show one order with the courier's tracking of its parcel, once the sender may see it
+ */
+export const showOrder = async (
+  orderId: string,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<OrderReply> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+
+  // Try to get order from external API first, with the mock data as fallback
+  const externalOrder = await getOrderByIdExternal(orderId, customer);
+  const order = externalOrder ? null : await getOrderById(orderId);
+
+  const denied = await checkOrderAccess(orderId, externalOrder ?? order, state, customer, 'verify_order');
+  if (denied) {
+    return denied;
+  }
+
+  const reply = externalOrder
+    ? formatExternalOrderResponse(externalOrder, language, await trackOrderShipment(externalOrder))
+    : formatOrderResponse(order, language, order && await trackOrderShipment(order));
+  const status = (externalOrder ?? order)?.status;
+
+  const messages = status && isCancellableStatus(status)
+    ? [...reply.messages, quickReplies([t(language, 'quickReply.cancelOrder', { id: orderId.toUpperCase() })])]
+    : reply.messages;
+
+  return { responseText: reply.text, messages, lastOrderId: orderId };
+};
+
+/**
+ * Continue a guest's order verification with the email or phone they sent
+ * @returns The order, or null if the message does not answer the question
+ */
+export const continueOrderVerification = async (
+  action: PendingAction,
+  message: string,
+  state: ConversationState,
+  customer?: CustomerContext | null,
+  clientId?: string
+): Promise<OrderReply | null> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  if (!action.orderId) {
+    return null;
+  }
+
+  if (parseConfirmation(message) === false) {
+    return { ...toReply(createTextResponse(t(language, 'access.stopped'))), pendingAction: null };
+  }
+
+  const verification = await verifyOrderContact(action, message, state, customer, clientId);
+  if (!verification) {
+    return null;
+  }
+  if (!verification.verified) {
+    return verification.reply;
+  }
+
+  const { orderAccess } = verification;
+  return { ...await showOrder(action.orderId, { ...state, orderAccess }, customer), pendingAction: null, orderAccess };
+};
+
+/**
+ * Load one page of the customer's orders, preferring the external API over the mock data
+ * @returns The page, or null if the orders cannot be loaded
+ */
+const loadOrderPage = async (
+  customer: CustomerContext,
+  filters: OrderListFilters,
+  page: number
+): Promise<ProductPage<ApiOrder> | null> => {
+  const externalPage = await getOrdersExternal(customer, page, ORDER_PAGE_SIZE, filters);
+  if (externalPage) {
+    return externalPage;
+  }
+
+  // Fallback to the mock orders of the customer if the order list fails
+  return getOrdersPage(customer.userId, filters, page, ORDER_PAGE_SIZE);
+};
+
+/**
+ * Show one page of the logged-in customer's orders; guests are told how to log in
+ */
+export const listOrders = async (
+  filters: OrderListFilters,
+  page: number,
+  customer: CustomerContext | null | undefined,
+  language: Language
+): Promise<OrderReply> => {
+  if (!customer) {
+    return toReply(createTextResponse(t(language, 'orders.loginRequired')));
+  }
+
+  const orderPage = await loadOrderPage(customer, filters, page);
+  if (!orderPage) {
+    return toReply(createTextResponse(t(language, 'orders.unavailable')));
+  }
+
+  const start = (page - 1) * orderPage.limit + 1;
+  return {
+    ...toReply(formatOrderListResponse(orderPage, filters, language)),
+    orderBrowsing: orderPage.total > 0
+      ? {
+          ...filters,
+          page,
+          pageSize: orderPage.limit,
+          total: orderPage.total,
+          totalPages: orderPage.totalPages,
+          orders: orderPage.items.map((order, index) => ({
+            id: order.id,
+            status: order.status,
+            position: start + index
+          }))
+        }
+      : null
+  };
+};
+
+/**
+ * The order listed under a number; "nomor 7" is the number shown,
+ * while "yang kedua" may also mean the second order on the page
+ */
+const findByPosition = (orders: OrderReference[], position: number): OrderReference | null => {
+  const shown = orders.find((order) => order.position === position);
+  if (shown) {
+    return shown;
+  }
+  return position >= 1 && position <= orders.length ? orders[position - 1] : null;
+};
+
+/**
+ * Page through the order list just shown, or open one of its orders
+ * @returns The reply, or null if the message is not about the order list
+ */
+export const answerOrderListFollowUp = async (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<OrderReply | null> => {
+  const browsing = state.orderBrowsing;
+  if (!browsing || !ORDER_LIST_INTENTS.includes(state.currentIntent ?? '') || entities.waybill) {
+    return null;
+  }
+
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const navigation = entities.order_history ? null : parsePageNavigation(message);
+  if (navigation) {
+    const page = navigation.type === 'next'
+      ? browsing.page + 1
+      : navigation.type === 'previous'
+        ? browsing.page - 1
+        : navigation.page;
+
+    if (page < 1) {
+      return toReply(createTextResponse(t(language, 'orders.firstPage')));
+    }
+    if (page > browsing.totalPages) {
+      return toReply(createTextResponse(navigation.type === 'next'
+        ? t(language, 'orders.lastPage')
+        : t(language, 'orders.pageOutOfRange', { count: browsing.totalPages })));
+    }
+    return listOrders(browsing, page, customer, language);
+  }
+
+  const last = browsing.orders[browsing.orders.length - 1]?.position ?? 0;
+  const position = resolvePosition(message, last);
+  // "nomor 2" reads as order ID "2" as well; an order named by its ID is tracked as usual
+  if (position === undefined || (entities.order_id && entities.order_id !== String(position))) {
+    return null;
+  }
+
+  const order = findByPosition(browsing.orders, position);
+  if (!order) {
+    return toReply(createTextResponse(t(language, 'orders.outOfRange', { position })));
+  }
+  return showOrder(order.id, state, customer);
+};
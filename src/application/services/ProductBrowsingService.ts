@@ -0,0 +1,189 @@
+/**
+ * ProductBrowsingService.ts
+ * Product search results shown one page at a time; "lihat lagi", "sebelumnya"
+ * and "halaman 3" move through the pages of the last search
+ */
+
+import dotenv from 'dotenv';
+import {
+  ConversationState,
+  ProductBrowsingState,
+  ProductReference,
+  ProductSearchCriteria
+} from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { RichMessage, createTextResponse } from '../../domain/entities/ChatResponse';
+import { ExtractedEntities } from '../../domain/services/EntityExtractor';
+import { parsePageNavigation } from '../../domain/services/PageNavigation';
+import { t, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { searchProductsPage } from '../../infrastructure/api/ProductApi';
+import {
+  ApiProduct,
+  ProductPage,
+  ProductSearchFilters,
+  searchProductsPageExternal,
+  formatExternalProductResponse,
+  toProductReference
+} from '../../infrastructure/api/ExternalApi';
+dotenv.config();
+
+// Products shown per page
+const PRODUCT_PAGE_SIZE = Number(process.env.PRODUCT_PAGE_SIZE ?? '5');
+
+export interface ProductPageResult {
+  responseText: string;
+  messages: RichMessage[];
+  lastProductSearch?: string;
+  // Products on the page, replacing the remembered results
+  lastProductResults?: ProductReference[];
+  // New browsing state; null ends browsing, undefined leaves it untouched
+  productBrowsing?: ProductBrowsingState | null;
+}
+
+/**
+ * Search criteria of a product search message
+ */
+export const toSearchCriteria = (entities: ExtractedEntities): ProductSearchCriteria => ({
+  // Extract product name or category from entities
+  query: entities.product_name || entities.category || '',
+  category: entities.category,
+  color: entities.color,
+  size: entities.size,
+  // Budget filter, e.g. "di bawah 300rb", and ruled-out values, e.g. "bukan yang merah"
+  min_price: entities.min_price,
+  max_price: entities.max_price,
+  exclude_colors: entities.exclude_colors,
+  exclude_categories: entities.exclude_categories
+});
+
+const toFilters = (criteria: ProductSearchCriteria): ProductSearchFilters => ({
+  min_price: criteria.min_price,
+  max_price: criteria.max_price,
+  exclude_colors: criteria.exclude_colors,
+  exclude_categories: criteria.exclude_categories
+});
+
+/**
+ * Whether a message asks for the same products as the search being browsed
+ */
+const isSameSearch = (browsing: ProductBrowsingState, criteria: ProductSearchCriteria): boolean => {
+  const keys: (keyof ProductSearchCriteria)[] = [
+    'query', 'category', 'color', 'size', 'min_price', 'max_price', 'exclude_colors', 'exclude_categories'
+  ];
+  return keys.every((key) => JSON.stringify(browsing[key] ?? null) === JSON.stringify(criteria[key] ?? null));
+};
+
+/**
+ * Whether a message names anything to search for
+ */
+const hasSearchCriteria = (criteria: ProductSearchCriteria): boolean => {
+  return Object.values(criteria).some((value) => value !== undefined && value !== '');
+};
+
+/**
+ * Load one page of results, preferring the external API over the mock data
+ */
+const loadProductPage = async (
+  criteria: ProductSearchCriteria,
+  page: number,
+  customer?: CustomerContext | null
+): Promise<ProductPage<ApiProduct>> => {
+  const filters = toFilters(criteria);
+  const externalPage = await searchProductsPageExternal(
+    criteria.query,
+    criteria.category,
+    criteria.color,
+    criteria.size,
+    page,
+    PRODUCT_PAGE_SIZE,
+    customer,
+    filters
+  );
+
+  if (externalPage && externalPage.total > 0) {
+    return externalPage;
+  }
+
+  // Fallback to mock data if external API fails or finds nothing
+  return searchProductsPage(criteria.query, filters, page, PRODUCT_PAGE_SIZE);
+};
+
+/**
+ * Show one page of the results of a product search
+ */
+export const searchProductPage = async (
+  criteria: ProductSearchCriteria,
+  page: number,
+  customer?: CustomerContext | null,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<ProductPageResult> => {
+  const productPage = await loadProductPage(criteria, page, customer);
+  const { items, ...pageInfo } = productPage;
+  const reply = formatExternalProductResponse(items, toFilters(criteria), language, pageInfo);
+  const start = (page - 1) * productPage.limit + 1;
+
+  return {
+    responseText: reply.text,
+    messages: reply.messages,
+    lastProductSearch: criteria.query,
+    // An empty search keeps the earlier results available for references
+    lastProductResults: items.length > 0
+      ? items.map((product, index) => toProductReference(product, start + index))
+      : undefined,
+    productBrowsing: productPage.total > 0
+      ? {
+          ...criteria,
+          page,
+          pageSize: productPage.limit,
+          total: productPage.total,
+          totalPages: productPage.totalPages
+        }
+      : null
+  };
+};
+
+/**
+ * Move through the pages of the search being browsed
+ * @returns The requested page, or null if the message is not a page navigation
+ */
+export const browseProductPages = async (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<ProductPageResult | null> => {
+  const browsing = state.productBrowsing;
+  const request = browsing ? parsePageNavigation(message) : null;
+  if (!browsing || !request) {
+    return null;
+  }
+
+  // "ada dress lagi?" pages on, while "ada gamis lagi?" is a new search from page 1
+  const criteria = toSearchCriteria(entities);
+  if (hasSearchCriteria(criteria) && !isSameSearch(browsing, criteria)) {
+    return null;
+  }
+
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const page = request.type === 'next'
+    ? browsing.page + 1
+    : request.type === 'previous'
+      ? browsing.page - 1
+      : request.page;
+
+  if (page < 1) {
+    return createPageNotice(t(language, 'product.firstPage'));
+  }
+  if (page > browsing.totalPages) {
+    return request.type === 'next'
+      ? createPageNotice(t(language, 'product.lastPage'))
+      : createPageNotice(t(language, 'product.pageOutOfRange', { count: browsing.totalPages }));
+  }
+
+  return searchProductPage(browsing, page, customer, language);
+};
+
+const createPageNotice = (text: string): ProductPageResult => {
+  const reply = createTextResponse(text);
+  return { responseText: reply.text, messages: reply.messages };
+};
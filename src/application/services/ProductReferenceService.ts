@@ -0,0 +1,112 @@
+/**
+ * ProductReferenceService.ts
+ * Answers follow-up questions about one of the last search results,
+ * e.g. "lihat detail yang nomor 2" or "yang kedua ada ukuran L?"
+ */
+
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { RichMessage, textMessage } from '../../domain/entities/ChatResponse';
+import { ExtractedEntities } from '../../domain/services/EntityExtractor';
+import { resolveProductReference } from '../../domain/services/ReferenceResolver';
+import { parseSizes, hasSize } from '../../domain/services/ProductVariants';
+import { t, formatCurrency, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { getProductById } from '../../infrastructure/api/ProductApi';
+import {
+  ApiProduct,
+  getProductByIdExternal,
+  formatProductDetailResponse,
+  toProductCard
+} from '../../infrastructure/api/ExternalApi';
+
+export interface ProductReferenceAnswer {
+  responseText: string;
+  messages: RichMessage[];
+}
+
+/**
+ * Load the current product data, preferring the external API over the mock data
+ */
+export const findProduct = async (productId: string, customer?: CustomerContext | null): Promise<ApiProduct | null> => {
+  const externalProduct = await getProductByIdExternal(productId, customer);
+  if (externalProduct) {
+    return externalProduct;
+  }
+
+  return getProductById(productId);
+};
+
+/**
+ * Answer whether a product comes in the asked size, or list its sizes
+ */
+const answerSize = (product: ApiProduct, askedSize: string | undefined, language: Language): string => {
+  const name = product.name;
+  const sizes = parseSizes(product.size);
+
+  if (sizes.length === 0) {
+    return t(language, 'reference.sizeUnknown', { name });
+  }
+  if (!askedSize) {
+    return t(language, 'reference.sizes', { name, sizes: sizes.join(', ') });
+  }
+
+  const size = askedSize.toUpperCase();
+  if (hasSize(sizes, size)) {
+    return t(language, 'reference.sizeAvailable', { name, size });
+  }
+  return t(language, 'reference.sizeUnavailable', { name, size, sizes: sizes.join(', ') });
+};
+
+/**
+ * Answer a message that refers to one of the last search results
+ * @returns The answer, or null if the message does not refer to one of them
+ */
+export const answerProductReference = async (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<ProductReferenceAnswer | null> => {
+  const reference = resolveProductReference(message, entities, state.context.lastProductResults ?? []);
+  if (!reference) {
+    return null;
+  }
+
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  if (!reference.product) {
+    const responseText = t(language, 'reference.outOfRange', { position: reference.position });
+    return { responseText, messages: [textMessage(responseText)] };
+  }
+
+  const product = await findProduct(reference.product.id, customer);
+  if (!product) {
+    const responseText = t(language, 'reference.unavailable', { name: reference.product.name });
+    return { responseText, messages: [textMessage(responseText)] };
+  }
+
+  if (reference.question === 'detail') {
+    const reply = formatProductDetailResponse(product, language);
+    return { responseText: reply.text, messages: reply.messages };
+  }
+
+  // Stock and size questions: a short answer above the product card
+  let responseText: string;
+  if (!product.inStock) {
+    responseText = t(language, 'reference.outOfStock', { name: product.name });
+  } else if (reference.question === 'size') {
+    responseText = answerSize(product, entities.size, language);
+  } else {
+    responseText = t(language, 'reference.inStock', {
+      name: product.name,
+      price: formatCurrency(product.price, language)
+    });
+  }
+
+  return {
+    responseText,
+    messages: [
+      textMessage(responseText),
+      { type: 'product_carousel', products: [toProductCard(product, language)] }
+    ]
+  };
+};
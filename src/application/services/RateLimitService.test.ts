@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryRateLimitStore } from '../../infrastructure/ratelimit/MemoryRateLimitStore';
+import { checkRequestLimits, hasLlmBudget, recordLlmUsage, setRateLimitStore } from './RateLimitService';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+describe('checkRequestLimits', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  it('limits one session within the sliding window and says when to retry', async () => {
+    for (let i = 0; i < 20; i++) {
+      expect(await checkRequestLimits('10.0.0.1', 'session', NOW + i * 1000)).toEqual({ allowed: true });
+    }
+
+    expect(await checkRequestLimits('10.0.0.1', 'session', NOW + 30 * 1000))
+      .toEqual({ allowed: false, scope: 'session', retryAfterSeconds: 30 });
+    // The first request has left the window
+    expect(await checkRequestLimits('10.0.0.1', 'session', NOW + 60 * 1000)).toEqual({ allowed: true });
+  });
+
+  it('keeps limiting an IP address that rotates its session IDs', async () => {
+    for (let i = 0; i < 60; i++) {
+      expect(await checkRequestLimits('10.0.0.1', `session-${i}`, NOW)).toEqual({ allowed: true });
+    }
+
+    expect(await checkRequestLimits('10.0.0.1', 'session-new', NOW + 1000))
+      .toEqual({ allowed: false, scope: 'ip', retryAfterSeconds: 59 });
+    expect(await checkRequestLimits('10.0.0.2', 'session-new', NOW + 1000)).toEqual({ allowed: true });
+  });
+});
+
+describe('LLM token budgets', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  it('stops a session at its daily budget until the next UTC day', async () => {
+    await recordLlmUsage('session', { promptTokens: 15000, completionTokens: 4999, totalTokens: 19999 }, NOW);
+    expect(await hasLlmBudget('session', NOW)).toBe(true);
+
+    await recordLlmUsage('session', { promptTokens: 1, completionTokens: 0, totalTokens: 1 }, NOW);
+    expect(await hasLlmBudget('session', NOW)).toBe(false);
+    expect(await hasLlmBudget('other-session', NOW)).toBe(true);
+    expect(await hasLlmBudget('session', Date.UTC(2026, 9, 20))).toBe(true);
+  });
+
+  it('stops every session once the deployment budget is used up', async () => {
+    for (let i = 0; i < 50; i++) {
+      await recordLlmUsage(`session-${i}`, { promptTokens: 10000, completionTokens: 10000, totalTokens: 20000 }, NOW);
+    }
+    expect(await hasLlmBudget('new-session', NOW)).toBe(false);
+  });
+});
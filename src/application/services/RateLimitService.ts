@@ -0,0 +1,135 @@
+/**
+ * RateLimitService.ts
+ * Limits how often chat requests can be sent per IP address and per session, and how
+ * many LLM tokens a session and the whole deployment may use per day. Budgets follow
+ * the `usage` reported with each completion and start again at midnight UTC.
+ */
+
+import dotenv from 'dotenv';
+import { LlmUsage } from '../../infrastructure/llm/LlmProvider';
+import { RateLimitStore } from '../../infrastructure/ratelimit/RateLimitStore';
+import { createRateLimitStoreFromEnv } from '../../infrastructure/ratelimit/RateLimitStoreFactory';
+dotenv.config();
+
+// Requests allowed within the sliding window; 0 turns a limit off.
+// Clients choose their session IDs and can rotate them, so the IP limit is the one
+// that holds; the session limit only slows down a single conversation.
+const IP_LIMIT = Number(process.env.RATE_LIMIT_IP_MAX ?? '60');
+const IP_WINDOW_MS = Number(process.env.RATE_LIMIT_IP_WINDOW_SECONDS ?? '60') * 1000;
+const SESSION_LIMIT = Number(process.env.RATE_LIMIT_SESSION_MAX ?? '20');
+const SESSION_WINDOW_MS = Number(process.env.RATE_LIMIT_SESSION_WINDOW_SECONDS ?? '60') * 1000;
+
+// Longest chat message accepted, in characters
+export const MAX_MESSAGE_LENGTH = Number(process.env.MAX_MESSAGE_LENGTH ?? '1000');
+
+// LLM tokens per day; 0 turns a budget off
+const SESSION_DAILY_TOKENS = Number(process.env.LLM_DAILY_TOKENS_PER_SESSION ?? '20000');
+const DEPLOYMENT_DAILY_TOKENS = Number(process.env.LLM_DAILY_TOKENS_TOTAL ?? '1000000');
+
+export type RateLimitScope = 'ip' | 'session';
+
+export type RequestLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterSeconds: number };
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The shared store, also used to count failed order verifications
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = createRateLimitStoreFromEnv();
+  }
+  return store;
+};
+
+/**
+ * Replace the rate limit store, e.g. with a shared store when running several instances
+ */
+export const setRateLimitStore = (newStore: RateLimitStore): void => {
+  store = newStore;
+};
+
+const checkWindow = async (
+  scope: RateLimitScope,
+  id: string,
+  limit: number,
+  windowMs: number,
+  now: number
+): Promise<RequestLimitResult> => {
+  if (limit <= 0) {
+    return { allowed: true };
+  }
+
+  const result = await getRateLimitStore().hit(`requests:${scope}:${id}`, limit, windowMs, now);
+  if (result.allowed) {
+    return { allowed: true };
+  }
+  return { allowed: false, scope, retryAfterSeconds: Math.max(1, Math.ceil((result.resetAt - now) / 1000)) };
+};
+
+/**
+ * Count a chat request against the IP and session limits
+ * @param sessionId The client's session ID; it is not trusted, new IDs are only limited by IP
+ * @returns Whether the request may be handled, and if not, when to try again
+ */
+export const checkRequestLimits = async (
+  ip: string,
+  sessionId: string | undefined,
+  now: number = Date.now()
+): Promise<RequestLimitResult> => {
+  const ipResult = await checkWindow('ip', ip, IP_LIMIT, IP_WINDOW_MS, now);
+  if (!ipResult.allowed || !sessionId) {
+    return ipResult;
+  }
+  return checkWindow('session', sessionId, SESSION_LIMIT, SESSION_WINDOW_MS, now);
+};
+
+// Counters are kept per UTC day and dropped when it ends
+const getBudgetDay = (now: number): { day: string; endsAt: number } => {
+  const date = new Date(now);
+  return {
+    day: date.toISOString().slice(0, 10),
+    endsAt: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+  };
+};
+
+/**
+ * Whether the session and the deployment still have LLM tokens left today
+ */
+export const hasLlmBudget = async (sessionId: string, now: number = Date.now()): Promise<boolean> => {
+  const { day } = getBudgetDay(now);
+
+  if (DEPLOYMENT_DAILY_TOKENS > 0 && await getRateLimitStore().getCount(`tokens:total:${day}`, now) >= DEPLOYMENT_DAILY_TOKENS) {
+    return false;
+  }
+  if (SESSION_DAILY_TOKENS > 0 && await getRateLimitStore().getCount(`tokens:session:${sessionId}:${day}`, now) >= SESSION_DAILY_TOKENS) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Count the tokens of a completion against today's budgets.
+ * Completions whose provider reports no usage are not counted.
+ */
+export const recordLlmUsage = async (
+  sessionId: string,
+  usage: LlmUsage | undefined,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!usage?.totalTokens) {
+    return;
+  }
+
+  const { day, endsAt } = getBudgetDay(now);
+  const [total] = await Promise.all([
+    getRateLimitStore().increment(`tokens:total:${day}`, usage.totalTokens, endsAt, now),
+    getRateLimitStore().increment(`tokens:session:${sessionId}:${day}`, usage.totalTokens, endsAt, now)
+  ]);
+
+  if (DEPLOYMENT_DAILY_TOKENS > 0 && total >= DEPLOYMENT_DAILY_TOKENS && total - usage.totalTokens < DEPLOYMENT_DAILY_TOKENS) {
+    console.warn(`Daily LLM token budget of ${DEPLOYMENT_DAILY_TOKENS} used up, answering from templates until midnight UTC`);
+  }
+};
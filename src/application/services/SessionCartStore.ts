@@ -0,0 +1,44 @@
+/**
+ * SessionCartStore.ts
+ * Cart store for guests, keeping the cart on the conversation state of the chat session;
+ * the owner ID is the chat session ID
+ */
+
+import {
+  Cart,
+  NewCartItem,
+  createCart,
+  addItemToCart,
+  setCartItemQuantity,
+  removeCartItem
+} from '../../domain/entities/Cart';
+import { CartStore } from '../../infrastructure/cart/CartStore';
+import { getConversationState, updateState } from './ConversationStateManager';
+
+const loadCart = async (sessionId: string): Promise<Cart> => {
+  const state = await getConversationState(sessionId);
+  return state.cart ?? createCart();
+};
+
+const saveCart = async (sessionId: string, cart: Cart): Promise<Cart> => {
+  await updateState(sessionId, { cart });
+  return cart;
+};
+
+export const createSessionCartStore = (): CartStore => ({
+  get(sessionId: string): Promise<Cart> {
+    return loadCart(sessionId);
+  },
+
+  async addItem(sessionId: string, item: NewCartItem): Promise<Cart> {
+    return saveCart(sessionId, addItemToCart(await loadCart(sessionId), item));
+  },
+
+  async updateQuantity(sessionId: string, itemId: string, quantity: number): Promise<Cart> {
+    return saveCart(sessionId, setCartItemQuantity(await loadCart(sessionId), itemId, quantity));
+  },
+
+  async removeItem(sessionId: string, itemId: string): Promise<Cart> {
+    return saveCart(sessionId, removeCartItem(await loadCart(sessionId), itemId));
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * ShipmentTrackingService.ts
+ * Looks up parcels with the couriers: the shipment of an order, or a waybill
+ * (resi) number the customer sends on its own, e.g. "cek resi JP1234567890"
+ */
+
+import { ShipmentTracking } from '../../domain/entities/Shipment';
+import { getCourierTrackers } from '../../infrastructure/tracking/CourierTrackerFactory';
+
+// Order statuses whose parcel is with the courier
+const TRACKABLE_ORDER_STATUSES = ['shipped', 'delivered'];
+
+/**
+ * Track a waybill with the courier it belongs to: the one named, else the ones
+ * whose number format it has, else every courier in turn
+ * @returns The tracking, or null if no courier knows the waybill
+ */
+export const trackShipment = async (waybill: string, courier?: string): Promise<ShipmentTracking | null> => {
+  const trackers = getCourierTrackers();
+  const named = courier ? trackers.filter((tracker) => tracker.supports(courier)) : [];
+  const recognized = trackers.filter((tracker) => tracker.recognizes(waybill));
+  const candidates = named.length > 0 ? named : recognized.length > 0 ? recognized : trackers;
+
+  for (const tracker of candidates) {
+    const tracking = await tracker.track(waybill);
+    if (tracking) {
+      return tracking;
+    }
+  }
+  return null;
+};
+
+/**
+ * Track the parcel of an order that has been handed to the courier
+ * @returns The tracking, or null if the order has no parcel on its way or the courier does not know it
+ */
+export const trackOrderShipment = (
+  order: { status: string; trackingNumber?: string; courier?: string }
+): Promise<ShipmentTracking | null> => {
+  if (!order.trackingNumber || !TRACKABLE_ORDER_STATUSES.includes(order.status.toLowerCase())) {
+    return Promise.resolve(null);
+  }
+  return trackShipment(order.trackingNumber, order.courier);
+};
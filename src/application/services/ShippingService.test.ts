@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createConversationState } from '../../domain/entities/ConversationState';
+import { extractEntities } from '../../domain/services/EntityExtractor';
+import { estimateShipping } from './ShippingService';
+
+// The backend cannot be reached, so products and rates come from the mock data and rate table
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(async () => { throw new Error('offline'); }),
+    post: vi.fn(async () => { throw new Error('offline'); })
+  }
+}));
+
+const ask = (message: string) => estimateShipping(message, extractEntities(message), createConversationState(`session-${message}`));
+
+describe('estimateShipping', () => {
+  it('uses the catalog weight of a product named in the question', async () => {
+    const reply = await ask('ongkir sepatu ke surabaya pakai jne');
+    expect(reply.responseText).toContain('Estimasi ongkos kirim ke **Surabaya, Jawa Timur** untuk paket 1,1 kg:');
+    expect(reply.responseText).toContain('Paket: **Sepatu Sneakers Casual**');
+  });
+
+  it('uses the default weight without a product or cart', async () => {
+    const reply = await ask('ongkir ke surabaya pakai jne');
+    expect(reply.responseText).toContain('untuk paket 500 g:');
+    expect(reply.responseText).not.toContain('Paket:');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * ShippingService.ts
+ * Estimates shipping costs and delivery times, e.g. "ongkir ke Surabaya pakai JNE berapa?",
+ * for a product from the last results or named in the question, the cart, or a parcel of a given weight
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { RichMessage, textMessage } from '../../domain/entities/ChatResponse';
+import { getCartTotal } from '../../domain/entities/Cart';
+import { ExtractedEntities } from '../../domain/services/EntityExtractor';
+import { resolveProductReference } from '../../domain/services/ReferenceResolver';
+import { COURIER_NAMES } from '../../domain/services/ShippingExtractor';
+import {
+  ShippingQuote,
+  ShippingRateTable,
+  applyFreeShipping,
+  calculateShippingQuotes
+} from '../../domain/services/ShippingCalculator';
+import { t, formatCurrency, getLocale, Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { loadShippingRateTable } from '../../infrastructure/shipping/ShippingRateLoader';
+import { ApiProduct, estimateShippingExternal, searchProductsExternal } from '../../infrastructure/api/ExternalApi';
+import { searchProducts } from '../../infrastructure/api/ProductApi';
+import { findProduct } from './ProductReferenceService';
+import { getCart } from './CartService';
+dotenv.config();
+
+const SHIPPING_RATES_FILE = path.resolve(process.env.SHIPPING_RATES_FILE ?? 'shipping-rates.json');
+
+// Parcel weight in grams when the rate table cannot be loaded either
+const FALLBACK_WEIGHT = 1000;
+
+export interface ShippingReply {
+  responseText: string;
+  messages: RichMessage[];
+}
+
+// What is being shipped
+interface Parcel {
+  // Weight in grams
+  weight: number;
+  // Value of the goods, for the members' free shipping threshold
+  subtotal?: number;
+  productName?: string;
+  cartItemCount?: number;
+}
+
+let rateTable: Promise<ShippingRateTable | null> | null = null;
+
+/**
+ * The rate table, loaded once; a failed load is retried on the next question
+ */
+const getRateTable = (): Promise<ShippingRateTable | null> => {
+  if (!rateTable) {
+    rateTable = loadShippingRateTable(SHIPPING_RATES_FILE).catch((error) => {
+      console.error('Error loading shipping rate table:', error);
+      rateTable = null;
+      return null;
+    });
+  }
+  return rateTable;
+};
+
+/**
+ * The catalog product named in the question, e.g. "ongkir sepatu ke Surabaya",
+ * preferring the external API over the mock data
+ */
+const findNamedProduct = async (
+  entities: ExtractedEntities,
+  customer?: CustomerContext | null
+): Promise<ApiProduct | null> => {
+  const keyword = entities.product_name || entities.category;
+  if (!keyword) {
+    return null;
+  }
+
+  const [externalProduct] = await searchProductsExternal(
+    entities.product_name, entities.category, entities.color, entities.size, 1, 1, customer
+  );
+  if (externalProduct) {
+    return externalProduct;
+  }
+
+  const [product] = await searchProducts(keyword);
+  return product ?? null;
+};
+
+/**
+ * The parcel the question is about: one of the given weight ("ongkir 2 kg"),
+ * a product of the last results it refers to or a product it names, otherwise the cart
+ */
+const findParcel = async (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  defaultWeight: number,
+  customer?: CustomerContext | null
+): Promise<Parcel> => {
+  if (entities.weight) {
+    return { weight: entities.weight };
+  }
+
+  const reference = resolveProductReference(message, entities, state.context.lastProductResults ?? []);
+  const product = reference?.product
+    ? await findProduct(reference.product.id, customer)
+    : await findNamedProduct(entities, customer);
+  if (product) {
+    return { weight: product.weight ?? defaultWeight, subtotal: product.price, productName: product.name };
+  }
+
+  const cart = await getCart(state, customer);
+  if (cart && cart.items.length > 0) {
+    return {
+      weight: cart.items.reduce((total, item) => total + (item.weight ?? defaultWeight) * item.quantity, 0),
+      subtotal: getCartTotal(cart),
+      cartItemCount: cart.items.reduce((total, item) => total + item.quantity, 0)
+    };
+  }
+
+  return { weight: defaultWeight };
+};
+
+/**
+ * Quotes from the backend when it can estimate shipping, otherwise from the rate table
+ * @returns The quotes, or null if neither is available
+ */
+const getQuotes = async (
+  entities: ExtractedEntities,
+  province: string,
+  weight: number,
+  table: ShippingRateTable | null,
+  customer?: CustomerContext | null
+): Promise<ShippingQuote[] | null> => {
+  const externalQuotes = await estimateShippingExternal(
+    { city: entities.destination_city, province, weight, courier: entities.courier },
+    customer
+  );
+  if (externalQuotes && externalQuotes.length > 0) {
+    return externalQuotes;
+  }
+
+  return table ? calculateShippingQuotes(table, province, weight, entities.courier) : null;
+};
+
+/**
+ * Format a weight, e.g. "1,5 kg" or "800 g"
+ */
+const formatWeight = (grams: number, language: Language): string => {
+  return grams >= 1000
+    ? `${(grams / 1000).toLocaleString(getLocale(language), { maximumFractionDigits: 1 })} kg`
+    : `${grams} g`;
+};
+
+const formatQuote = (quote: ShippingQuote, language: Language): string => {
+  const eta = quote.minDays === quote.maxDays
+    ? t(language, 'shipping.etaDays', { count: quote.minDays })
+    : t(language, 'shipping.etaRange', { min: quote.minDays, max: quote.maxDays });
+
+  return t(language, 'shipping.quote', {
+    courier: COURIER_NAMES[quote.courier] ?? quote.courier.toUpperCase(),
+    service: quote.service,
+    cost: quote.cost === 0 ? t(language, 'shipping.free') : formatCurrency(quote.cost, language),
+    eta
+  });
+};
+
+/**
+ * Estimate the shipping asked about in the message
+ */
+export const estimateShipping = async (
+  message: string,
+  entities: ExtractedEntities,
+  state: ConversationState,
+  customer?: CustomerContext | null
+): Promise<ShippingReply> => {
+  const language = state.language ?? DEFAULT_LANGUAGE;
+  const reply = (text: string): ShippingReply => ({ responseText: text, messages: [textMessage(text)] });
+
+  const province = entities.destination_province;
+  if (!province) {
+    return reply(t(language, 'slot.destination'));
+  }
+  const destination = entities.destination_city ? `${entities.destination_city}, ${province}` : province;
+
+  const table = await getRateTable();
+  const parcel = await findParcel(message, entities, state, table?.defaultWeight ?? FALLBACK_WEIGHT, customer);
+  const quotes = await getQuotes(entities, province, parcel.weight, table, customer);
+
+  if (!quotes) {
+    return reply(t(language, 'shipping.unavailable'));
+  }
+  if (quotes.length === 0) {
+    const courier = entities.courier ? COURIER_NAMES[entities.courier] : undefined;
+    return reply(courier
+      ? t(language, 'shipping.courierUnavailable', { courier, destination })
+      : t(language, 'shipping.noRates', { destination }));
+  }
+
+  // Members' free shipping is applied for logged-in customers
+  const level = customer?.membershipLevel;
+  const freeShipping = applyFreeShipping(quotes, level, parcel.subtotal);
+
+  const lines = [t(language, 'shipping.title', { destination, weight: formatWeight(parcel.weight, language) })];
+  if (parcel.productName) {
+    lines.push(t(language, 'shipping.parcelProduct', { name: parcel.productName }));
+  } else if (parcel.cartItemCount) {
+    lines.push(t(language, 'shipping.parcelCart', { count: parcel.cartItemCount }));
+  }
+  lines.push('', ...freeShipping.quotes.map((quote) => formatQuote(quote, language)), '');
+
+  if (freeShipping.free) {
+    lines.push(t(language, 'shipping.freeForMember', { level: level! }));
+  } else if (freeShipping.threshold !== undefined && parcel.subtotal !== undefined) {
+    lines.push(t(language, 'shipping.freeRemaining', {
+      level: level!,
+      remaining: formatCurrency(freeShipping.threshold - parcel.subtotal, language)
+    }));
+  } else if (freeShipping.threshold !== undefined) {
+    lines.push(t(language, 'shipping.freeThreshold', {
+      level: level!,
+      threshold: formatCurrency(freeShipping.threshold, language)
+    }));
+  }
+  lines.push(t(language, 'shipping.disclaimer'));
+
+  return reply(lines.join('\n'));
+};
@@ -0,0 +1,48 @@
+/**
+ * evaluateIntents.ts
+ * Command-line report of intent classification quality on a held-out set
+ *
+ * Usage: npm run eval:intents -- [--train file.jsonl] [--test file.jsonl] [--rules]
+ *   --rules  evaluate the keyword rules instead of the trained model
+ */
+
+import path from 'path';
+import { classifyWithRules } from '../domain/services/IntentClassifier';
+import { trainIntentModel } from '../domain/services/IntentModel';
+import { normalizeMessage } from '../domain/services/EntityExtractor';
+import { evaluateClassifier, formatEvaluationReport } from '../application/services/IntentModelService';
+import { loadIntentDataset } from '../infrastructure/knowledge/IntentDatasetLoader';
+
+const getArgument = (name: string, fallback: string): string => {
+  const index = process.argv.indexOf(name);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const main = async (): Promise<void> => {
+  const trainFile = path.resolve(getArgument('--train', process.env.INTENT_TRAINING_FILE ?? 'training-data/intents.jsonl'));
+  const testFile = path.resolve(getArgument('--test', 'training-data/intents.test.jsonl'));
+  const useRules = process.argv.includes('--rules');
+
+  const testExamples = await loadIntentDataset(testFile);
+  // Messages are normalized as they are in the chat pipeline
+  let classify = (text: string) => classifyWithRules(normalizeMessage(text).text).intent;
+
+  if (useRules) {
+    console.log(`Evaluating keyword rules on ${testFile}\n`);
+  } else {
+    const trainExamples = await loadIntentDataset(trainFile);
+    const model = trainIntentModel(trainExamples);
+    classify = (text: string) => model.predict(normalizeMessage(text).text).intent;
+    console.log(
+      `Trained on ${trainExamples.length} utterance(s) from ${trainFile} (temperature ${model.temperature})\n` +
+      `Evaluating on ${testFile}\n`
+    );
+  }
+
+  console.log(formatEvaluationReport(evaluateClassifier(testExamples, classify)));
+};
+
+main().catch((error) => {
+  console.error('Intent evaluation failed:', error);
+  process.exit(1);
+});
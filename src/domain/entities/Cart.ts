@@ -0,0 +1,73 @@
+/**
+ * Cart.ts
+ * Defines the shopping cart entity and the changes that can be made to it
+ */
+
+export interface CartItem {
+  // Line ID; the same product in another size or color is another line
+  id: string;
+  productId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  size?: string;
+  color?: string;
+  imageUrl?: string;
+  // Shipping weight of one piece in grams
+  weight?: number;
+}
+
+export type NewCartItem = Omit<CartItem, 'id'>;
+
+export interface Cart {
+  items: CartItem[];
+  updatedAt?: string;
+}
+
+export const createCart = (): Cart => ({ items: [] });
+
+export const getCartTotal = (cart: Cart): number => {
+  return cart.items.reduce((total, item) => total + item.price * item.quantity, 0);
+};
+
+/**
+ * Line ID of a product variant, e.g. "p001:M:merah"
+ */
+export const getCartItemId = (item: Pick<CartItem, 'productId' | 'size' | 'color'>): string => {
+  return [item.productId, item.size ?? '', item.color ?? ''].join(':');
+};
+
+/**
+ * Add an item; a variant already in the cart gets the quantities added up
+ */
+export const addItemToCart = (cart: Cart, item: NewCartItem): Cart => {
+  const id = getCartItemId(item);
+  const existing = cart.items.find((line) => line.id === id);
+
+  const items = existing
+    ? cart.items.map((line) => (line.id === id ? { ...line, quantity: line.quantity + item.quantity } : line))
+    : [...cart.items, { ...item, id }];
+
+  return { items, updatedAt: new Date().toISOString() };
+};
+
+/**
+ * Change the quantity of a line; zero or less removes it
+ */
+export const setCartItemQuantity = (cart: Cart, itemId: string, quantity: number): Cart => {
+  if (quantity <= 0) {
+    return removeCartItem(cart, itemId);
+  }
+
+  return {
+    items: cart.items.map((line) => (line.id === itemId ? { ...line, quantity } : line)),
+    updatedAt: new Date().toISOString()
+  };
+};
+
+export const removeCartItem = (cart: Cart, itemId: string): Cart => {
+  return {
+    items: cart.items.filter((line) => line.id !== itemId),
+    updatedAt: new Date().toISOString()
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * ChatResponse.ts
+ * Defines the reply envelope: typed messages that rich clients render as cards and buttons,
+ * together with the plain text used by text-only channels such as WhatsApp
+ */
+
+import { t, Language } from '../services/I18n';
+
+// Route of the web app that opens a WhatsApp chat with customer service
+const HANDOFF_URL = '/redirect-whatsapp';
+
+export interface ProductCard {
+  id: string;
+  name: string;
+  description?: string;
+  price: number;
+  // Display strings in the customer's language, e.g. "Rp 350.000" and "Tersedia"
+  priceLabel: string;
+  stockLabel: string;
+  inStock: boolean;
+  imageUrl?: string;
+  category?: string;
+  color?: string;
+  size?: string;
+}
+
+export interface OrderSummaryItem {
+  name: string;
+  quantity: number;
+  price: number;
+  priceLabel: string;
+}
+
+export interface OrderSummary {
+  id: string;
+  status: string;
+  statusLabel: string;
+  // Ready-to-show lines, e.g. "Tanggal Pemesanan: 15 Oktober 2023" and "Total: Rp 350.000"
+  dateLabel: string;
+  trackingLabel?: string;
+  totalLabel: string;
+  items: OrderSummaryItem[];
+}
+
+export interface TrackingTimelineCheckpoint {
+  // Display strings, e.g. "18 Okt 2023, 09.20"
+  timeLabel: string;
+  location?: string;
+  description: string;
+}
+
+export interface TrackingTimeline {
+  waybill: string;
+  courierName: string;
+  status: string;
+  statusLabel: string;
+  // "Estimasi tiba: 19 Oktober 2023" or "Diterima pada 14 Oktober 2023 oleh Siti"
+  detailLabel?: string;
+  // Newest first
+  checkpoints: TrackingTimelineCheckpoint[];
+}
+
+// A button that sends `value` as the customer's next message
+export interface QuickReply {
+  label: string;
+  value: string;
+}
+
+export type RichMessage =
+  | { type: 'text'; text: string }
+  | { type: 'product_carousel'; products: ProductCard[] }
+  | { type: 'order_summary'; order: OrderSummary }
+  | { type: 'tracking_timeline'; tracking: TrackingTimeline }
+  | { type: 'quick_replies'; options: QuickReply[] }
+  // Hand the conversation over to a human agent, e.g. customer service on WhatsApp
+  | { type: 'handoff'; text: string; url: string };
+
+export interface ChatResponse {
+  // The whole reply as markdown text, kept for clients that cannot render messages
+  text: string;
+  messages: RichMessage[];
+}
+
+export const textMessage = (text: string): RichMessage => ({ type: 'text', text });
+
+export const quickReplies = (labels: string[]): RichMessage => ({
+  type: 'quick_replies',
+  options: labels.map((label) => ({ label, value: label }))
+});
+
+/**
+ * A reply that is only text
+ */
+export const createTextResponse = (text: string): ChatResponse => ({
+  text,
+  messages: [textMessage(text)]
+});
+
+/**
+ * Button that takes the customer to a human agent
+ */
+export const handoffMessage = (language: Language): RichMessage => ({
+  type: 'handoff',
+  text: t(language, 'handoff.customerService'),
+  url: HANDOFF_URL
+});
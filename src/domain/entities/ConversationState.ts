@@ -3,16 +3,142 @@
  * Defines the conversation state entity for tracking chat context
  */
 
+import { Language } from '../services/I18n';
+import { Cart } from './Cart';
+
+export interface ConversationMessage {
+  // Position in the transcript, increasing by one per message
+  index: number;
+  role: 'user' | 'assistant';
+  content: string;
+  intent?: string;
+  entities?: Record<string, any>;
+  timestamp: string;
+}
+
+export interface ConversationSummary {
+  text: string;
+  // Index of the last message folded into the summary
+  coveredUntil: number;
+}
+
+// A multi-turn flow waiting for the user's next answer; a guest verifying
+// an order answers "awaiting_contact" with the email or phone on the order
+export interface PendingAction {
+  type: 'cancel_order' | 'verify_order';
+  step: 'awaiting_order_id' | 'awaiting_contact' | 'awaiting_confirmation';
+  orderId?: string;
+  startedAt: string;
+}
+
+// Orders a guest has proven to be theirs, and the failed attempts to do so
+// Failed attempts are counted per order and client by OrderAccessService, not per session
+export interface OrderAccessState {
+  verifiedOrderIds: string[];
+}
+
+// Slots collected for an intent that still needs more information
+export interface SlotFillingState {
+  intent: string;
+  filled: Record<string, any>;
+  // Names of the required slots still empty
+  missing: string[];
+  startedAt: string;
+}
+
+// A catalog or order lookup made by the LLM in agent mode
+export interface ToolCallLog {
+  name: string;
+  arguments: Record<string, any>;
+  success: boolean;
+  // Short description of the outcome, e.g. "3 produk" or the error
+  result: string;
+  timestamp: string;
+}
+
+// A product from the last search results, numbered as it was shown
+export interface ProductReference {
+  id: string;
+  name: string;
+  category: string;
+  price: number;
+  inStock: boolean;
+  color?: string;
+  size?: string;
+  // Number shown next to the product in the list, counting across pages
+  position?: number;
+}
+
+// What a product search asked for, named like the extracted entities
+export interface ProductSearchCriteria {
+  query: string;
+  category?: string;
+  color?: string;
+  size?: string;
+  min_price?: number;
+  max_price?: number;
+  exclude_colors?: string[];
+  exclude_categories?: string[];
+}
+
+// The product search being paged through with "lihat lagi" or "halaman 3"
+export interface ProductBrowsingState extends ProductSearchCriteria {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// An order of the customer's order list, numbered as it was shown
+export interface OrderReference {
+  id: string;
+  status: string;
+  // Number shown next to the order, counting across pages
+  position: number;
+}
+
+// Filters of an order list, named like the backend's query parameters
+export interface OrderListFilters {
+  status?: string;
+  // Calendar dates, YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+}
+
+// The customer's order list being paged through or picked from
+export interface OrderBrowsingState extends OrderListFilters {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  // Orders on the page shown last
+  orders: OrderReference[];
+}
+
 export interface ConversationState {
   sessionId: string;
   currentIntent: string | null;
   entities: Record<string, any>;
+  history: ConversationMessage[];
+  summary?: ConversationSummary;
+  pendingAction?: PendingAction | null;
+  slotFilling?: SlotFillingState | null;
+  toolCalls?: ToolCallLog[];
+  productBrowsing?: ProductBrowsingState | null;
+  orderBrowsing?: OrderBrowsingState | null;
+  orderAccess?: OrderAccessState;
+  // Cart of a guest; logged-in customers keep theirs on the backend
+  cart?: Cart;
+  // Language the customer writes in, used for all replies
+  language?: Language;
   context: {
     lastMessage: string;
     lastResponse: string;
     previousIntents: string[];
     turnCount: number;
     lastProductSearch?: string;
+    // Results of the last product search, for "yang nomor 2" or "yang merah tadi"
+    lastProductResults?: ProductReference[];
     lastOrderId?: string;
   };
   confidence: number;
@@ -23,6 +149,7 @@ export const createConversationState = (sessionId: string): ConversationState =>
     sessionId,
     currentIntent: null,
     entities: {},
+    history: [],
     context: {
       lastMessage: '',
       lastResponse: '',
@@ -51,34 +178,65 @@ export const updateConversationState = (
   };
 };
 
+/**
+ * Append a user message and the bot's response to the transcript
+ * @param maxHistory - Oldest messages beyond this many are dropped
+ */
 export const addMessageToState = (
   state: ConversationState,
   message: string,
-  response: string
+  response: string,
+  intent?: string,
+  entities?: Record<string, any>,
+  maxHistory: number = 200
 ): ConversationState => {
+  const history = state.history || [];
+  const nextIndex = history.length > 0 ? history[history.length - 1].index + 1 : 0;
+  const timestamp = new Date().toISOString();
+
+  const newMessages: ConversationMessage[] = [
+    { index: nextIndex, role: 'user', content: message, intent, entities, timestamp },
+    { index: nextIndex + 1, role: 'assistant', content: response, timestamp }
+  ];
+
   return updateConversationState(state, {
+    history: [...history, ...newMessages].slice(-maxHistory),
     context: {
+      ...state.context,
       lastMessage: message,
       lastResponse: response,
-      turnCount: state.context.turnCount + 1,
-      previousIntents: [...state.context.previousIntents]
+      turnCount: state.context.turnCount + 1
     }
   });
 };
 
+/**
+ * Record the intent of the current turn.
+ * The intent is appended to the intent history and attached to the
+ * latest user message if it does not carry one yet.
+ */
 export const addIntentToState = (
   state: ConversationState,
   intent: string,
   confidence: number
 ): ConversationState => {
+  const history = [...(state.history || [])];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'user') {
+      if (!history[i].intent) {
+        history[i] = { ...history[i], intent };
+      }
+      break;
+    }
+  }
+
   return updateConversationState(state, {
     currentIntent: intent,
     confidence,
+    history,
     context: {
-      lastMessage: state.context.lastMessage,
-      lastResponse: state.context.lastResponse,
-      previousIntents: [...state.context.previousIntents, intent],
-      turnCount: state.context.turnCount + 1
+      ...state.context,
+      previousIntents: [...state.context.previousIntents, intent]
     }
   });
 };
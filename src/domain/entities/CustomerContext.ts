@@ -0,0 +1,16 @@
+/**
+ * CustomerContext.ts
+ * Defines the logged-in customer a request is made for, resolved once per request
+ * from the Laravel session cookie or a bearer token
+ */
+
+export interface CustomerContext {
+  userId: string;
+  // Bearer token for the Aninka API
+  token: string;
+  name: string;
+  email?: string;
+  membershipLevel: string;
+  membershipPoints: number;
+  registeredSince: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Shipment.ts
+ * Defines the courier tracking of a parcel, the same for every courier
+ */
+
+export type ShipmentStatus =
+  | 'pending_pickup'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'returned'
+  | 'exception';
+
+export interface TrackingCheckpoint {
+  // ISO 8601 time of the scan
+  time: string;
+  location?: string;
+  // Courier's description of the scan, e.g. "Paket diterima di gudang Jakarta"
+  description: string;
+  status: ShipmentStatus;
+}
+
+export interface ShipmentTracking {
+  waybill: string;
+  // Courier code, e.g. "jne"
+  courier: string;
+  status: ShipmentStatus;
+  // Newest first
+  checkpoints: TrackingCheckpoint[];
+  estimatedDelivery?: string;
+  deliveredAt?: string;
+  receiver?: string;
+}
+
+/**
+ * Order checkpoints newest first and take the status of the newest one
+ */
+export const createShipmentTracking = (
+  waybill: string,
+  courier: string,
+  checkpoints: TrackingCheckpoint[],
+  details: Pick<ShipmentTracking, 'estimatedDelivery' | 'receiver'> = {}
+): ShipmentTracking => {
+  const sorted = [...checkpoints].sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+  const latest = sorted[0];
+
+  return {
+    waybill,
+    courier,
+    status: latest?.status ?? 'pending_pickup',
+    checkpoints: sorted,
+    ...details,
+    deliveredAt: latest?.status === 'delivered' ? latest.time : undefined
+  };
+};
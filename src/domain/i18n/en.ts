@@ -0,0 +1,239 @@
+/**
+ * en.ts
+ * English message bundle; must define every key of the Indonesian bundle
+ */
+
+import { Message } from "../services/I18n";
+import { MessageKey } from "./id";
+
+export const EN_MESSAGES: Record<MessageKey, Message> = {
+  // Greetings and fallback
+  "greeting": [
+    "Hello! Welcome to Aninka Fashion. How can I help you today?",
+    "Welcome to the Aninka Fashion chat service. How may I help you?",
+    "Hi! Thank you for contacting Aninka Fashion. What can I do for you?",
+  ],
+  "fallback": [
+    "Sorry, I'm not sure what you mean. Could you explain in more detail?",
+    "I didn't quite understand your request. You can ask about our fashion products or the status of your order.",
+    "Sorry, I don't understand. Try asking in a different way or give more specific information.",
+    "I'm still learning to understand requests like yours. Could you phrase your question differently?",
+  ],
+  "correction.notice": "Did you mean {words}?",
+
+  // Follow-up questions
+  "slot.orderId": "May I have your order number or waybill number? (for example: ORD-001)",
+  "slot.product": "What product are you looking for? For example gamis, setelan, daster, shirts, bags or shoes.",
+  "slot.destination": "Which city should it be shipped to? (for example: Surabaya or East Java)",
+  "slot.default": "Could you give me a few more details?",
+
+  // Prices
+  "price.range": "{min} – {max}",
+  "price.max": "at most {max}",
+  "price.min": "at least {min}",
+
+  // Products
+  "product.notFound": "Sorry, I couldn't find any products matching your search. Please try other keywords.",
+  "product.notFoundInPriceRange": "Sorry, I couldn't find any products priced {price}. Please try another budget or other keywords.",
+  "product.priceFilter": " priced {price}",
+  "product.foundOne": "I found the product you're looking for{filter}:",
+  "product.foundMany": {
+    one: "I found {count} product matching your search{filter}:",
+    other: "I found {count} products matching your search{filter}:",
+  },
+  "product.price": "Price: {price}",
+  "product.category": "Category: {category}",
+  "product.color": "Color: {color}",
+  "product.size": "Size: {size}",
+  "product.status": "Status: {status}",
+  "product.inStock": "In stock",
+  "product.outOfStock": "Out of stock",
+  "product.askDetails": "Feel free to ask for more details about any product you like.",
+  "product.showing": "Showing {start}–{end} of {total} products.",
+  "product.lastPage": "That's all the products matching your search.",
+  "product.firstPage": "This is already the first page of the results.",
+  "product.pageOutOfRange": {
+    one: "The results only have {count} page.",
+    other: "The results only have {count} pages.",
+  },
+
+  // Questions about one of the last results ("is the second one available in L?")
+  "reference.inStock": "**{name}** is in stock for {price}.",
+  "reference.outOfStock": "Sorry, **{name}** is out of stock.",
+  "reference.sizeAvailable": "Yes, **{name}** is available in size {size}.",
+  "reference.sizeUnavailable": "Sorry, **{name}** is not available in size {size}. Available sizes: {sizes}.",
+  "reference.sizes": "**{name}** is available in sizes {sizes}.",
+  "reference.sizeUnknown": "Sorry, there is no size information for **{name}** yet. Please contact our customer service.",
+  "reference.outOfRange": "Sorry, there is no product number {position} in the list shown.",
+  "reference.unavailable": "Sorry, the details of **{name}** cannot be loaded right now. Please try again later.",
+
+  // Cart ("add to cart", "view cart", "remove item", "change quantity to 2")
+  "cart.title": "🛒 Your cart:",
+  "cart.item": "{position}. **{name}**{variant} — {quantity} × {price} = {subtotal}",
+  "cart.total": "Total: **{total}**",
+  "cart.empty": "Your cart is still empty. Let's find something you like!",
+  "cart.added": "Added {quantity} × **{name}**{variant} to your cart.",
+  "cart.removed": "Removed **{name}**{variant} from your cart.",
+  "cart.updated": "Changed the quantity of **{name}**{variant} to {quantity}.",
+  "cart.searchFirst": "Please search for the product first, then tell me its number to add it to your cart.",
+  "cart.whichProduct": "Which product would you like to add to your cart? Tell me its number in the list, e.g. \"add number 1 to cart\".",
+  "cart.whichItem": "Which item do you mean? Tell me its number, e.g. \"remove item number 1\".",
+  "cart.itemOutOfRange": "Sorry, there is no item number {position} in your cart.",
+  "cart.askQuantity": "What should the quantity be? For example \"change quantity to 2\".",
+  "cart.invalidQuantity": "Sorry, the quantity per item must be between 1 and {max}.",
+  "cart.chooseSize": "**{name}** is available in sizes {sizes}. Which size would you like?",
+  "cart.chooseColor": "**{name}** is available in {colors}. Which color would you like?",
+  "cart.colorUnavailable": "Sorry, **{name}** is not available in {color}. Available colors: {colors}.",
+  "cart.colorUnknown": "Sorry, there is no color information for **{name}** yet. Please contact our customer service.",
+  "cart.addCommand": "Add number {position}{options} to cart",
+  "cart.sizeOption": " size {size}",
+  "cart.colorOption": " color {color}",
+  "cart.unavailable": "Sorry, your cart cannot be reached right now. Please try again later.",
+
+  // Shipping estimates ("how much is shipping to Surabaya with JNE?")
+  "shipping.title": "Estimated shipping to **{destination}** for a {weight} parcel:",
+  "shipping.parcelProduct": "Parcel: **{name}**",
+  "shipping.parcelCart": {
+    one: "Parcel: your cart ({count} item)",
+    other: "Parcel: your cart ({count} items)",
+  },
+  "shipping.quote": "- **{courier} {service}**: {cost}, delivered in {eta}",
+  "shipping.etaRange": "{min}–{max} days",
+  "shipping.etaDays": {
+    one: "{count} day",
+    other: "{count} days",
+  },
+  "shipping.free": "Free",
+  "shipping.freeForMember": "As a {level} member, shipping is free for this order. 🎉",
+  "shipping.freeRemaining": "Spend {remaining} more to get free shipping as a {level} member.",
+  "shipping.freeThreshold": "{level} members get free shipping on purchases above {threshold}.",
+  "shipping.disclaimer": "The final shipping cost is calculated at checkout.",
+  "shipping.noRates": "Sorry, shipping to **{destination}** cannot be estimated yet. Please check the shipping cost at checkout.",
+  "shipping.courierUnavailable": "Sorry, {courier} is not available for shipping to **{destination}** yet. Please choose another courier.",
+  "shipping.unavailable": "Sorry, shipping cannot be estimated right now. Please try again later.",
+
+  // Orders
+  "order.notFound": "Sorry, I couldn't find an order with that ID. Please check your order number.",
+  "order.title": "Order **{id}**:",
+  "order.status": "Status: **{status}**",
+  "order.date": "Order date: {date}",
+  "order.trackingNumber": "Tracking number: {trackingNumber}",
+  "order.inTransit": "Your order is on its way. You can track the delivery with the tracking number above.",
+  "order.details": "Order details:",
+  "order.total": "Total: {amount}",
+  "order.status.pending": "Awaiting Payment",
+  "order.status.processing": "Processing",
+  "order.status.shipped": "Shipped",
+  "order.status.delivered": "Delivered",
+  "order.status.cancelled": "Cancelled",
+  "tracking.title": "Tracking **{courier}** parcel **{waybill}**:",
+  "tracking.status": "Delivery status: **{status}**",
+  "tracking.status.pending_pickup": "Awaiting Courier Pickup",
+  "tracking.status.picked_up": "Picked Up",
+  "tracking.status.in_transit": "In Transit",
+  "tracking.status.out_for_delivery": "Out for Delivery",
+  "tracking.status.delivered": "Delivered",
+  "tracking.status.returned": "Returned to Sender",
+  "tracking.status.exception": "Delivery Problem",
+  "tracking.eta": "Estimated arrival: {date}",
+  "tracking.deliveredAt": "Delivered on {date}",
+  "tracking.deliveredTo": "Delivered on {date} to {receiver}",
+  "tracking.latest": "Latest updates:",
+  "tracking.checkpoint": "- {time}: {description}",
+  "tracking.checkpointAt": "- {time}, {location}: {description}",
+  "tracking.exceptionHelp": "There is a problem with this delivery. Contact our customer service and we will follow it up with the courier.",
+  "tracking.notFound": "Sorry, waybill **{waybill}** cannot be tracked yet. Please check the number; courier data usually appears a few hours after the parcel is sent.",
+
+  // Order history ("my orders", "cancelled orders from last month")
+  "orders.title": "Your orders{filter}:",
+  "orders.filter": " ({filters})",
+  "orders.dateRange": "{from} – {to}",
+  "orders.item": "{position}. **{id}** · {date} · {status} · {total}",
+  "orders.showing": "Showing {start}–{end} of {count} orders.",
+  "orders.askDetails": "Choose an order or type its number in the list (for example \"number 1\") to see its details and delivery.",
+  "orders.empty": "There are no orders in your account yet.",
+  "orders.emptyFiltered": "There are no orders{filter} in your account.",
+  "orders.outOfRange": "There is no order number {position} in the list. Please choose one of the numbers shown.",
+  "orders.lastPage": "That's all the orders in your list.",
+  "orders.firstPage": "This is already the first page of your orders.",
+  "orders.pageOutOfRange": {
+    one: "Your order list only has {count} page.",
+    other: "Your order list only has {count} pages.",
+  },
+  "orders.loginRequired": "To see your order history, please log in to your account on the Aninka website first, then open this chat again. If you know the order number or waybill number, just send it (for example: ORD-001).",
+  "orders.unavailable": "Sorry, your order history cannot be loaded right now. Please try again later.",
+
+  // Order cancellation
+  "cancel.askOrderId": "Sure, I'll help you cancel your order. Which order number would you like to cancel?",
+  "cancel.orderNotFound": "Sorry, I couldn't find order **{id}**. Please send the correct order number, or type \"no\" to stop.",
+  "cancel.notCancellable": "Order **{id}** is **{status}**, so it can no longer be cancelled. " +
+    "Only orders that are awaiting payment or being processed can be cancelled. " +
+    "Please contact our customer service for further help.",
+  "cancel.confirm": "Order **{id}** ({status}, total {total}) can be cancelled.\n\n" +
+    "Are you sure you want to cancel this order? Reply **yes** or **no**.",
+  "cancel.success": "Order **{id}** has been cancelled. " +
+    "If you have already paid, the money will be refunded to your payment method.",
+  "cancel.rejected": "Sorry, order **{id}** cannot be cancelled.",
+  "cancel.rejectedWithReason": "Sorry, order **{id}** cannot be cancelled: {reason}",
+  "cancel.unavailable": "Sorry, order **{id}** cannot be cancelled right now. Please try again later or contact our customer service.",
+  "cancel.declined": "Okay, order **{id}** will not be cancelled. Is there anything else I can help with?",
+  "cancel.stopped": "Okay, the cancellation has been stopped. Is there anything else I can help with?",
+  "cancel.reminderConfirmation": "(The cancellation of order {id} is still waiting for your confirmation. Reply **yes** or **no**.)",
+  "cancel.reminderOrderId": "(You haven't told me which order to cancel yet. Send the order number, or type \"no\" to stop.)",
+
+  // Order access: guests verify an order with the email or phone used at checkout
+  "access.askContact": "To keep your data safe, please send the email address or phone number used to place order **{id}**. " +
+    "If you have an account, you can also log in to see your orders without verifying.",
+  "access.contactMismatch": {
+    one: "Sorry, that email or phone number does not match order **{id}**. You have {count} attempt left.",
+    other: "Sorry, that email or phone number does not match order **{id}**. You have {count} attempts left.",
+  },
+  "access.locked": "Too many verification attempts have failed. For your security, order verification is locked for {minutes} minutes. " +
+    "Please log in to your account or contact our customer service.",
+  "access.notOwned": "Order **{id}** was not found in your account. Please check the order number.",
+  "access.stopped": "Alright, I've stopped verifying the order. Is there anything else I can help with?",
+  "access.reminder": "(Order {id} is still waiting for verification. Send the email or phone number used to place it, or type \"no\" to stop.)",
+
+  // Membership
+  "user.notFound": "Sorry, I couldn't find your user information. Please make sure you are logged in.",
+  "user.loginRequired": "Please log in first to see your membership status.",
+  "user.unavailable": "Sorry, I can't access your membership information right now. Please try again later or contact our customer service.",
+  "user.title": "Membership of **{name}**:",
+  "user.level": "Membership level: **{level}**",
+  "user.points": {
+    one: "Points: {count} point",
+    other: "Points: {count} points",
+  },
+  "user.since": "Member since: {date}",
+  "user.benefitsTitle": "{level} membership benefits:",
+  "user.benefits.bronze": "- 5% discount on every purchase\n- Access to member-only promotions",
+  "user.benefits.silver": "- 10% discount on every purchase\n- Access to member-only promotions\n- Free shipping on purchases above {threshold}",
+  "user.benefits.gold": "- 15% discount on every purchase\n- Access to member-only promotions\n- Free shipping on all purchases\n- Priority customer service",
+  "user.benefits.platinum": "- 20% discount on every purchase\n- Access to member-only promotions\n- Free shipping on all purchases\n- Priority customer service\n- Access to limited collections",
+  "user.benefits.other": "- Please contact customer service for more information about your membership benefits.",
+
+  // Quick replies and handoff to customer service
+  "quickReply.searchProducts": "Find products",
+  "quickReply.trackOrder": "Check my order status",
+  "quickReply.membership": "My membership",
+  "quickReply.cancelOrder": "Cancel order {id}",
+  "quickReply.nextPage": "Show more",
+  "quickReply.previousPage": "Previous",
+  "quickReply.viewCart": "View cart",
+  "quickReply.yes": "Yes",
+  "quickReply.no": "No",
+  "handoff.customerService": "Contact Customer Service",
+
+  // Knowledge base
+  "sources.title": "Sources:",
+
+  // LLM
+  "llm.unknown": "Sorry, I don't have that information at the moment.",
+  // Template answers once the daily LLM token budget is used up
+  "llm.knowledgeAnswer": "Here is some information that may help:",
+  "llm.limited": "Sorry, for now I can only help you find products, track orders, manage your cart, estimate shipping costs and show your membership status. For other questions, please contact our customer service.",
+
+  // WhatsApp
+  "whatsapp.textOnly": "Sorry, I can only read text messages at the moment.",
+  "whatsapp.error": "Sorry, something went wrong while processing your message. Please try again.",
+};
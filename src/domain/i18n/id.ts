@@ -0,0 +1,220 @@
+/**
+ * id.ts
+ * Indonesian message bundle, the default language and the reference for all other bundles.
+ * Placeholders are written as {name}; an array holds variants picked at random.
+ */
+
+import { Message } from "../services/I18n";
+
+export const ID_MESSAGES = {
+  // Greetings and fallback
+  "greeting": [
+    "Halo! Selamat datang di Aninka Fashion. Ada yang bisa saya bantu hari ini?",
+    "Selamat datang di layanan chat Aninka Fashion. Bagaimana saya bisa membantu Anda?",
+    "Hai! Terima kasih telah menghubungi Aninka Fashion. Ada yang bisa saya bantu?",
+  ],
+  "fallback": [
+    "Maaf, saya tidak yakin apa yang Anda maksud. Bisakah Anda menjelaskan dengan lebih detail?",
+    "Saya kurang memahami permintaan Anda. Anda bisa bertanya tentang produk fashion kami atau status pesanan Anda.",
+    "Mohon maaf, saya tidak mengerti. Coba tanyakan dengan cara lain atau berikan informasi lebih spesifik.",
+    "Saya masih belajar untuk memahami permintaan Anda. Bisakah Anda mengajukan pertanyaan dengan cara yang berbeda?",
+  ],
+  "correction.notice": "Maksud Anda {words}?",
+
+  // Follow-up questions
+  "slot.orderId": "Boleh saya minta nomor pesanan atau nomor resi Anda? (contoh: ORD-001)",
+  "slot.product": "Produk apa yang Anda cari? Misalnya gamis, setelan, daster, kemeja, tas atau sepatu.",
+  "slot.destination": "Mau dikirim ke kota mana? (contoh: Surabaya atau Jawa Timur)",
+  "slot.default": "Bisakah Anda memberikan informasi lebih detail?",
+
+  // Prices
+  "price.range": "{min} – {max}",
+  "price.max": "maksimal {max}",
+  "price.min": "minimal {min}",
+
+  // Products
+  "product.notFound": "Maaf, saya tidak menemukan produk yang sesuai dengan pencarian Anda. Silakan coba dengan kata kunci lain.",
+  "product.notFoundInPriceRange": "Maaf, saya tidak menemukan produk dengan harga {price}. Silakan coba dengan budget atau kata kunci lain.",
+  "product.priceFilter": " dengan harga {price}",
+  "product.foundOne": "Saya menemukan produk yang Anda cari{filter}:",
+  "product.foundMany": "Saya menemukan {count} produk yang sesuai dengan pencarian Anda{filter}:",
+  "product.price": "Harga: {price}",
+  "product.category": "Kategori: {category}",
+  "product.color": "Warna: {color}",
+  "product.size": "Ukuran: {size}",
+  "product.status": "Status: {status}",
+  "product.inStock": "Tersedia",
+  "product.outOfStock": "Stok Habis",
+  "product.askDetails": "Silakan tanyakan lebih detail tentang produk yang Anda minati.",
+  "product.showing": "Menampilkan {start}–{end} dari {total} produk.",
+  "product.lastPage": "Itu sudah semua produk yang sesuai dengan pencarian Anda.",
+  "product.firstPage": "Ini sudah halaman pertama hasil pencarian.",
+  "product.pageOutOfRange": "Hasil pencarian hanya memiliki {count} halaman.",
+
+  // Questions about one of the last results ("yang nomor 2 ada ukuran L?")
+  "reference.inStock": "**{name}** masih tersedia dengan harga {price}.",
+  "reference.outOfStock": "Maaf, **{name}** sedang habis.",
+  "reference.sizeAvailable": "Ya, **{name}** tersedia dalam ukuran {size}.",
+  "reference.sizeUnavailable": "Maaf, **{name}** tidak tersedia dalam ukuran {size}. Ukuran yang tersedia: {sizes}.",
+  "reference.sizes": "**{name}** tersedia dalam ukuran {sizes}.",
+  "reference.sizeUnknown": "Maaf, informasi ukuran untuk **{name}** belum tersedia. Silakan hubungi customer service kami.",
+  "reference.outOfRange": "Maaf, tidak ada produk nomor {position} pada daftar yang ditampilkan.",
+  "reference.unavailable": "Maaf, detail **{name}** tidak dapat dimuat saat ini. Silakan coba lagi nanti.",
+
+  // Cart ("masukkan ke keranjang", "lihat keranjang", "hapus item", "ubah jumlah jadi 2")
+  "cart.title": "🛒 Keranjang Anda:",
+  "cart.item": "{position}. **{name}**{variant} — {quantity} × {price} = {subtotal}",
+  "cart.total": "Total: **{total}**",
+  "cart.empty": "Keranjang Anda masih kosong. Yuk cari produk yang Anda suka!",
+  "cart.added": "**{name}**{variant} sebanyak {quantity} sudah masuk ke keranjang.",
+  "cart.removed": "**{name}**{variant} sudah dihapus dari keranjang.",
+  "cart.updated": "Jumlah **{name}**{variant} diubah menjadi {quantity}.",
+  "cart.searchFirst": "Silakan cari produknya terlebih dahulu, lalu sebutkan nomornya untuk dimasukkan ke keranjang.",
+  "cart.whichProduct": "Produk mana yang ingin dimasukkan ke keranjang? Sebutkan nomornya dari daftar, misalnya \"masukkan nomor 1 ke keranjang\".",
+  "cart.whichItem": "Item mana yang Anda maksud? Sebutkan nomornya, misalnya \"hapus item nomor 1\".",
+  "cart.itemOutOfRange": "Maaf, tidak ada item nomor {position} di keranjang Anda.",
+  "cart.askQuantity": "Mau diubah menjadi berapa? Misalnya \"ubah jumlah jadi 2\".",
+  "cart.invalidQuantity": "Maaf, jumlah per item harus antara 1 dan {max}.",
+  "cart.chooseSize": "**{name}** tersedia dalam ukuran {sizes}. Ukuran mana yang Anda mau?",
+  "cart.chooseColor": "**{name}** tersedia dalam warna {colors}. Warna mana yang Anda mau?",
+  "cart.colorUnavailable": "Maaf, **{name}** tidak tersedia dalam warna {color}. Warna yang tersedia: {colors}.",
+  "cart.colorUnknown": "Maaf, informasi warna untuk **{name}** belum tersedia. Silakan hubungi customer service kami.",
+  "cart.addCommand": "Masukkan nomor {position}{options} ke keranjang",
+  "cart.sizeOption": " ukuran {size}",
+  "cart.colorOption": " warna {color}",
+  "cart.unavailable": "Maaf, keranjang Anda tidak dapat diakses saat ini. Silakan coba lagi nanti.",
+
+  // Shipping estimates ("ongkir ke Surabaya pakai JNE berapa?")
+  "shipping.title": "Estimasi ongkos kirim ke **{destination}** untuk paket {weight}:",
+  "shipping.parcelProduct": "Paket: **{name}**",
+  "shipping.parcelCart": "Paket: isi keranjang Anda ({count} barang)",
+  "shipping.quote": "- **{courier} {service}**: {cost}, estimasi {eta}",
+  "shipping.etaRange": "{min}–{max} hari",
+  "shipping.etaDays": "{count} hari",
+  "shipping.free": "Gratis",
+  "shipping.freeForMember": "Sebagai member {level}, Anda mendapat gratis ongkir untuk pesanan ini. 🎉",
+  "shipping.freeRemaining": "Belanja {remaining} lagi untuk mendapat gratis ongkir member {level}.",
+  "shipping.freeThreshold": "Member {level} mendapat gratis ongkir untuk pembelian di atas {threshold}.",
+  "shipping.disclaimer": "Ongkos kirim final dihitung saat checkout.",
+  "shipping.noRates": "Maaf, pengiriman ke **{destination}** belum dapat diperkirakan. Silakan cek ongkos kirim saat checkout.",
+  "shipping.courierUnavailable": "Maaf, {courier} belum tersedia untuk pengiriman ke **{destination}**. Silakan pilih kurir lain.",
+  "shipping.unavailable": "Maaf, estimasi ongkos kirim tidak dapat dihitung saat ini. Silakan coba lagi nanti.",
+
+  // Orders
+  "order.notFound": "Maaf, saya tidak dapat menemukan pesanan dengan ID tersebut. Mohon periksa kembali nomor pesanan Anda.",
+  "order.title": "Informasi Pesanan **{id}**:",
+  "order.status": "Status: **{status}**",
+  "order.date": "Tanggal Pemesanan: {date}",
+  "order.trackingNumber": "Nomor Pelacakan: {trackingNumber}",
+  "order.inTransit": "Pesanan Anda sedang dalam perjalanan. Anda dapat melacak pengiriman dengan nomor pelacakan di atas.",
+  "order.details": "Detail Pesanan:",
+  "order.total": "Total: {amount}",
+  "order.status.pending": "Menunggu Pembayaran",
+  "order.status.processing": "Sedang Diproses",
+  "order.status.shipped": "Dalam Pengiriman",
+  "order.status.delivered": "Telah Diterima",
+  "order.status.cancelled": "Dibatalkan",
+  "tracking.title": "Pelacakan paket **{courier}** dengan resi **{waybill}**:",
+  "tracking.status": "Status pengiriman: **{status}**",
+  "tracking.status.pending_pickup": "Menunggu Dijemput Kurir",
+  "tracking.status.picked_up": "Diterima Kurir",
+  "tracking.status.in_transit": "Dalam Perjalanan",
+  "tracking.status.out_for_delivery": "Sedang Diantar",
+  "tracking.status.delivered": "Telah Diterima",
+  "tracking.status.returned": "Dikembalikan ke Pengirim",
+  "tracking.status.exception": "Terkendala",
+  "tracking.eta": "Estimasi tiba: {date}",
+  "tracking.deliveredAt": "Diterima pada {date}",
+  "tracking.deliveredTo": "Diterima pada {date} oleh {receiver}",
+  "tracking.latest": "Riwayat terakhir:",
+  "tracking.checkpoint": "- {time}: {description}",
+  "tracking.checkpointAt": "- {time}, {location}: {description}",
+  "tracking.exceptionHelp": "Pengiriman sedang terkendala. Hubungi customer service kami agar kami bantu tindak lanjuti dengan kurir.",
+  "tracking.notFound": "Maaf, resi **{waybill}** belum dapat dilacak. Pastikan nomor resinya benar; data kurir biasanya muncul beberapa jam setelah paket dikirim.",
+
+  // Order history ("riwayat pesanan", "pesanan yang dibatalkan bulan lalu")
+  "orders.title": "Pesanan Anda{filter}:",
+  "orders.filter": " ({filters})",
+  "orders.dateRange": "{from} – {to}",
+  "orders.item": "{position}. **{id}** · {date} · {status} · {total}",
+  "orders.showing": "Menampilkan {start}–{end} dari {count} pesanan.",
+  "orders.askDetails": "Pilih pesanan atau ketik nomor urutnya (misalnya \"nomor 1\") untuk melihat detail dan pengirimannya.",
+  "orders.empty": "Belum ada pesanan di akun Anda.",
+  "orders.emptyFiltered": "Tidak ada pesanan{filter} di akun Anda.",
+  "orders.outOfRange": "Tidak ada pesanan nomor {position} di daftar. Silakan pilih nomor yang ditampilkan.",
+  "orders.lastPage": "Itu sudah semua pesanan di daftar Anda.",
+  "orders.firstPage": "Ini sudah halaman pertama daftar pesanan Anda.",
+  "orders.pageOutOfRange": "Daftar pesanan Anda hanya memiliki {count} halaman.",
+  "orders.loginRequired": "Untuk melihat riwayat pesanan, silakan masuk (login) ke akun Anda di website Aninka terlebih dahulu, lalu buka chat ini kembali. Jika Anda tahu nomor pesanan atau nomor resinya, kirim saja nomornya (contoh: ORD-001).",
+  "orders.unavailable": "Maaf, riwayat pesanan Anda tidak dapat dimuat saat ini. Silakan coba lagi nanti.",
+
+  // Order cancellation
+  "cancel.askOrderId": "Baik, saya bantu membatalkan pesanan Anda. Nomor pesanan mana yang ingin dibatalkan?",
+  "cancel.orderNotFound": "Maaf, saya tidak dapat menemukan pesanan **{id}**. Mohon kirimkan nomor pesanan yang benar, atau ketik \"tidak\" untuk berhenti.",
+  "cancel.notCancellable": "Pesanan **{id}** berstatus **{status}** sehingga tidak dapat dibatalkan. " +
+    "Hanya pesanan yang masih menunggu pembayaran atau sedang diproses yang dapat dibatalkan. " +
+    "Silakan hubungi customer service kami untuk bantuan lebih lanjut.",
+  "cancel.confirm": "Pesanan **{id}** ({status}, total {total}) dapat dibatalkan.\n\n" +
+    "Apakah Anda yakin ingin membatalkan pesanan ini? Balas **ya** atau **tidak**.",
+  "cancel.success": "Pesanan **{id}** berhasil dibatalkan. " +
+    "Jika Anda sudah melakukan pembayaran, dana akan dikembalikan sesuai metode pembayaran Anda.",
+  "cancel.rejected": "Maaf, pesanan **{id}** tidak dapat dibatalkan.",
+  "cancel.rejectedWithReason": "Maaf, pesanan **{id}** tidak dapat dibatalkan: {reason}",
+  "cancel.unavailable": "Maaf, pesanan **{id}** tidak dapat dibatalkan saat ini. Silakan coba lagi nanti atau hubungi customer service kami.",
+  "cancel.declined": "Baik, pesanan **{id}** tidak jadi dibatalkan. Ada lagi yang bisa saya bantu?",
+  "cancel.stopped": "Baik, pembatalan pesanan tidak dilanjutkan. Ada lagi yang bisa saya bantu?",
+  "cancel.reminderConfirmation": "(Pembatalan pesanan {id} masih menunggu konfirmasi Anda. Balas **ya** atau **tidak**.)",
+  "cancel.reminderOrderId": "(Anda belum menyebutkan nomor pesanan yang ingin dibatalkan. Kirimkan nomor pesanannya, atau ketik \"tidak\" untuk berhenti.)",
+
+  // Order access: guests verify an order with the email or phone used at checkout
+  "access.askContact": "Demi keamanan data Anda, mohon kirimkan email atau nomor HP yang digunakan saat memesan **{id}**. " +
+    "Jika Anda memiliki akun, Anda juga bisa login untuk melihat pesanan tanpa verifikasi.",
+  "access.contactMismatch": "Maaf, email atau nomor HP tersebut tidak cocok dengan pesanan **{id}**. Sisa percobaan: {count} kali.",
+  "access.locked": "Terlalu banyak percobaan verifikasi yang gagal. Demi keamanan, verifikasi pesanan dikunci selama {minutes} menit. " +
+    "Silakan login ke akun Anda atau hubungi customer service kami.",
+  "access.notOwned": "Pesanan **{id}** tidak ditemukan di akun Anda. Mohon periksa kembali nomor pesanannya.",
+  "access.stopped": "Baik, verifikasi pesanan tidak dilanjutkan. Ada lagi yang bisa saya bantu?",
+  "access.reminder": "(Pesanan {id} masih menunggu verifikasi. Kirimkan email atau nomor HP pemesan, atau ketik \"tidak\" untuk berhenti.)",
+
+  // Membership
+  "user.notFound": "Maaf, saya tidak dapat menemukan informasi pengguna. Mohon pastikan Anda sudah login.",
+  "user.loginRequired": "Untuk melihat status keanggotaan Anda, silakan login terlebih dahulu.",
+  "user.unavailable": "Maaf, saya tidak dapat mengakses informasi keanggotaan Anda saat ini. Silakan coba lagi nanti atau hubungi customer service kami.",
+  "user.title": "Informasi Keanggotaan **{name}**:",
+  "user.level": "Level Keanggotaan: **{level}**",
+  "user.points": "Poin: {count} poin",
+  "user.since": "Terdaftar sejak: {date}",
+  "user.benefitsTitle": "Manfaat Keanggotaan {level}:",
+  "user.benefits.bronze": "- Diskon 5% untuk setiap pembelian\n- Akses ke promo khusus member",
+  "user.benefits.silver": "- Diskon 10% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk pembelian di atas {threshold}",
+  "user.benefits.gold": "- Diskon 15% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk semua pembelian\n- Prioritas layanan pelanggan",
+  "user.benefits.platinum": "- Diskon 20% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk semua pembelian\n- Prioritas layanan pelanggan\n- Akses ke koleksi terbatas",
+  "user.benefits.other": "- Silakan hubungi customer service untuk informasi lebih lanjut tentang manfaat keanggotaan Anda.",
+
+  // Quick replies and handoff to customer service
+  "quickReply.searchProducts": "Cari produk",
+  "quickReply.trackOrder": "Cek status pesanan",
+  "quickReply.membership": "Info keanggotaan saya",
+  "quickReply.cancelOrder": "Batalkan pesanan {id}",
+  "quickReply.nextPage": "Lihat lagi",
+  "quickReply.previousPage": "Sebelumnya",
+  "quickReply.viewCart": "Lihat keranjang",
+  "quickReply.yes": "Ya",
+  "quickReply.no": "Tidak",
+  "handoff.customerService": "Hubungi Customer Service",
+
+  // Knowledge base
+  "sources.title": "Sumber:",
+
+  // LLM
+  "llm.unknown": "Maaf, saya tidak memiliki informasi tersebut saat ini.",
+  // Template answers once the daily LLM token budget is used up
+  "llm.knowledgeAnswer": "Berikut informasi yang mungkin membantu:",
+  "llm.limited": "Maaf, untuk sementara saya hanya dapat membantu mencari produk, melacak pesanan, mengelola keranjang, menghitung ongkos kirim dan menampilkan status keanggotaan. Untuk pertanyaan lainnya, silakan hubungi customer service kami.",
+
+  // WhatsApp
+  "whatsapp.textOnly": "Maaf, saat ini saya hanya dapat membaca pesan teks.",
+  "whatsapp.error": "Maaf, terjadi kesalahan saat memproses pesan Anda. Silakan coba lagi.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ID_MESSAGES;
@@ -0,0 +1,71 @@
+/**
+ * ContactExtractor.ts
+ * Service for reading the email address or phone number a guest gives to prove
+ * an order is theirs, and for comparing it with the contact on the order
+ */
+
+export interface CustomerContact {
+  // Lowercased, e.g. "budi@example.com"
+  email?: string;
+  // Digits with the country code, e.g. "6281234567890"
+  phone?: string;
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+
+// Indonesian mobile numbers: "0812-3456-7890", "+62 812 3456 7890", "62812..."
+const PHONE_PATTERN = /(?:\+?62|0)[\s.-]?8\d(?:[\s.-]?\d){6,11}/;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Write a phone number as digits with the country code, so "0812..." matches "+62812..."
+ */
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("0")) {
+    return `62${digits.slice(1)}`;
+  }
+  return digits.startsWith("8") ? `62${digits}` : digits;
+};
+
+/**
+ * Find an email address or Indonesian phone number in a message
+ * @returns The contact, or null if the message contains neither
+ */
+export const extractContact = (message: string): CustomerContact | null => {
+  const email = message.match(EMAIL_PATTERN)?.[0];
+  const phone = message.replace(EMAIL_PATTERN, " ").match(PHONE_PATTERN)?.[0];
+
+  if (!email && !phone) {
+    return null;
+  }
+  return {
+    ...(email ? { email: normalizeEmail(email) } : {}),
+    ...(phone ? { phone: normalizePhone(phone) } : {})
+  };
+};
+
+/**
+ * Whether a given contact matches the email or phone recorded on an order
+ */
+export const matchesContact = (
+  given: CustomerContact,
+  recorded: { email?: string; phone?: string }
+): boolean => {
+  const emailMatches = Boolean(given.email && recorded.email && normalizeEmail(recorded.email) === given.email);
+  const phoneMatches = Boolean(given.phone && recorded.phone && normalizePhone(recorded.phone) === given.phone);
+  return emailMatches || phoneMatches;
+};
+
+/**
+ * Hide most of a contact for logs, e.g. "b***@example.com" or "62812****890"
+ */
+export const maskContact = (contact: CustomerContact): string => {
+  if (contact.email) {
+    const [name, domain] = contact.email.split("@");
+    return `${name.charAt(0)}***@${domain}`;
+  }
+  const phone = contact.phone ?? "";
+  return phone.length > 8 ? `${phone.slice(0, 5)}****${phone.slice(-3)}` : "****";
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { extractEntities } from './EntityExtractor';
+import { Intent, classifyWithRules } from './IntentClassifier';
+
+describe('extractEntities order_id', () => {
+  it('reads order numbers after an order keyword or on their own', () => {
+    expect(extractEntities('cek pesanan ORD-002').order_id).toBe('ORD-002');
+    expect(extractEntities('order #12345 sudah sampai mana?').order_id).toBe('12345');
+    expect(extractEntities('nomor pesanan 12345').order_id).toBe('12345');
+    expect(extractEntities('tolong cek ord-7 ya').order_id).toBe('ORD-7');
+  });
+
+  it('does not read a position in the results as an order number', () => {
+    expect(extractEntities('lihat detail yang nomor 2').order_id).toBeUndefined();
+    expect(extractEntities('masukkan yang nomor 1 ke keranjang').order_id).toBeUndefined();
+    expect(extractEntities('show me the number 3').order_id).toBeUndefined();
+  });
+
+  it('only matches keywords as whole words', () => {
+    expect(extractEntities('gamis identik 2 warna').order_id).toBeUndefined();
+    expect(extractEntities('ukuran anorder12').order_id).toBeUndefined();
+  });
+
+  it('reads a prefixed order number after "nomor"', () => {
+    expect(extractEntities('yang nomor ORD-003').order_id).toBe('ORD-003');
+  });
+});
+
+describe('classifyWithRules with result positions', () => {
+  it('does not track an order for "yang nomor N"', () => {
+    expect(classifyWithRules('lihat detail yang nomor 2').intent).not.toBe(Intent.ORDER_TRACKING);
+    expect(classifyWithRules('masukkan yang nomor 1 ke keranjang').intent).toBe(Intent.CART);
+  });
+});
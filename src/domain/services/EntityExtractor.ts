@@ -3,6 +3,13 @@
  * Service for extracting entities from user messages
  */
 
+import { extractPriceRange, removeSpans } from "./PriceExtractor";
+import { normalizeText, NormalizedText } from "./TextNormalizer";
+import { tokenize, tokenizeClauses, findPhrases, containsPhrase, PhraseMatch } from "./Tokenizer";
+import { extractDestination, extractCourier, extractWeight } from "./ShippingExtractor";
+import { extractWaybill, extractBareWaybill } from "./WaybillExtractor";
+import { isOrderHistoryRequest, extractOrderStatus, extractDateRange } from "./OrderFilterExtractor";
+
 export interface ExtractedEntities {
   product_name?: string;
   product_keywords?: string[];
@@ -11,11 +18,34 @@ export interface ExtractedEntities {
   category?: string;
   order_id?: string;
   order_keywords?: string[];
+  // Courier waybill (resi) number, e.g. "JP1234567890"
+  waybill?: string;
+  // Asks for the list of orders, e.g. "riwayat pesanan" or "pesanan yang dibatalkan bulan lalu"
+  order_history?: boolean;
+  // Order status to list, e.g. "cancelled"
+  order_status?: string;
+  // Period to list orders from, as YYYY-MM-DD dates
+  order_date_from?: string;
+  order_date_to?: string;
   user_status?: boolean;
-  user_id?: string;
   menu_query?: boolean;
   order_action?: "cancel" | "return" | "refund";
+  cart_action?: "add" | "view" | "remove" | "update";
+  // Number of items for a cart action, e.g. 2 for "ubah jumlah jadi 2"
+  quantity?: number;
+  shipping_query?: boolean;
+  destination_city?: string;
+  destination_province?: string;
+  // Courier code, e.g. "jne" or "jnt"
+  courier?: string;
+  // Parcel weight in grams
+  weight?: number;
   general_faq?: boolean;
+  min_price?: number;
+  max_price?: number;
+  // Values the customer ruled out, e.g. "bukan yang merah"
+  exclude_colors?: string[];
+  exclude_categories?: string[];
 }
 
 // Warna umum dalam bahasa Indonesia & Inggris
@@ -44,6 +74,11 @@ const PRODUCT_KEYWORDS = [
   "dompet","wallet","cari","search","find","temukan","rekomendasi","recommendation"
 ];
 
+// Product keywords that say a product is wanted without naming it
+const GENERIC_PRODUCT_WORDS = [
+  "produk","barang","item","cari","search","find","temukan","rekomendasi","recommendation"
+];
+
 // Order-related keywords
 const ORDER_KEYWORDS = [
   "order","pesanan","pembelian","purchase","tracking","lacak","status",
@@ -53,6 +88,41 @@ const ORDER_KEYWORDS = [
   "order number","id pesanan","order id","cek pesanan","check order"
 ];
 
+// Order action keywords; suffixed forms such as "batalkan" match too
+const CANCEL_WORDS = ["cancel", "batal", "membatalkan", "dibatalkan", "pembatalan"];
+const RETURN_WORDS = ["return", "pengembalian", "retur"];
+const REFUND_WORDS = ["refund"];
+
+// Cart keywords; "masukkan", "tambahkan" and "keranjangnya" match through their suffixes
+const CART_WORDS = ["keranjang", "cart", "troli", "trolley", "basket"];
+const CART_ADD_WORDS = ["masuk", "masukin", "tambah", "taruh", "simpan", "add", "put"];
+const CART_REMOVE_WORDS = ["hapus", "buang", "keluar", "remove", "delete"];
+const CART_UPDATE_WORDS = ["ubah", "ganti", "jadi", "update", "change", "set"];
+// Words naming what is in the cart, for "hapus item" without the word "keranjang"
+const CART_ITEM_WORDS = ["item", "barang", "produk"];
+const QUANTITY_WORDS = ["jumlah", "jumlahnya", "qty", "quantity", "banyaknya"];
+
+// "jadi 2", "jumlah 3", "qty: 2", "2 pcs", "3 buah"
+const QUANTITY_REGEXES = [
+  /(?:jadi|jadikan|menjadi|to)\s+(\d{1,4})\b/i,
+  /(?:jumlah(?:nya)?|qty|quantity)\s*[:=]?\s*(\d{1,4})\b/i,
+  /\b(\d{1,4})\s*(?:pcs|pc|buah|biji|potong|lembar|pasang|items?)\b/i,
+];
+
+// Shipping cost and delivery time questions; "pengiriman" alone is about an order
+const SHIPPING_KEYWORDS = [
+  "ongkir","ongkos kirim","biaya kirim","biaya pengiriman","tarif kirim","tarif pengiriman",
+  "cek ongkir","shipping","shipping cost","shipping fee","delivery fee","delivery cost",
+  "berapa lama sampai","berapa hari sampai","estimasi sampai","estimasi pengiriman","how long to deliver"
+];
+// "ada gratis ongkir?" asks about the policy, answered from the knowledge base
+const FREE_SHIPPING_PHRASES = ["gratis ongkir","free ongkir","free shipping"];
+
+// Words that rule out what follows them, up to the end of the clause
+const NEGATION_WORDS = ["bukan", "jangan", "tanpa", "selain", "kecuali"];
+// Words that end a negation early: "bukan merah tapi biru"
+const NEGATION_END_WORDS = ["tapi", "tetapi", "namun", "melainkan", "but"];
+
 // Category mapping: keyword → category
 const CATEGORY_KEYWORDS: Record<string, string> = {
   // Fashion umum
@@ -94,7 +164,7 @@ const CATEGORY_KEYWORDS: Record<string, string> = {
 
 // User-related keywords
 const USER_STATUS_KEYWORDS = [
-  "status saya","status user","akun saya","membership","keanggotaan",
+  "status saya","status user","status akun","akun saya","membership","keanggotaan",
   "user status","my account","profil saya"
 ];
 
@@ -110,19 +180,128 @@ const GENERAL_FAQ_KEYWORDS = [
   "perusahaan","brand","official","resmi","apa fungsi","apa gunanya"
 ];
 
+// Keywords that misspelled words are corrected to before extraction
+const NORMALIZATION_VOCABULARY = [...new Set([
+  ...PRODUCT_KEYWORDS,
+  ...Object.keys(CATEGORY_KEYWORDS),
+  ...COLOR_KEYWORDS,
+  ...SIZE_KEYWORDS,
+  ...CART_WORDS,
+])].filter((keyword) => /^[a-z]+$/.test(keyword));
+
+// A message that is only an order reference, e.g. "ORD-002", "#123" or "123"
+const BARE_ORDER_ID_REGEX = /^#?\s*([a-z]{0,5}-?\d+)$/i;
+
+/**
+ * Read a message consisting of nothing but an order number
+ * @returns The order ID, or undefined if the message is something else
+ */
+export const extractBareOrderId = (message: string): string | undefined => {
+  // "JP1234567890" is a waybill number, not an order
+  if (extractBareWaybill(message)) {
+    return undefined;
+  }
+  const match = message.trim().match(BARE_ORDER_ID_REGEX);
+  return match ? match[1].toUpperCase() : undefined;
+};
+
+/**
+ * Expand slang and correct misspelled product, category, color and size keywords,
+ * e.g. "gmis item ukrn XL" → "gamis hitam ukuran XL"
+ */
+export const normalizeMessage = (message: string): NormalizedText => {
+  return normalizeText(message, NORMALIZATION_VOCABULARY);
+};
+
+/**
+ * Find the token positions inside a negation, from "bukan", "jangan", "tanpa",
+ * "selain" or "kecuali" to the end of the clause or a contrast word such as "tapi"
+ */
+const findNegatedPositions = (text: string): Set<number> => {
+  const negated = new Set<number>();
+  let position = 0;
+
+  for (const clause of tokenizeClauses(text)) {
+    let inScope = false;
+    for (const token of clause) {
+      if (NEGATION_END_WORDS.includes(token)) {
+        inScope = false;
+      } else if (NEGATION_WORDS.includes(token)) {
+        inScope = true;
+      } else if (inScope) {
+        negated.add(position);
+      }
+      position++;
+    }
+  }
+
+  return negated;
+};
+
+/**
+ * Split keyword matches into those stated positively and those inside a negation
+ */
+const partitionMatches = (
+  matches: PhraseMatch[],
+  negated: Set<number>
+): { included: PhraseMatch[]; excluded: PhraseMatch[] } => {
+  const isNegated = (match: PhraseMatch) => negated.has(match.start);
+  return {
+    included: matches.filter((match) => !isNegated(match)),
+    excluded: matches.filter(isNegated),
+  };
+};
+
+const byPosition = (a: PhraseMatch, b: PhraseMatch) => a.start - b.start;
+
+const uniquePhrases = (matches: PhraseMatch[]): string[] => [...new Set(matches.map((match) => match.phrase))];
+
+// An order number after a keyword: "pesanan ORD-002", "order #123", "nomor 2"
+const ORDER_ID_REGEX = /\b(order|pesanan|tracking|lacak|status|nomor|number|id)\b\s*[#:]?\s*([a-z]{2,5}-\d+|\d+)\b/gi;
+// Prefixed order numbers such as "ORD-002" are recognised on their own
+const PREFIXED_ORDER_ID_REGEX = /\b(ord-\d+)\b/i;
+// Keywords that also introduce a position in the results shown: "yang nomor 2"
+const POSITION_KEYWORDS = ["nomor", "number", "id"];
+
+/**
+ * Find an order number in the message. A plain number after "nomor" is only an order
+ * number in a message about orders that does not point at a result ("yang nomor 2").
+ */
+const findOrderId = (message: string, mentionsOrder: boolean): string | undefined => {
+  for (const match of message.matchAll(ORDER_ID_REGEX)) {
+    const [, keyword, value] = match;
+    if (/^[a-z]{2,5}-\d+$/i.test(value) || !POSITION_KEYWORDS.includes(keyword.toLowerCase())) {
+      return value;
+    }
+
+    const isReference = /\b(?:yang|the)\s*$/i.test(message.slice(0, match.index));
+    if (mentionsOrder && !isReference) {
+      return value;
+    }
+  }
+
+  return message.match(PREFIXED_ORDER_ID_REGEX)?.[1];
+};
+
 /**
  * Extract entities from a user message
  */
 export const extractEntities = (message: string): ExtractedEntities => {
   const lowercaseMessage = message.toLowerCase();
+  const tokens = tokenize(lowercaseMessage);
+  const negated = findNegatedPositions(lowercaseMessage);
   const entities: ExtractedEntities = {};
 
   // ===== Category =====
-  for (const [kw, cat] of Object.entries(CATEGORY_KEYWORDS)) {
-    if (lowercaseMessage.includes(kw)) {
-      entities.category = cat;
-      break;
-    }
+  // Mapping order decides between several categories; negated ones are excluded
+  const categoryMatches = partitionMatches(findPhrases(tokens, Object.keys(CATEGORY_KEYWORDS)), negated);
+  if (categoryMatches.included.length > 0) {
+    entities.category = CATEGORY_KEYWORDS[categoryMatches.included[0].phrase];
+  }
+  if (categoryMatches.excluded.length > 0) {
+    entities.exclude_categories = [...new Set(
+      categoryMatches.excluded.map((match) => CATEGORY_KEYWORDS[match.phrase])
+    )].filter((category) => category !== entities.category);
   }
 
   // Default fallback kategori kalau tidak ketemu
@@ -132,77 +311,159 @@ export const extractEntities = (message: string): ExtractedEntities => {
 
 
   // ===== Product Keywords =====
-  const productMatches = PRODUCT_KEYWORDS.filter((kw) =>
-    lowercaseMessage.includes(kw)
+  const productMatches = uniquePhrases(
+    partitionMatches(findPhrases(tokens, PRODUCT_KEYWORDS), negated).included
   );
   if (productMatches.length > 0) {
     entities.product_keywords = productMatches;
-    // anggap product_name = kata produk pertama yg ditemukan
-    entities.product_name = productMatches[0];
+    // anggap product_name = kata produk pertama yg ditemukan,
+    // kecuali kata umum seperti "cari" atau "produk" yang tidak menyebut produknya
+    const specificMatch = productMatches.find((kw) => !GENERIC_PRODUCT_WORDS.includes(kw));
+    if (specificMatch) {
+      entities.product_name = specificMatch;
+    }
   }
 
   // ===== Order Keywords =====
-  const orderMatches = ORDER_KEYWORDS.filter((kw) =>
-    lowercaseMessage.includes(kw)
-  );
+  const orderMatches = uniquePhrases(findPhrases(tokens, ORDER_KEYWORDS));
   if (orderMatches.length > 0) {
     entities.order_keywords = orderMatches;
   }
 
   // ===== Order ID =====
-  const orderIdRegex =
-    /(?:order|pesanan|tracking|lacak|status|nomor|number|id)\s*[#:]?\s*(\d+)/i;
-  const orderIdMatch = lowercaseMessage.match(orderIdRegex);
-  if (orderIdMatch && orderIdMatch[1]) {
-    entities.order_id = orderIdMatch[1];
+  const orderId = findOrderId(message, Boolean(entities.order_keywords));
+  if (orderId) {
+    entities.order_id = orderId.toUpperCase();
+  }
+
+  // ===== Waybill =====
+  // "cek resi JP1234567890" or a message that is only the number; a waybill
+  // caught by the order ID pattern ("tracking number 0012...") is not an order
+  const waybill = extractWaybill(message) ?? extractBareWaybill(message);
+  if (waybill) {
+    entities.waybill = waybill;
+    if (entities.order_id === waybill) {
+      delete entities.order_id;
+    }
+  }
+
+  // ===== Order History =====
+  // A status or period turns an order question into a list: "pesanan yang dikirim bulan ini"
+  const asksHistory = isOrderHistoryRequest(tokens);
+  if (asksHistory || entities.order_keywords) {
+    const status = extractOrderStatus(tokens);
+    const period = extractDateRange(tokens);
+    if (status) {
+      entities.order_status = status;
+    }
+    if (period) {
+      entities.order_date_from = period.from;
+      entities.order_date_to = period.to;
+    }
+    if (asksHistory || status || period) {
+      entities.order_history = true;
+    }
   }
 
   // ===== Order Actions =====
-  if (lowercaseMessage.includes("cancel") || lowercaseMessage.includes("batal")) {
+  // "jangan dibatalkan" is not a cancellation request, and neither is "pesanan yang dibatalkan"
+  const hasAction = (words: string[]) =>
+    partitionMatches(findPhrases(tokens, words), negated).included.length > 0;
+  if (hasAction(CANCEL_WORDS) && entities.order_status !== "cancelled") {
     entities.order_action = "cancel";
-  } else if (
-    lowercaseMessage.includes("return") ||
-    lowercaseMessage.includes("pengembalian")
-  ) {
+  } else if (hasAction(RETURN_WORDS)) {
     entities.order_action = "return";
-  } else if (lowercaseMessage.includes("refund")) {
+  } else if (hasAction(REFUND_WORDS)) {
     entities.order_action = "refund";
   }
 
+  // ===== Cart Actions =====
+  // Removing and changing quantities also work without "keranjang": "hapus item nomor 2"
+  const mentionsCart = containsPhrase(tokens, CART_WORDS);
+  const mentionsCartItem = mentionsCart || containsPhrase(tokens, CART_ITEM_WORDS);
+  const mentionsQuantity = containsPhrase(tokens, QUANTITY_WORDS);
+  if (mentionsCartItem && hasAction(CART_REMOVE_WORDS)) {
+    entities.cart_action = "remove";
+  } else if (mentionsQuantity && (hasAction(CART_UPDATE_WORDS) || mentionsCart)) {
+    entities.cart_action = "update";
+  } else if (mentionsCart && hasAction(CART_ADD_WORDS)) {
+    entities.cart_action = "add";
+  } else if (mentionsCart) {
+    entities.cart_action = "view";
+  }
+
+  if (entities.cart_action) {
+    const quantityMatch = QUANTITY_REGEXES.map((regex) => message.match(regex)).find(Boolean);
+    if (quantityMatch) {
+      entities.quantity = Number(quantityMatch[1]);
+    }
+  }
+
+  // ===== Shipping =====
+  // A courier alone counts too ("kalau pakai JNE?"), unless an order or a parcel is meant ("resi JNE saya")
+  const courier = extractCourier(tokens);
+  const destination = extractDestination(tokens);
+  const asksPolicy = containsPhrase(tokens, FREE_SHIPPING_PHRASES) && !destination;
+  if (!asksPolicy && (containsPhrase(tokens, SHIPPING_KEYWORDS) || (courier && !entities.order_keywords && !entities.waybill))) {
+    entities.shipping_query = true;
+  }
+  if (destination?.city) {
+    entities.destination_city = destination.city;
+  }
+  if (destination) {
+    entities.destination_province = destination.province;
+  }
+  if (courier) {
+    entities.courier = courier;
+  }
+  const weight = entities.shipping_query ? extractWeight(message) : undefined;
+  if (weight !== undefined) {
+    entities.weight = weight;
+  }
+
   // ===== Color =====
-  const colorMatch = COLOR_KEYWORDS.find((c) => lowercaseMessage.includes(c));
-  if (colorMatch) {
-    entities.color = colorMatch;
+  // "bukan yang merah" excludes a color instead of asking for it
+  const colorMatches = partitionMatches(findPhrases(tokens, COLOR_KEYWORDS).sort(byPosition), negated);
+  if (colorMatches.included.length > 0) {
+    entities.color = colorMatches.included[0].phrase;
+  }
+  const excludedColors = uniquePhrases(colorMatches.excluded).filter((color) => color !== entities.color);
+  if (excludedColors.length > 0) {
+    entities.exclude_colors = excludedColors;
+  }
+
+  // ===== Price Range =====
+  const priceRange = extractPriceRange(lowercaseMessage);
+  if (priceRange.min_price !== undefined) {
+    entities.min_price = priceRange.min_price;
+  }
+  if (priceRange.max_price !== undefined) {
+    entities.max_price = priceRange.max_price;
   }
 
   // ===== Size =====
-  const sizeMatch = SIZE_KEYWORDS.find((s) => {
-    const regex = new RegExp(`\\b${s}\\b`, "i");
-    return regex.test(lowercaseMessage);
-  });
-  if (sizeMatch) {
-    entities.size = sizeMatch;
+  // Prices are left out so "40 ribu" is not read as size 40
+  const messageWithoutPrices = removeSpans(lowercaseMessage, priceRange.spans);
+  const sizeMatches = partitionMatches(
+    findPhrases(tokenize(messageWithoutPrices), SIZE_KEYWORDS),
+    findNegatedPositions(messageWithoutPrices)
+  ).included;
+  if (sizeMatches.length > 0) {
+    entities.size = sizeMatches[0].phrase;
   }
 
   // ===== User Status =====
-  if (USER_STATUS_KEYWORDS.some((kw) => lowercaseMessage.includes(kw))) {
+  if (containsPhrase(tokens, USER_STATUS_KEYWORDS)) {
     entities.user_status = true;
   }
   
-  // ===== User ID =====
-  const userIdRegex = /(?:user|pengguna|member|anggota|akun|account)\s*[#:]?\s*(\d+)/i;
-  const userIdMatch = lowercaseMessage.match(userIdRegex);
-  if (userIdMatch && userIdMatch[1]) {
-    entities.user_id = userIdMatch[1];
-  }
-
   // ===== Menu Query =====
-  if (MENU_KEYWORDS.some((kw) => lowercaseMessage.includes(kw))) {
+  if (containsPhrase(tokens, MENU_KEYWORDS)) {
     entities.menu_query = true;
   }
 
   // ===== General FAQ =====
-  if (GENERAL_FAQ_KEYWORDS.some((kw) => lowercaseMessage.includes(kw))) {
+  if (containsPhrase(tokens, GENERAL_FAQ_KEYWORDS)) {
     entities.general_faq = true;
   }
 
@@ -0,0 +1,123 @@
+/**
+ * I18n.ts
+ * Message catalog lookup with placeholders, plural forms and locale-aware
+ * currency and date formatting for Indonesian (id) and English (en)
+ */
+
+import { ID_MESSAGES, MessageKey } from "../i18n/id";
+import { EN_MESSAGES } from "../i18n/en";
+
+export type Language = "id" | "en";
+
+export const DEFAULT_LANGUAGE: Language = "id";
+
+// Plural forms keyed by Intl.PluralRules category; "other" is required
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+// A plain text, variants picked at random, or plural forms chosen by {count}
+export type Message = string | string[] | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+const BUNDLES: Record<Language, Record<MessageKey, Message>> = {
+  id: ID_MESSAGES,
+  en: EN_MESSAGES,
+};
+
+const LOCALES: Record<Language, string> = {
+  id: "id-ID",
+  en: "en-US",
+};
+
+// Dates and times are shown in Western Indonesia Time, where the store and its couriers operate
+const STORE_TIME_ZONE = "Asia/Jakarta";
+
+// Language names as written in the English LLM system prompt
+const LANGUAGE_NAMES: Record<Language, string> = {
+  id: "Indonesian",
+  en: "English",
+};
+
+export type { MessageKey };
+
+export const isLanguage = (value: unknown): value is Language => value === "id" || value === "en";
+
+export const getLocale = (language: Language): string => LOCALES[language];
+
+export const getLanguageName = (language: Language): string => LANGUAGE_NAMES[language];
+
+/**
+ * Replace {name} placeholders; unknown placeholders are left as they are
+ */
+const interpolate = (text: string, params: MessageParams): string => {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * Pick the text of a message for the given parameters
+ */
+const resolveMessage = (message: Message, language: Language, params: MessageParams): string => {
+  if (typeof message === "string") {
+    return message;
+  }
+  if (Array.isArray(message)) {
+    return message[Math.floor(Math.random() * message.length)];
+  }
+
+  const count = Number(params.count ?? 0);
+  const category = new Intl.PluralRules(getLocale(language)).select(count) as keyof PluralMessage;
+  return message[category] ?? message.other;
+};
+
+/**
+ * Translate a catalog message, falling back to Indonesian for missing keys
+ * @param params Placeholder values; `count` also selects the plural form
+ */
+export const t = (language: Language, key: MessageKey, params: MessageParams = {}): string => {
+  const message = BUNDLES[language]?.[key] ?? ID_MESSAGES[key];
+  return interpolate(resolveMessage(message, language, params), params);
+};
+
+/**
+ * Format an amount in Rupiah, e.g. "Rp 350.000" (id) or "IDR 350,000" (en)
+ */
+export const formatCurrency = (amount: number, language: Language = DEFAULT_LANGUAGE): string => {
+  const formatted = amount.toLocaleString(getLocale(language));
+  return language === "id" ? `Rp ${formatted}` : `IDR ${formatted}`;
+};
+
+/**
+ * Format a date with the month written out, e.g. "15 Oktober 2023" or "October 15, 2023"
+ */
+export const formatDate = (date: Date | string, language: Language = DEFAULT_LANGUAGE): string => {
+  return new Date(date).toLocaleDateString(getLocale(language), {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: STORE_TIME_ZONE,
+  });
+};
+
+/**
+ * Format a time with a short month, e.g. "18 Okt 2023, 09.20" or "Oct 18, 2023, 09:20"
+ */
+export const formatDateTime = (date: Date | string, language: Language = DEFAULT_LANGUAGE): string => {
+  return new Date(date).toLocaleString(getLocale(language), {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone: STORE_TIME_ZONE,
+  });
+};
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createConversationState, ConversationState } from '../entities/ConversationState';
+import { Intent, classifyIntent, setIntentModel } from './IntentClassifier';
+
+// A model giving the same prediction for every message
+const useModel = (intent: Intent, confidence: number) => setIntentModel({
+  intents: Object.values(Intent),
+  temperature: 1,
+  predict: () => ({ intent, confidence, probabilities: { [intent]: confidence } })
+});
+
+const afterSearch = (): ConversationState => {
+  const state = createConversationState('session');
+  state.currentIntent = Intent.PRODUCT_SEARCH;
+  state.context.lastProductResults = [
+    { id: 'P1', name: 'Kemeja Flanel', category: 'kemeja', price: 150000, inStock: true, color: 'merah', position: 1 },
+    { id: 'P2', name: 'Kemeja Oxford', category: 'kemeja', price: 175000, inStock: true, color: 'biru', position: 2 }
+  ];
+  return state;
+};
+
+describe('classifyIntent with a model', () => {
+  afterEach(() => {
+    setIntentModel(null);
+  });
+
+  it('uses a confident model prediction', () => {
+    useModel(Intent.SHIPPING, 0.9);
+    expect(classifyIntent('berapa lama sampai ke bandung?')).toMatchObject({ intent: Intent.SHIPPING, confidence: 0.9 });
+  });
+
+  it('keeps refining the search for an excluded color after results were shown', () => {
+    useModel(Intent.CART, 0.9);
+    const classification = classifyIntent('jangan yang merah', afterSearch());
+    expect(classification.intent).toBe(Intent.PRODUCT_SEARCH);
+    expect(classification.entities.exclude_colors).toEqual(['merah']);
+  });
+
+  it('keeps references to the shown results away from other intents', () => {
+    useModel(Intent.CART, 0.9);
+    expect(classifyIntent('yang kedua', afterSearch()).intent).toBe(Intent.PRODUCT_SEARCH);
+  });
+
+  it('keeps explicit cart and order actions', () => {
+    useModel(Intent.PRODUCT_SEARCH, 0.95);
+    expect(classifyIntent('masukkan nomor 1 ke keranjang', afterSearch()).intent).toBe(Intent.CART);
+    expect(classifyIntent('batalkan pesanan ORD-003').intent).toBe(Intent.ORDER_ACTION);
+  });
+
+  it('lets the model decide other messages after a search', () => {
+    useModel(Intent.ORDER_TRACKING, 0.9);
+    expect(classifyIntent('paketku kok belum datang', afterSearch()).intent).toBe(Intent.ORDER_TRACKING);
+  });
+});
@@ -3,13 +3,21 @@
  * Service for classifying user intents based on message content and entities
  */
 
-import { extractEntities, ExtractedEntities } from "./EntityExtractor";
+import { extractEntities, ExtractedEntities, normalizeMessage } from "./EntityExtractor";
 import { ConversationState } from "../entities/ConversationState";
+import { IntentModel } from "./IntentModel";
+import { TextCorrection } from "./TextNormalizer";
+import { resolveProductReference } from "./ReferenceResolver";
+import { tokenize, containsPhrase } from "./Tokenizer";
+import { t, Language, DEFAULT_LANGUAGE } from "./I18n";
 
 export interface IntentClassification {
   intent: Intent;
   confidence: number;
   entities: ExtractedEntities;
+  // The message after slang expansion and typo correction
+  normalizedMessage?: string;
+  corrections?: TextCorrection[];
 }
 
 // Intent types
@@ -23,6 +31,9 @@ export enum Intent {
   MENU_QUERY = "menu_query",
   ORDER_ACTION = "order_action",
   GENERAL_FAQ = "general_faq",
+  CART = "cart",
+  SHIPPING = "shipping",
+  ORDER_HISTORY = "order_history",
 }
 
 // Greeting patterns in Indonesian and English
@@ -32,25 +43,130 @@ const GREETING_PATTERNS = [
   "permisi", "excuse me", "hai", "apa kabar", "how are you",
 ];
 
+// Learned model used alongside the rules; null until one has been trained
+let intentModel: IntentModel | null = null;
+// Below this model confidence the rule engine decides instead
+let modelMinConfidence = 0.5;
+
+/**
+ * Use a trained model for classification, or null to go back to rules only
+ */
+export const setIntentModel = (model: IntentModel | null, minConfidence: number = 0.5): void => {
+  intentModel = model;
+  modelMinConfidence = minConfidence;
+};
+
+/**
+ * Whether a rule hit is reliable enough to overrule the model: explicit cart and
+ * order actions, and messages about the products just shown ("yang nomor 2",
+ * "jangan yang merah"), which the model reads without the conversation
+ */
+const isDecisiveRuleHit = (
+  ruleResult: IntentClassification,
+  message: string,
+  state?: ConversationState
+): boolean => {
+  if (ruleResult.intent === Intent.CART || ruleResult.intent === Intent.ORDER_ACTION) {
+    return true;
+  }
+
+  const results = state?.context.lastProductResults ?? [];
+  if (results.length === 0) {
+    return false;
+  }
+
+  const { entities } = ruleResult;
+  return Boolean(entities.exclude_colors?.length || entities.exclude_categories?.length) ||
+    resolveProductReference(message, entities, results) !== null;
+};
+
 /**
- * Classify user intent based on message content and conversation state
+ * Classify user intent based on message content and conversation state.
+ * The message is normalized first. When a model is loaded, its calibrated
+ * prediction wins whenever it is confident enough, unless the rules found
+ * a cart or order action or a reference to the last results.
  */
 export const classifyIntent = (
   message: string,
   state?: ConversationState
+): IntentClassification => {
+  const { text, corrections } = normalizeMessage(message);
+  const normalization = { normalizedMessage: text, corrections };
+
+  const ruleResult = classifyWithRules(text, state);
+  const prediction = intentModel?.predict(text);
+
+  if (!prediction || prediction.confidence < modelMinConfidence || isDecisiveRuleHit(ruleResult, text, state)) {
+    return { ...ruleResult, ...normalization };
+  }
+
+  return {
+    intent: prediction.intent,
+    confidence: prediction.confidence,
+    entities: prediction.intent === Intent.GREETING ? {} : extractEntities(text),
+    ...normalization,
+  };
+};
+
+/**
+ * Classify user intent with keyword rules and fixed confidences
+ */
+export const classifyWithRules = (
+  message: string,
+  state?: ConversationState
 ): IntentClassification => {
   const lowercaseMessage = message.toLowerCase();
   const entities: ExtractedEntities = extractEntities(message);
 
   // === GREETING ===
-  for (const pattern of GREETING_PATTERNS) {
-    if (lowercaseMessage.includes(pattern) && lowercaseMessage.length < 20) {
-      return {
-        intent: Intent.GREETING,
-        confidence: 0.9,
-        entities: {},
-      };
-    }
+  // Whole words only, so "hi" does not match "hitam"
+  if (lowercaseMessage.length < 20 && containsPhrase(tokenize(lowercaseMessage), GREETING_PATTERNS)) {
+    return {
+      intent: Intent.GREETING,
+      confidence: 0.9,
+      entities: {},
+    };
+  }
+
+  // === ORDER ACTION (cancel / return / refund) ===
+  // Checked before product search and order tracking, whose keywords
+  // ("pesanan", "cancel", "batal") also appear in these requests
+  if (entities.order_action) {
+    return {
+      intent: Intent.ORDER_ACTION,
+      confidence: 0.85,
+      entities,
+    };
+  }
+
+  // === CART ===
+  // Before product search: "masukkan gamis hitam ke keranjang" names a product too
+  if (entities.cart_action) {
+    return {
+      intent: Intent.CART,
+      confidence: 0.85,
+      entities,
+    };
+  }
+
+  // === SHIPPING ===
+  // Before product search and order tracking: "ongkir gamis ke Bandung", "biaya pengiriman"
+  if (entities.shipping_query) {
+    return {
+      intent: Intent.SHIPPING,
+      confidence: 0.85,
+      entities,
+    };
+  }
+
+  // === ORDER HISTORY ===
+  // Before product search: "riwayat pembelian barang"; a named order is tracked instead
+  if (entities.order_history && !entities.order_id && !entities.waybill) {
+    return {
+      intent: Intent.ORDER_HISTORY,
+      confidence: 0.85,
+      entities,
+    };
   }
 
   // === PRODUCT SEARCH ===
@@ -59,7 +175,9 @@ export const classifyIntent = (
     entities.product_name ||
     entities.color ||
     entities.size ||
-    entities.category
+    entities.category ||
+    entities.min_price !== undefined ||
+    entities.max_price !== undefined
   ) {
     const confidence =
       entities.product_name || entities.product_keywords?.length
@@ -73,31 +191,24 @@ export const classifyIntent = (
     };
   }
 
-  // === ORDER TRACKING ===
-  if (entities.order_keywords || entities.order_id) {
-    const confidence = entities.order_id ? 0.9 : 0.75;
-
+  // === USER STATUS ===
+  // Before order tracking, whose keywords include "status": "status akun saya"
+  if (entities.user_status && !entities.order_id && !entities.waybill) {
     return {
-      intent: Intent.ORDER_TRACKING,
-      confidence,
+      intent: Intent.USER_STATUS,
+      confidence: 0.9,
       entities,
     };
   }
 
-  // === ORDER ACTION (cancel / return / refund) ===
-  if (entities.order_action) {
-    return {
-      intent: Intent.ORDER_ACTION,
-      confidence: 0.85,
-      entities,
-    };
-  }
+  // === ORDER TRACKING ===
+  // A waybill number alone is tracked without an order ("JP1234567890")
+  if (entities.order_keywords || entities.order_id || entities.waybill) {
+    const confidence = entities.order_id || entities.waybill ? 0.9 : 0.75;
 
-  // === USER STATUS ===
-  if (entities.user_status) {
     return {
-      intent: Intent.USER_STATUS,
-      confidence: 0.9,
+      intent: Intent.ORDER_TRACKING,
+      confidence,
       entities,
     };
   }
@@ -150,13 +261,6 @@ export const shouldUseFallback = (
 /**
  * Get a fallback response when intent confidence is too low
  */
-export const getFallbackResponse = (): string => {
-  const fallbackResponses = [
-    "Maaf, saya tidak yakin apa yang Anda maksud. Bisakah Anda menjelaskan dengan lebih detail?",
-    "Saya kurang memahami permintaan Anda. Anda bisa bertanya tentang produk fashion kami atau status pesanan Anda.",
-    "Mohon maaf, saya tidak mengerti. Coba tanyakan dengan cara lain atau berikan informasi lebih spesifik.",
-    "Saya masih belajar untuk memahami permintaan Anda. Bisakah Anda mengajukan pertanyaan dengan cara yang berbeda?",
-  ];
-
-  return fallbackResponses[Math.floor(Math.random() * fallbackResponses.length)];
+export const getFallbackResponse = (language: Language = DEFAULT_LANGUAGE): string => {
+  return t(language, "fallback");
 };
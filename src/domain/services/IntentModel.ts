@@ -0,0 +1,203 @@
+/**
+ * IntentModel.ts
+ * Multinomial Naive Bayes intent model trained from labeled utterances,
+ * using word, word-bigram and character n-gram features with temperature-scaled confidences
+ */
+
+import { Intent } from "./IntentClassifier";
+
+export interface LabeledUtterance {
+  text: string;
+  intent: Intent;
+}
+
+export interface IntentPrediction {
+  intent: Intent;
+  // Calibrated probability of the predicted intent
+  confidence: number;
+  probabilities: Partial<Record<Intent, number>>;
+}
+
+export interface IntentModel {
+  intents: Intent[];
+  // Divides the log-likelihoods before the softmax; fitted so confidences match accuracy
+  temperature: number;
+  predict: (text: string) => IntentPrediction;
+}
+
+export interface TrainOptions {
+  // Laplace smoothing
+  alpha?: number;
+  // Cross-validation folds used to fit the temperature
+  folds?: number;
+}
+
+interface NaiveBayesWeights {
+  intents: Intent[];
+  logPriors: Map<Intent, number>;
+  logLikelihoods: Map<Intent, Map<string, number>>;
+  // Log-probability of a feature never seen with an intent
+  unseenLogLikelihoods: Map<Intent, number>;
+}
+
+const CHAR_NGRAM_SIZE = 3;
+const TEMPERATURE_CANDIDATES = [0.5, 1, 1.5, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20, 25, 30, 40, 50];
+
+/**
+ * Turn an utterance into its features: words, word bigrams and character trigrams.
+ * Character n-grams let misspellings and affixes ("pesanannya") share evidence.
+ */
+export const extractFeatures = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const features: string[] = [];
+
+  words.forEach((word, index) => {
+    features.push(`w:${word}`);
+    if (index > 0) {
+      features.push(`b:${words[index - 1]}_${word}`);
+    }
+
+    const padded = `#${word}#`;
+    for (let i = 0; i + CHAR_NGRAM_SIZE <= padded.length; i++) {
+      features.push(`c:${padded.slice(i, i + CHAR_NGRAM_SIZE)}`);
+    }
+  });
+
+  return features;
+};
+
+const fitWeights = (examples: LabeledUtterance[], alpha: number): NaiveBayesWeights => {
+  const intents = [...new Set(examples.map((example) => example.intent))];
+  const vocabulary = new Set<string>();
+  const counts = new Map<Intent, Map<string, number>>();
+  const totals = new Map<Intent, number>();
+  const documents = new Map<Intent, number>();
+
+  for (const example of examples) {
+    const intentCounts = counts.get(example.intent) ?? new Map<string, number>();
+    for (const feature of extractFeatures(example.text)) {
+      vocabulary.add(feature);
+      intentCounts.set(feature, (intentCounts.get(feature) ?? 0) + 1);
+      totals.set(example.intent, (totals.get(example.intent) ?? 0) + 1);
+    }
+    counts.set(example.intent, intentCounts);
+    documents.set(example.intent, (documents.get(example.intent) ?? 0) + 1);
+  }
+
+  const logPriors = new Map<Intent, number>();
+  const logLikelihoods = new Map<Intent, Map<string, number>>();
+  const unseenLogLikelihoods = new Map<Intent, number>();
+
+  for (const intent of intents) {
+    const denominator = (totals.get(intent) ?? 0) + alpha * vocabulary.size;
+    const likelihoods = new Map<string, number>();
+    for (const [feature, count] of counts.get(intent) ?? []) {
+      likelihoods.set(feature, Math.log((count + alpha) / denominator));
+    }
+
+    logPriors.set(intent, Math.log((documents.get(intent) ?? 0) / examples.length));
+    logLikelihoods.set(intent, likelihoods);
+    unseenLogLikelihoods.set(intent, Math.log(alpha / denominator));
+  }
+
+  return { intents, logPriors, logLikelihoods, unseenLogLikelihoods };
+};
+
+/**
+ * Unnormalised log-probability of each intent for a text
+ */
+const scoreText = (weights: NaiveBayesWeights, text: string): number[] => {
+  const features = extractFeatures(text);
+
+  return weights.intents.map((intent) => {
+    const likelihoods = weights.logLikelihoods.get(intent)!;
+    const unseen = weights.unseenLogLikelihoods.get(intent)!;
+    return features.reduce(
+      (sum, feature) => sum + (likelihoods.get(feature) ?? unseen),
+      weights.logPriors.get(intent)!
+    );
+  });
+};
+
+const softmax = (scores: number[], temperature: number): number[] => {
+  const scaled = scores.map((score) => score / temperature);
+  const max = Math.max(...scaled);
+  const exponents = scaled.map((score) => Math.exp(score - max));
+  const sum = exponents.reduce((total, value) => total + value, 0);
+  return exponents.map((value) => value / sum);
+};
+
+/**
+ * Pick the temperature that minimises the negative log-likelihood of
+ * out-of-fold predictions. Raw Naive Bayes probabilities are close to 0 or 1
+ * because the features are far from independent.
+ */
+const fitTemperature = (examples: LabeledUtterance[], alpha: number, folds: number): number => {
+  const heldOut: { scores: number[]; intents: Intent[]; actual: Intent }[] = [];
+
+  for (let fold = 0; fold < folds; fold++) {
+    const train = examples.filter((_, index) => index % folds !== fold);
+    const test = examples.filter((_, index) => index % folds === fold);
+    if (train.length === 0 || test.length === 0) continue;
+
+    const weights = fitWeights(train, alpha);
+    for (const example of test) {
+      heldOut.push({ scores: scoreText(weights, example.text), intents: weights.intents, actual: example.intent });
+    }
+  }
+
+  if (heldOut.length === 0) {
+    return 1;
+  }
+
+  let best = { temperature: 1, loss: Infinity };
+  for (const temperature of TEMPERATURE_CANDIDATES) {
+    const loss = heldOut.reduce((total, { scores, intents, actual }) => {
+      const probability = softmax(scores, temperature)[intents.indexOf(actual)] ?? 0;
+      return total - Math.log(Math.max(probability, 1e-9));
+    }, 0);
+
+    if (loss < best.loss) {
+      best = { temperature, loss };
+    }
+  }
+
+  return best.temperature;
+};
+
+/**
+ * Train an intent model from labeled utterances
+ */
+export const trainIntentModel = (
+  examples: LabeledUtterance[],
+  options: TrainOptions = {}
+): IntentModel => {
+  if (examples.length === 0) {
+    throw new Error("Cannot train an intent model without examples");
+  }
+
+  const alpha = options.alpha ?? 1;
+  const weights = fitWeights(examples, alpha);
+  const temperature = fitTemperature(examples, alpha, options.folds ?? 5);
+
+  return {
+    intents: weights.intents,
+    temperature,
+
+    predict: (text: string): IntentPrediction => {
+      const probabilities = softmax(scoreText(weights, text), temperature);
+      let bestIndex = 0;
+      probabilities.forEach((probability, index) => {
+        if (probability > probabilities[bestIndex]) bestIndex = index;
+      });
+
+      return {
+        intent: weights.intents[bestIndex],
+        confidence: probabilities[bestIndex],
+        probabilities: Object.fromEntries(
+          weights.intents.map((intent, index) => [intent, probabilities[index]])
+        ),
+      };
+    },
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * LanguageDetector.ts
+ * Service for telling Indonesian and English messages apart by their function words
+ */
+
+import { Language } from "./I18n";
+import { tokenize } from "./Tokenizer";
+
+// Frequent words that only occur in one of the two languages; loanwords common in
+// Indonesian chats ("order", "status", "size", "cancel") are left out
+const INDONESIAN_WORDS = new Set([
+  "apa", "ada", "yang", "dan", "di", "ke", "dari", "untuk", "dengan", "ini", "itu", "saya", "aku",
+  "kamu", "anda", "kak", "min", "mau", "ingin", "bisa", "tidak", "gak", "belum", "sudah", "berapa",
+  "bagaimana", "gimana", "kapan", "mana", "dong", "ya", "tolong", "cari", "pesanan", "harga",
+  "warna", "ukuran", "terima", "kasih", "halo", "selamat", "pagi", "siang", "sore", "malam",
+  "batalkan", "batal", "kirim", "beli", "lagi", "juga", "saja", "aja", "punya", "akun",
+]);
+
+const ENGLISH_WORDS = new Set([
+  "the", "a", "an", "is", "are", "was", "do", "does", "did", "i", "you", "my", "your", "me",
+  "what", "where", "when", "how", "which", "can", "could", "would", "please", "want", "need",
+  "looking", "have", "has", "for", "with", "of", "to", "and", "price", "color", "colour",
+  "thanks", "thank", "hello", "good", "morning", "evening", "show", "find", "any", "some",
+  "it", "this", "that", "much", "many", "account",
+]);
+
+// Email addresses say nothing about the language ("a@example.com" is not English)
+const EMAIL_PATTERN = /\S+@\S+/g;
+
+/**
+ * Detect the language of a message.
+ * Messages without a clear signal ("ORD-001", "gamis", an email address) keep the previous language.
+ */
+export const detectLanguage = (message: string, previous: Language): Language => {
+  let indonesian = 0;
+  let english = 0;
+
+  for (const token of tokenize(message.replace(EMAIL_PATTERN, " "))) {
+    if (INDONESIAN_WORDS.has(token)) indonesian++;
+    if (ENGLISH_WORDS.has(token)) english++;
+  }
+
+  if (english > indonesian) return "en";
+  if (indonesian > english) return "id";
+  return previous;
+};
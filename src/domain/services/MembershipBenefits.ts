@@ -0,0 +1,19 @@
+/**
+ * MembershipBenefits.ts
+ * Service describing the benefits that depend on the membership level
+ */
+
+// Order subtotal from which a level ships for free; 0 means every order
+const FREE_SHIPPING_THRESHOLDS: Record<string, number> = {
+  silver: 500000,
+  gold: 0,
+  platinum: 0,
+};
+
+/**
+ * Subtotal from which orders of a membership level ship for free
+ * @returns The threshold, or undefined if the level has no free shipping
+ */
+export const getFreeShippingThreshold = (level?: string): number | undefined => {
+  return level ? FREE_SHIPPING_THRESHOLDS[level.toLowerCase()] : undefined;
+};
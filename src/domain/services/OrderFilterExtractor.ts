@@ -0,0 +1,143 @@
+/**
+ * OrderFilterExtractor.ts
+ * Service for reading order history requests: the list itself ("riwayat pesanan"),
+ * a status ("pesanan yang dibatalkan") and a period ("bulan lalu", "30 hari terakhir", "Oktober")
+ */
+
+import { findPhrases, containsPhrase } from "./Tokenizer";
+
+export interface DateRange {
+  // Calendar dates, YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+}
+
+// Requests for the list of orders rather than one order
+const ORDER_HISTORY_PHRASES = [
+  "riwayat pesanan", "riwayat order", "riwayat belanja", "riwayat pembelian", "riwayat transaksi",
+  "histori pesanan", "history pesanan", "daftar pesanan", "daftar order", "list pesanan", "list order",
+  "semua pesanan", "semua order", "pesanan pesanan", "pesanan terbaru",
+  "order history", "purchase history", "my orders", "all orders", "past orders", "recent orders",
+];
+
+// Order statuses as customers name them, by the status code of the backend
+const ORDER_STATUS_PHRASES: Record<string, string[]> = {
+  pending: ["belum bayar", "belum dibayar", "menunggu pembayaran", "unpaid", "pending"],
+  processing: ["diproses", "sedang diproses", "dikemas", "processing"],
+  shipped: ["dikirim", "sedang dikirim", "dalam pengiriman", "shipped", "in transit"],
+  delivered: ["selesai", "sudah diterima", "diterima", "delivered", "completed"],
+  cancelled: ["dibatalkan", "cancelled", "canceled"],
+};
+
+// A status word only filters the list when it describes the orders: "pesanan yang dikirim",
+// "status selesai" or "cancelled orders"; "kapan pesanan saya dikirim" asks about one order
+const STATUS_CUES = ["yang", "status", "which", "that"];
+const ORDER_NOUNS = ["pesanan", "order", "orders", "orderan", "purchases"];
+
+const MONTHS: Record<string, number> = {
+  januari: 0, january: 0, februari: 1, february: 1, maret: 2, march: 2, april: 3,
+  mei: 4, juni: 5, june: 5, juli: 6, july: 6, agustus: 7, august: 7,
+  september: 8, oktober: 9, october: 9, november: 10, desember: 11, december: 11,
+};
+
+// "may" is mostly the verb, so it only counts with a year: "may 2023"
+const MONTHS_WITH_YEAR: Record<string, number> = { may: 4 };
+
+const DAY_UNITS: Record<string, number> = { hari: 1, day: 1, days: 1, minggu: 7, week: 7, weeks: 7 };
+const MONTH_UNITS = ["bulan", "month", "months"];
+const RECENT_WORDS = ["terakhir", "last", "past"];
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+const range = (from: Date, to: Date): DateRange => ({ from: toDateString(from), to: toDateString(to) });
+
+const monthRange = (year: number, month: number): DateRange => {
+  return range(new Date(year, month, 1), new Date(year, month + 1, 0));
+};
+
+// Monday of the week of a date
+const startOfWeek = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7));
+
+/**
+ * Whether a message asks for the list of orders
+ */
+export const isOrderHistoryRequest = (tokens: string[]): boolean => {
+  return containsPhrase(tokens, ORDER_HISTORY_PHRASES);
+};
+
+/**
+ * Find the order status the customer wants to see, e.g. "cancelled" for "pesanan yang dibatalkan"
+ */
+export const extractOrderStatus = (tokens: string[]): string | undefined => {
+  for (const [status, phrases] of Object.entries(ORDER_STATUS_PHRASES)) {
+    const match = findPhrases(tokens, phrases).find((phrase) => {
+      const before = tokens.slice(Math.max(0, phrase.start - 2), phrase.start);
+      return before.some((token) => STATUS_CUES.includes(token)) || ORDER_NOUNS.includes(tokens[phrase.end]);
+    });
+    if (match) {
+      return status;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find the period named in a message: "hari ini", "minggu lalu", "bulan ini",
+ * "3 bulan terakhir", "last 30 days", "Oktober 2023"; a month without a year is its latest occurrence
+ */
+export const extractDateRange = (tokens: string[], now: Date = new Date()): DateRange | undefined => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const has = (phrases: string[]) => containsPhrase(tokens, phrases);
+
+  if (has(["hari ini", "today"])) return range(today, today);
+  if (has(["kemarin", "yesterday"])) return range(addDays(today, -1), addDays(today, -1));
+  if (has(["minggu ini", "this week"])) return range(startOfWeek(today), today);
+  if (has(["minggu lalu", "last week"])) {
+    const monday = addDays(startOfWeek(today), -7);
+    return range(monday, addDays(monday, 6));
+  }
+  if (has(["bulan ini", "this month"])) return range(new Date(today.getFullYear(), today.getMonth(), 1), today);
+  if (has(["bulan lalu", "last month"])) return monthRange(today.getFullYear(), today.getMonth() - 1);
+  if (has(["tahun ini", "this year"])) return range(new Date(today.getFullYear(), 0, 1), today);
+  if (has(["tahun lalu", "last year"])) {
+    return range(new Date(today.getFullYear() - 1, 0, 1), new Date(today.getFullYear() - 1, 11, 31));
+  }
+
+  // "30 hari terakhir", "3 bulan terakhir", "last 2 weeks", "past 7 days"
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (!/^\d{1,3}$/.test(tokens[i])) continue;
+    const count = Number(tokens[i]);
+    const unit = tokens[i + 1];
+    const isRecent = RECENT_WORDS.includes(tokens[i + 2]) || RECENT_WORDS.includes(tokens[i - 1]);
+    if (!isRecent || count < 1) continue;
+
+    if (DAY_UNITS[unit]) {
+      return range(addDays(today, -(count * DAY_UNITS[unit]) + 1), today);
+    }
+    if (MONTH_UNITS.includes(unit)) {
+      return range(new Date(today.getFullYear(), today.getMonth() - count, today.getDate() + 1), today);
+    }
+  }
+
+  // "oktober", "oktober 2023", "may 2023"
+  for (let i = 0; i < tokens.length; i++) {
+    const year = /^\d{4}$/.test(tokens[i + 1] ?? "") ? Number(tokens[i + 1]) : undefined;
+    const month = MONTHS[tokens[i]] ?? (year !== undefined ? MONTHS_WITH_YEAR[tokens[i]] : undefined);
+    if (month === undefined) continue;
+
+    if (year !== undefined) {
+      return monthRange(year, month);
+    }
+    return monthRange(month > today.getMonth() ? today.getFullYear() - 1 : today.getFullYear(), month);
+  }
+
+  return undefined;
+};
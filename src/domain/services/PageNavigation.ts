@@ -0,0 +1,53 @@
+/**
+ * PageNavigation.ts
+ * Service for recognising requests to move through paged results:
+ * "lihat lagi", "berikutnya", "next", "sebelumnya" or "halaman 3"
+ */
+
+import { tokenize, containsPhrase } from "./Tokenizer";
+
+export type PageRequest =
+  | { type: "next" }
+  | { type: "previous" }
+  | { type: "page"; page: number };
+
+const NEXT_PHRASES = [
+  "lagi", "berikutnya", "selanjutnya", "lanjut", "lainnya", "yang lain",
+  "next", "more", "show more",
+];
+const PREVIOUS_PHRASES = ["sebelumnya", "kembali", "previous", "prev", "back"];
+
+const PAGE_WORDS = ["halaman", "hal", "hlm", "page"];
+
+// "tidak ada lagi" or "gak usah lagi" ends the browsing instead
+const NEGATION_WORDS = ["tidak", "tdk", "gak", "ga", "nggak", "enggak", "bukan", "jangan", "no", "not"];
+
+// Longer messages that happen to contain "lagi" are usually about something else
+const MAX_NAVIGATION_WORDS = 5;
+
+/**
+ * Recognise a page navigation request
+ * @returns The requested move, or null if the message is not about paging
+ */
+export const parsePageNavigation = (message: string): PageRequest | null => {
+  const tokens = tokenize(message);
+
+  // An explicit page number counts in any message: "boleh lihat halaman 3?"
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (PAGE_WORDS.includes(tokens[i]) && /^\d{1,3}$/.test(tokens[i + 1])) {
+      return { type: "page", page: Number(tokens[i + 1]) };
+    }
+  }
+
+  if (tokens.length === 0 || tokens.length > MAX_NAVIGATION_WORDS || containsPhrase(tokens, NEGATION_WORDS)) {
+    return null;
+  }
+  if (containsPhrase(tokens, PREVIOUS_PHRASES)) {
+    return { type: "previous" };
+  }
+  if (containsPhrase(tokens, NEXT_PHRASES)) {
+    return { type: "next" };
+  }
+
+  return null;
+};
@@ -0,0 +1,174 @@
+/**
+ * PriceExtractor.ts
+ * Service for reading price ranges and budgets from Indonesian and English messages,
+ * e.g. "di bawah 300rb", "budget 1,5 jt", "Rp 250.000", "200-400 ribu"
+ */
+
+import { t, formatCurrency, Language, DEFAULT_LANGUAGE } from "./I18n";
+
+export interface PriceRange {
+  min_price?: number;
+  max_price?: number;
+}
+
+export interface PriceExtraction extends PriceRange {
+  // Parts of the message that were read as prices, so other extractors can skip them
+  spans: [number, number][];
+}
+
+interface AmountMatch {
+  value: number;
+  start: number;
+  end: number;
+  // Whether the amount had a unit (rb, jt, k) or a currency (Rp, IDR)
+  explicit: boolean;
+  unit?: string;
+}
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  'rb': 1000,
+  'ribu': 1000,
+  'k': 1000,
+  'jt': 1000000,
+  'juta': 1000000,
+};
+
+// Bare numbers below this are not prices unless they carry a unit ("ukuran 40")
+const MIN_BARE_AMOUNT = 1000;
+
+// Share of the amount allowed either side of "sekitar 300rb"
+const APPROXIMATE_MARGIN = 0.2;
+
+const AMOUNT_REGEX = /(?:(rp\.?|idr)\s*)?(\d+(?:[.,]\d+)*)\s*(ribu|rb|juta|jt|k)?(?![a-z0-9])/gi;
+
+const RANGE_SEPARATOR_REGEX = /^\s*(?:-|–|s\.?\s?d\.?|sampai|hingga|sampe|to|and|dan)\s*$/i;
+const RANGE_PREFIX_REGEX = /(?:antara|between|dari|from|kisaran harga)\s*$/i;
+
+const MAX_QUALIFIER_REGEX =
+  /(?:di\s?bawah|kurang\s+dari|tidak\s+lebih\s+dari|gak\s+lebih\s+dari|maksimal|maksimum|maks\.?|max\.?|budget(?:nya)?|bujet|dana|paling\s+mahal|under|below|less\s+than|at\s+most|up\s+to|<=?)\s*$/i;
+const MIN_QUALIFIER_REGEX =
+  /(?:di\s?atas|lebih\s+dari|minimal|minimum|min\.?|mulai(?:\s+dari)?|paling\s+murah|above|over|more\s+than|at\s+least|from|>=?)\s*$/i;
+const APPROXIMATE_QUALIFIER_REGEX = /(?:sekitar|kisaran|kira-kira|kurang\s+lebih|around|about|approximately|~)\s*$/i;
+
+/**
+ * Turn the digits of an amount into a number.
+ * With a unit, "1,5 jt" and "1.5 jt" are decimals; otherwise dots and commas
+ * group thousands as in "Rp 250.000" or "250,000".
+ */
+const parseAmount = (digits: string, unit?: string): number => {
+  const multiplier = unit ? UNIT_MULTIPLIERS[unit.toLowerCase()] : 1;
+  const decimalMatch = digits.match(/^(\d+)[.,](\d{1,2})$/);
+
+  if (unit && decimalMatch) {
+    return Math.round(parseFloat(`${decimalMatch[1]}.${decimalMatch[2]}`) * multiplier);
+  }
+
+  return Number(digits.replace(/[.,]/g, '')) * multiplier;
+};
+
+const findAmounts = (message: string): AmountMatch[] => {
+  const amounts: AmountMatch[] = [];
+
+  for (const match of message.matchAll(AMOUNT_REGEX)) {
+    const [text, currency, digits, unit] = match;
+    const start = match.index ?? 0;
+    amounts.push({
+      value: parseAmount(digits, unit),
+      start,
+      end: start + text.trimEnd().length,
+      explicit: Boolean(currency || unit),
+      unit: unit?.toLowerCase()
+    });
+  }
+
+  return amounts;
+};
+
+/**
+ * Extract a price range from a message
+ */
+export const extractPriceRange = (message: string): PriceExtraction => {
+  const result: PriceExtraction = { spans: [] };
+  const amounts = findAmounts(message);
+
+  for (let i = 0; i < amounts.length; i++) {
+    const amount = amounts[i];
+    const before = message.slice(0, amount.start);
+    const next = amounts[i + 1];
+
+    // === Range: "200-400 ribu", "antara 200rb dan 400rb" ===
+    if (next && RANGE_SEPARATOR_REGEX.test(message.slice(amount.end, next.start))) {
+      // "200-400 ribu": the first amount takes the unit of the second
+      const first = !amount.explicit && next.unit
+        ? parseAmount(message.slice(amount.start, amount.end).replace(/^\D+/, ''), next.unit)
+        : amount.value;
+      const isRange = amount.explicit || next.explicit || RANGE_PREFIX_REGEX.test(before);
+
+      if (isRange) {
+        result.min_price = Math.min(first, next.value);
+        result.max_price = Math.max(first, next.value);
+        result.spans.push([amount.start, next.end]);
+        i++;
+        continue;
+      }
+    }
+
+    if (!amount.explicit && amount.value < MIN_BARE_AMOUNT) {
+      continue;
+    }
+
+    // === Single amount with a qualifier in front ===
+    if (APPROXIMATE_QUALIFIER_REGEX.test(before)) {
+      result.min_price = Math.round(amount.value * (1 - APPROXIMATE_MARGIN));
+      result.max_price = Math.round(amount.value * (1 + APPROXIMATE_MARGIN));
+      result.spans.push([amount.start, amount.end]);
+    } else if (MAX_QUALIFIER_REGEX.test(before)) {
+      result.max_price = amount.value;
+      result.spans.push([amount.start, amount.end]);
+    } else if (MIN_QUALIFIER_REGEX.test(before)) {
+      result.min_price = amount.value;
+      result.spans.push([amount.start, amount.end]);
+    } else if (amount.explicit) {
+      // A lone "300rb" or "Rp 300.000" is read as the budget
+      result.max_price = amount.value;
+      result.spans.push([amount.start, amount.end]);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Remove the price parts of a message, e.g. before looking for sizes
+ */
+export const removeSpans = (message: string, spans: [number, number][]): string => {
+  return [...spans]
+    .sort((a, b) => b[0] - a[0])
+    .reduce((text, [start, end]) => text.slice(0, start) + ' ' + text.slice(end), message);
+};
+
+/**
+ * Describe a price range for a chat response, e.g. "maksimal Rp 300.000"
+ */
+export const formatPriceRange = (range: PriceRange, language: Language = DEFAULT_LANGUAGE): string => {
+  const format = (value: number) => formatCurrency(value, language);
+
+  if (range.min_price !== undefined && range.max_price !== undefined) {
+    return t(language, 'price.range', { min: format(range.min_price), max: format(range.max_price) });
+  }
+  if (range.max_price !== undefined) {
+    return t(language, 'price.max', { max: format(range.max_price) });
+  }
+  if (range.min_price !== undefined) {
+    return t(language, 'price.min', { min: format(range.min_price) });
+  }
+  return '';
+};
+
+/**
+ * Check whether a price lies within a range
+ */
+export const isInPriceRange = (price: number, range: PriceRange): boolean => {
+  return (range.min_price === undefined || price >= range.min_price) &&
+    (range.max_price === undefined || price <= range.max_price);
+};
@@ -0,0 +1,34 @@
+/**
+ * ProductVariants.ts
+ * Service for reading the sizes and colors a product is offered in
+ */
+
+/**
+ * Split a size or color list as stored on a product, e.g. "S, M, L" or "hitam/putih"
+ */
+export const parseVariants = (value?: string): string[] => {
+  return (value ?? "").split(/[,/]+/).map((variant) => variant.trim()).filter(Boolean);
+};
+
+/**
+ * Sizes of a product in upper case; "all size" stays one size
+ */
+export const parseSizes = (size?: string): string[] => {
+  return parseVariants(size).flatMap((variant) =>
+    /all[\s-]?size/i.test(variant) ? ["ALL SIZE"] : variant.split(/\s+/)
+  ).map((variant) => variant.toUpperCase());
+};
+
+/**
+ * Whether a product comes in the size; "all size" products fit every size
+ */
+export const hasSize = (sizes: string[], size: string): boolean => {
+  return sizes.includes(size.toUpperCase()) || sizes.includes("ALL SIZE");
+};
+
+/**
+ * Whether a product comes in the color
+ */
+export const hasColor = (colors: string[], color: string): boolean => {
+  return colors.some((variant) => variant.toLowerCase() === color.toLowerCase());
+};
@@ -0,0 +1,223 @@
+/**
+ * ReferenceResolver.ts
+ * Service for resolving references to the last product results, such as
+ * "yang nomor 2", "yang kedua", "the last one" or "yang merah tadi"
+ */
+
+import { ProductReference } from "../entities/ConversationState";
+import { ExtractedEntities } from "./EntityExtractor";
+import { tokenize, matchesWord, containsPhrase } from "./Tokenizer";
+
+// What the customer wants to know about the referenced product
+export type ReferenceQuestion = "detail" | "stock" | "size";
+
+export interface ResolvedReference {
+  // Null when no product is shown at the position
+  product: ProductReference | null;
+  // Number the customer used, e.g. 7 for "yang nomor 7"
+  position: number;
+  question: ReferenceQuestion;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  satu: 1, dua: 2, tiga: 3, empat: 4, lima: 5, enam: 6, tujuh: 7, delapan: 8, sembilan: 9, sepuluh: 10,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+// Ordinals that are not "ke" + a number ("kedua", "ke-3")
+const ORDINAL_WORDS: Record<string, number> = {
+  pertama: 1, first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+const LAST_WORDS = ["terakhir", "last"];
+
+// Words followed by a position: "nomor 2", "no. dua", "yang ke 3", "number 4"
+const POSITION_MARKERS = ["nomor", "no", "nmr", "number", "urutan", "ke"];
+
+// Words that point back at something already shown, needed for attribute references
+const REFERENCE_CUES = ["yang", "tadi", "itu", "tersebut", "the", "that", "one"];
+
+// "yang lain" asks for other products, not for one of the results
+const OTHER_WORDS = ["lain", "lainnya", "other", "another", "else"];
+
+const CHEAPEST_PHRASES = ["termurah", "paling murah", "cheapest"];
+const PRICIEST_PHRASES = ["termahal", "paling mahal", "most expensive"];
+
+const STOCK_PHRASES = ["stok", "stock", "ready", "tersedia", "masih ada", "available", "habis", "sold out"];
+const SIZE_WORDS = ["ukuran", "size", "sizes"];
+
+// Name words shorter than this ("tas", "fit") say too little about which product is meant
+const MIN_NAME_WORD_LENGTH = 4;
+
+const parseNumber = (token: string | undefined): number | undefined => {
+  if (!token) {
+    return undefined;
+  }
+  return /^\d{1,2}$/.test(token) ? Number(token) : NUMBER_WORDS[token];
+};
+
+/**
+ * Read an ordinal token: "kedua", "ke-2", "ke2", "pertama", "second", "2nd"
+ */
+const parseOrdinal = (token: string): number | undefined => {
+  if (ORDINAL_WORDS[token]) {
+    return ORDINAL_WORDS[token];
+  }
+
+  const english = token.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+  if (english) {
+    return Number(english[1]);
+  }
+
+  const indonesian = token.match(/^ke-?(\w+)$/);
+  return indonesian ? parseNumber(indonesian[1]) : undefined;
+};
+
+/**
+ * Find a position such as "nomor 2", "yang kedua" or "yang terakhir"
+ */
+const findPosition = (tokens: string[], count: number): number | undefined => {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    const ordinal = parseOrdinal(token);
+    if (ordinal !== undefined) {
+      return ordinal;
+    }
+    if (LAST_WORDS.includes(token)) {
+      return count;
+    }
+    if (POSITION_MARKERS.includes(token)) {
+      const position = parseNumber(tokens[i + 1]);
+      if (position !== undefined) {
+        return position;
+      }
+    }
+    // "yang 2", but not "yang dua warna"
+    if (token === "yang" && /^\d{1,2}$/.test(tokens[i + 1] ?? "")) {
+      return Number(tokens[i + 1]);
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Find the position a message points at, e.g. 2 for "yang nomor 2" or "pesanan kedua"
+ * @param count Number of results, the position "yang terakhir" points at
+ */
+export const resolvePosition = (message: string, count: number): number | undefined => {
+  return findPosition(tokenize(message), count);
+};
+
+/**
+ * The product listed under a number; on later pages "nomor 7" is the number shown,
+ * while "yang kedua" may also mean the second product on the page
+ */
+const findByPosition = (results: ProductReference[], position: number): ProductReference | null => {
+  const shown = results.find((product) => product.position === position);
+  if (shown) {
+    return shown;
+  }
+  return position >= 1 && position <= results.length ? results[position - 1] : null;
+};
+
+const nameWords = (product: ProductReference): string[] => {
+  return tokenize(product.name).filter((word) => word.length >= MIN_NAME_WORD_LENGTH);
+};
+
+/**
+ * Narrow the results down by the colors, categories, name words and
+ * price extremes mentioned in the message
+ * @returns The matching products, or null when the message mentions none of these
+ */
+const filterByAttributes = (
+  tokens: string[],
+  entities: ExtractedEntities,
+  results: ProductReference[]
+): ProductReference[] | null => {
+  const mentions = (word: string) => tokens.some((token) => matchesWord(token, word));
+  let candidates = results;
+  let mentioned = false;
+
+  const colors = [...new Set(results.map((product) => product.color?.toLowerCase()).filter(Boolean))] as string[];
+  const color = entities.color ?? colors.find(mentions);
+  if (color) {
+    candidates = candidates.filter((product) => product.color?.toLowerCase() === color);
+    mentioned = true;
+  }
+
+  const categories = [...new Set(results.map((product) => product.category.toLowerCase()))];
+  const category = categories.find(mentions);
+  if (category) {
+    candidates = candidates.filter((product) => product.category.toLowerCase() === category);
+    mentioned = true;
+  }
+
+  const words = [...new Set(results.flatMap(nameWords))].filter(
+    (word) => mentions(word) && word !== category && word !== color
+  );
+  if (words.length > 0) {
+    candidates = candidates.filter((product) => words.every((word) => nameWords(product).includes(word)));
+    mentioned = true;
+  }
+
+  if (containsPhrase(tokens, CHEAPEST_PHRASES) || containsPhrase(tokens, PRICIEST_PHRASES)) {
+    const cheapest = containsPhrase(tokens, CHEAPEST_PHRASES);
+    const prices = candidates.map((product) => product.price);
+    const target = cheapest ? Math.min(...prices) : Math.max(...prices);
+    candidates = candidates.filter((product) => product.price === target);
+    mentioned = true;
+  }
+
+  return mentioned ? candidates : null;
+};
+
+const detectQuestion = (tokens: string[], entities: ExtractedEntities): ReferenceQuestion => {
+  if (entities.size || containsPhrase(tokens, SIZE_WORDS)) {
+    return "size";
+  }
+  if (containsPhrase(tokens, STOCK_PHRASES)) {
+    return "stock";
+  }
+  return "detail";
+};
+
+/**
+ * Find the product of the last results that the message refers to
+ * @param results The last results in the order they were shown
+ * @returns The product and what is asked about it, or null if the message
+ *          does not point at exactly one of the results or at a position
+ */
+export const resolveProductReference = (
+  message: string,
+  entities: ExtractedEntities,
+  results: ProductReference[]
+): ResolvedReference | null => {
+  const tokens = tokenize(message);
+  if (results.length === 0 || entities.order_keywords || containsPhrase(tokens, OTHER_WORDS)) {
+    return null;
+  }
+
+  const position = findPosition(tokens, results.length);
+  if (position !== undefined) {
+    return { product: findByPosition(results, position), position, question: detectQuestion(tokens, entities) };
+  }
+
+  if (!containsPhrase(tokens, REFERENCE_CUES)) {
+    return null;
+  }
+
+  const candidates = filterByAttributes(tokens, entities, results);
+  if (!candidates || candidates.length !== 1) {
+    return null;
+  }
+
+  const product = candidates[0];
+  return {
+    product,
+    position: product.position ?? results.indexOf(product) + 1,
+    question: detectQuestion(tokens, entities)
+  };
+};
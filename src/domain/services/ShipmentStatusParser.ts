@@ -0,0 +1,26 @@
+/**
+ * ShipmentStatusParser.ts
+ * Service for reading a shipment status from a courier's free-text scan description,
+ * for couriers whose APIs do not return a status code
+ */
+
+import { ShipmentStatus } from "../entities/Shipment";
+import { tokenize, containsPhrase } from "./Tokenizer";
+
+// Checked in order: "gagal antar" is an exception, not a delivery on its way
+const STATUS_PHRASES: [ShipmentStatus, string[]][] = [
+  ["exception", ["gagal", "failed", "undelivered", "alamat tidak ditemukan", "problem", "bermasalah"]],
+  ["returned", ["retur", "return", "returned", "dikembalikan"]],
+  ["delivered", ["delivered", "diterima oleh", "selesai antar", "terkirim", "pod"]],
+  ["out_for_delivery", ["with delivery courier", "out for delivery", "proses antar", "sedang diantar", "dibawa kurir"]],
+  ["picked_up", ["picked up", "pickup", "pick up", "manifest", "posting loket", "diterima di counter", "shipment received"]],
+];
+
+/**
+ * Status of a scan; anything not recognised is taken as in transit
+ */
+export const parseShipmentStatus = (description: string): ShipmentStatus => {
+  const tokens = tokenize(description);
+  const match = STATUS_PHRASES.find(([, phrases]) => containsPhrase(tokens, phrases));
+  return match ? match[0] : "in_transit";
+};
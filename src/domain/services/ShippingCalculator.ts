@@ -0,0 +1,108 @@
+/**
+ * ShippingCalculator.ts
+ * Service for estimating shipping costs and delivery times from a rate table
+ * and applying the members' free shipping
+ */
+
+import { getFreeShippingThreshold } from "./MembershipBenefits";
+
+// One courier service to one zone: the first kilogram, every further kilogram started, and the ETA
+export interface ShippingRate {
+  courier: string;
+  service: string;
+  zone: string;
+  firstKg: number;
+  nextKg: number;
+  minDays: number;
+  maxDays: number;
+}
+
+export interface ShippingRateTable {
+  // Where parcels are sent from, e.g. "Jakarta"
+  origin: string;
+  // Weight in grams used for products without one
+  defaultWeight: number;
+  // Zones by name, each listing its provinces
+  zones: Record<string, string[]>;
+  rates: ShippingRate[];
+}
+
+export interface ShippingQuote {
+  courier: string;
+  service: string;
+  cost: number;
+  minDays: number;
+  maxDays: number;
+}
+
+export interface FreeShippingResult {
+  quotes: ShippingQuote[];
+  // Whether the member's free shipping applies to this order
+  free: boolean;
+  // Subtotal from which the member ships for free, when not reached yet
+  threshold?: number;
+}
+
+/**
+ * Chargeable weight: every kilogram started counts, with at least one
+ */
+export const getChargeableKg = (weight: number): number => Math.max(1, Math.ceil(weight / 1000));
+
+/**
+ * The zone a province belongs to, compared case-insensitively
+ */
+export const findZone = (table: ShippingRateTable, province: string): string | undefined => {
+  const name = province.toLowerCase();
+  return Object.keys(table.zones).find((zone) =>
+    table.zones[zone].some((member) => member.toLowerCase() === name)
+  );
+};
+
+/**
+ * Quotes of every service to the province, cheapest first
+ * @param courier Courier code to limit the quotes to, e.g. "jne"
+ */
+export const calculateShippingQuotes = (
+  table: ShippingRateTable,
+  province: string,
+  weight: number,
+  courier?: string
+): ShippingQuote[] => {
+  const zone = findZone(table, province);
+  if (!zone) {
+    return [];
+  }
+
+  const kg = getChargeableKg(weight);
+  return table.rates
+    .filter((rate) => rate.zone === zone && (!courier || rate.courier === courier))
+    .map((rate) => ({
+      courier: rate.courier,
+      service: rate.service,
+      cost: rate.firstKg + rate.nextKg * (kg - 1),
+      minDays: rate.minDays,
+      maxDays: rate.maxDays,
+    }))
+    .sort((a, b) => a.cost - b.cost);
+};
+
+/**
+ * Make the quotes free when the member's level ships the order for free
+ * @param subtotal Value of the goods shipped, if known
+ */
+export const applyFreeShipping = (
+  quotes: ShippingQuote[],
+  membershipLevel?: string,
+  subtotal?: number
+): FreeShippingResult => {
+  const threshold = getFreeShippingThreshold(membershipLevel);
+  if (threshold === undefined) {
+    return { quotes, free: false };
+  }
+
+  if (threshold === 0 || (subtotal !== undefined && subtotal >= threshold)) {
+    return { quotes: quotes.map((quote) => ({ ...quote, cost: 0 })), free: true };
+  }
+
+  return { quotes, free: false, threshold };
+};
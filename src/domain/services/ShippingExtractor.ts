@@ -0,0 +1,201 @@
+/**
+ * ShippingExtractor.ts
+ * Service for reading shipping questions: the destination city or province,
+ * the courier and the parcel weight, e.g. "ongkir ke Surabaya pakai JNE berapa?"
+ */
+
+import { findPhrases, PhraseMatch } from "./Tokenizer";
+
+export interface Destination {
+  // Display name, e.g. "Surabaya" or "Jawa Timur"
+  city?: string;
+  province: string;
+}
+
+// Provinces and the names customers use for them
+const PROVINCE_ALIASES: Record<string, string[]> = {
+  "Aceh": ["aceh", "nad"],
+  "Sumatera Utara": ["sumatera utara", "sumatra utara", "sumut"],
+  "Sumatera Barat": ["sumatera barat", "sumatra barat", "sumbar"],
+  "Riau": ["riau"],
+  "Kepulauan Riau": ["kepulauan riau", "kepri"],
+  "Jambi": ["jambi"],
+  "Sumatera Selatan": ["sumatera selatan", "sumatra selatan", "sumsel"],
+  "Kepulauan Bangka Belitung": ["bangka belitung", "babel", "bangka", "belitung"],
+  "Bengkulu": ["bengkulu"],
+  "Lampung": ["lampung"],
+  "DKI Jakarta": ["dki jakarta", "dki", "jakarta"],
+  "Jawa Barat": ["jawa barat", "jabar"],
+  "Banten": ["banten"],
+  "Jawa Tengah": ["jawa tengah", "jateng"],
+  "DI Yogyakarta": ["di yogyakarta", "diy", "yogyakarta", "jogja", "jogjakarta", "yogya", "jogya"],
+  "Jawa Timur": ["jawa timur", "jatim"],
+  "Bali": ["bali"],
+  "Nusa Tenggara Barat": ["nusa tenggara barat", "ntb"],
+  "Nusa Tenggara Timur": ["nusa tenggara timur", "ntt"],
+  "Kalimantan Barat": ["kalimantan barat", "kalbar"],
+  "Kalimantan Tengah": ["kalimantan tengah", "kalteng"],
+  "Kalimantan Selatan": ["kalimantan selatan", "kalsel"],
+  "Kalimantan Timur": ["kalimantan timur", "kaltim"],
+  "Kalimantan Utara": ["kalimantan utara", "kaltara"],
+  "Sulawesi Utara": ["sulawesi utara", "sulut"],
+  "Gorontalo": ["gorontalo"],
+  "Sulawesi Tengah": ["sulawesi tengah", "sulteng"],
+  "Sulawesi Barat": ["sulawesi barat", "sulbar"],
+  "Sulawesi Selatan": ["sulawesi selatan", "sulsel"],
+  "Sulawesi Tenggara": ["sulawesi tenggara", "sultra"],
+  "Maluku": ["maluku"],
+  "Maluku Utara": ["maluku utara", "malut"],
+  "Papua": ["papua"],
+  "Papua Barat": ["papua barat"],
+  "Papua Barat Daya": ["papua barat daya"],
+  "Papua Selatan": ["papua selatan"],
+  "Papua Tengah": ["papua tengah"],
+  "Papua Pegunungan": ["papua pegunungan"],
+};
+
+// Cities customers ship to most, with their province; names that are also
+// common words ("batu", "solo" as in "sendiri") are left out or need the full name
+const CITIES: Record<string, { name: string; province: string }> = {
+  "jakarta pusat": { name: "Jakarta Pusat", province: "DKI Jakarta" },
+  "jakarta utara": { name: "Jakarta Utara", province: "DKI Jakarta" },
+  "jakarta barat": { name: "Jakarta Barat", province: "DKI Jakarta" },
+  "jakarta selatan": { name: "Jakarta Selatan", province: "DKI Jakarta" },
+  "jakarta timur": { name: "Jakarta Timur", province: "DKI Jakarta" },
+  "jaksel": { name: "Jakarta Selatan", province: "DKI Jakarta" },
+  "jakbar": { name: "Jakarta Barat", province: "DKI Jakarta" },
+  "jaktim": { name: "Jakarta Timur", province: "DKI Jakarta" },
+  "jakut": { name: "Jakarta Utara", province: "DKI Jakarta" },
+  "jakpus": { name: "Jakarta Pusat", province: "DKI Jakarta" },
+  "bogor": { name: "Bogor", province: "Jawa Barat" },
+  "depok": { name: "Depok", province: "Jawa Barat" },
+  "bekasi": { name: "Bekasi", province: "Jawa Barat" },
+  "bandung": { name: "Bandung", province: "Jawa Barat" },
+  "cimahi": { name: "Cimahi", province: "Jawa Barat" },
+  "cirebon": { name: "Cirebon", province: "Jawa Barat" },
+  "sukabumi": { name: "Sukabumi", province: "Jawa Barat" },
+  "tasikmalaya": { name: "Tasikmalaya", province: "Jawa Barat" },
+  "karawang": { name: "Karawang", province: "Jawa Barat" },
+  "tangerang": { name: "Tangerang", province: "Banten" },
+  "tangerang selatan": { name: "Tangerang Selatan", province: "Banten" },
+  "tangsel": { name: "Tangerang Selatan", province: "Banten" },
+  "serang": { name: "Serang", province: "Banten" },
+  "cilegon": { name: "Cilegon", province: "Banten" },
+  "semarang": { name: "Semarang", province: "Jawa Tengah" },
+  "surakarta": { name: "Surakarta", province: "Jawa Tengah" },
+  "kota solo": { name: "Surakarta", province: "Jawa Tengah" },
+  "magelang": { name: "Magelang", province: "Jawa Tengah" },
+  "purwokerto": { name: "Purwokerto", province: "Jawa Tengah" },
+  "tegal": { name: "Tegal", province: "Jawa Tengah" },
+  "pekalongan": { name: "Pekalongan", province: "Jawa Tengah" },
+  "kudus": { name: "Kudus", province: "Jawa Tengah" },
+  "sleman": { name: "Sleman", province: "DI Yogyakarta" },
+  "bantul": { name: "Bantul", province: "DI Yogyakarta" },
+  "surabaya": { name: "Surabaya", province: "Jawa Timur" },
+  "sidoarjo": { name: "Sidoarjo", province: "Jawa Timur" },
+  "gresik": { name: "Gresik", province: "Jawa Timur" },
+  "malang": { name: "Malang", province: "Jawa Timur" },
+  "kediri": { name: "Kediri", province: "Jawa Timur" },
+  "madiun": { name: "Madiun", province: "Jawa Timur" },
+  "jember": { name: "Jember", province: "Jawa Timur" },
+  "banyuwangi": { name: "Banyuwangi", province: "Jawa Timur" },
+  "denpasar": { name: "Denpasar", province: "Bali" },
+  "mataram": { name: "Mataram", province: "Nusa Tenggara Barat" },
+  "kupang": { name: "Kupang", province: "Nusa Tenggara Timur" },
+  "banda aceh": { name: "Banda Aceh", province: "Aceh" },
+  "medan": { name: "Medan", province: "Sumatera Utara" },
+  "padang": { name: "Padang", province: "Sumatera Barat" },
+  "pekanbaru": { name: "Pekanbaru", province: "Riau" },
+  "batam": { name: "Batam", province: "Kepulauan Riau" },
+  "tanjung pinang": { name: "Tanjung Pinang", province: "Kepulauan Riau" },
+  "palembang": { name: "Palembang", province: "Sumatera Selatan" },
+  "pangkal pinang": { name: "Pangkal Pinang", province: "Kepulauan Bangka Belitung" },
+  "bandar lampung": { name: "Bandar Lampung", province: "Lampung" },
+  "pontianak": { name: "Pontianak", province: "Kalimantan Barat" },
+  "palangkaraya": { name: "Palangkaraya", province: "Kalimantan Tengah" },
+  "banjarmasin": { name: "Banjarmasin", province: "Kalimantan Selatan" },
+  "balikpapan": { name: "Balikpapan", province: "Kalimantan Timur" },
+  "samarinda": { name: "Samarinda", province: "Kalimantan Timur" },
+  "tarakan": { name: "Tarakan", province: "Kalimantan Utara" },
+  "makassar": { name: "Makassar", province: "Sulawesi Selatan" },
+  "manado": { name: "Manado", province: "Sulawesi Utara" },
+  "palu": { name: "Palu", province: "Sulawesi Tengah" },
+  "kendari": { name: "Kendari", province: "Sulawesi Tenggara" },
+  "ambon": { name: "Ambon", province: "Maluku" },
+  "ternate": { name: "Ternate", province: "Maluku Utara" },
+  "jayapura": { name: "Jayapura", province: "Papua" },
+  "sorong": { name: "Sorong", province: "Papua Barat Daya" },
+};
+
+// Couriers by code, with the names customers write; "j&t" is split into "j t" by the tokenizer
+const COURIER_ALIASES: Record<string, string[]> = {
+  jne: ["jne"],
+  jnt: ["j&t", "jnt", "j&t express", "jt express"],
+  sicepat: ["sicepat", "si cepat"],
+  pos: ["pos indonesia", "pos", "posindo", "kantor pos"],
+};
+
+export const COURIER_NAMES: Record<string, string> = {
+  jne: "JNE",
+  jnt: "J&T",
+  sicepat: "SiCepat",
+  pos: "POS Indonesia",
+};
+
+// "2 kg", "1,5 kilo", "800 gram", "500gr"
+const WEIGHT_REGEX = /(\d+(?:[.,]\d+)?)\s*(kg|kilo(?:gram)?|gr|gram|g)\b/i;
+
+/**
+ * The match covering the most words, so "papua barat daya" wins over "papua"
+ */
+const longestMatch = (matches: PhraseMatch[]): PhraseMatch | undefined => {
+  return [...matches].sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)[0];
+};
+
+/**
+ * Find the destination named in a message; a city is preferred over a province
+ */
+export const extractDestination = (tokens: string[]): Destination | undefined => {
+  const city = longestMatch(findPhrases(tokens, Object.keys(CITIES)));
+  const aliases = Object.entries(PROVINCE_ALIASES).flatMap(([province, names]) =>
+    names.map((name) => ({ name, province }))
+  );
+  const province = longestMatch(findPhrases(tokens, aliases.map((alias) => alias.name)));
+
+  // "jakarta selatan" is a city, while "jakarta" alone is the province
+  if (city && (!province || city.end - city.start >= province.end - province.start)) {
+    const { name, province: cityProvince } = CITIES[city.phrase];
+    return { city: name, province: cityProvince };
+  }
+  if (province) {
+    return { province: aliases.find((alias) => alias.name === province.phrase)!.province };
+  }
+
+  return undefined;
+};
+
+/**
+ * Find the courier named in a message, as its code, e.g. "jnt" for "J&T"
+ */
+export const extractCourier = (tokens: string[]): string | undefined => {
+  for (const [code, names] of Object.entries(COURIER_ALIASES)) {
+    if (findPhrases(tokens, names).length > 0) {
+      return code;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Read a parcel weight in grams, e.g. 1500 for "1,5 kg"
+ */
+export const extractWeight = (message: string): number | undefined => {
+  const match = message.match(WEIGHT_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const amount = Number(match[1].replace(",", "."));
+  const grams = /^k/i.test(match[2]) ? amount * 1000 : amount;
+  return grams > 0 ? Math.round(grams) : undefined;
+};
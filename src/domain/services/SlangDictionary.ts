@@ -0,0 +1,98 @@
+/**
+ * SlangDictionary.ts
+ * Common Indonesian chat abbreviations and slang, mapped to their standard form.
+ * Keys are single lowercase words; a value may contain several words.
+ */
+
+export const SLANG_DICTIONARY: Record<string, string> = {
+  // Question words
+  "brp": "berapa",
+  "brapa": "berapa",
+  "brpa": "berapa",
+  "gmn": "gimana",
+  "gmna": "gimana",
+  "bgmn": "bagaimana",
+  "knp": "kenapa",
+  "kpn": "kapan",
+  "dmn": "di mana",
+  "dmana": "di mana",
+  "sy": "saya",
+  "sya": "saya",
+  "aq": "aku",
+  "ak": "aku",
+  "km": "kamu",
+
+  // Negation and confirmation
+  "gk": "gak",
+  "ga": "gak",
+  "nggak": "gak",
+  "ngga": "gak",
+  "enggak": "gak",
+  "tdk": "tidak",
+  "tak": "tidak",
+  "blm": "belum",
+  "udh": "sudah",
+  "udah": "sudah",
+  "sdh": "sudah",
+  "dah": "sudah",
+  "iy": "iya",
+  "y": "ya",
+  "ok": "oke",
+  "okey": "oke",
+
+  // Connectors
+  "yg": "yang",
+  "dg": "dengan",
+  "dgn": "dengan",
+  "utk": "untuk",
+  "krn": "karena",
+  "tp": "tapi",
+  "tpi": "tapi",
+  "jg": "juga",
+  "aja": "saja",
+  "aj": "saja",
+  "sm": "sama",
+  "klo": "kalau",
+  "kalo": "kalau",
+  "kl": "kalau",
+  "lg": "lagi",
+  "bs": "bisa",
+  "bsa": "bisa",
+  "mo": "mau",
+  "pgn": "ingin",
+  "skrg": "sekarang",
+  "dr": "dari",
+  "sampe": "sampai",
+  "bgt": "banget",
+
+  // Shopping
+  "hrg": "harga",
+  "hrga": "harga",
+  "ukrn": "ukuran",
+  "ukr": "ukuran",
+  "uk": "ukuran",
+  "wrn": "warna",
+  "wrna": "warna",
+  "brg": "barang",
+  "brng": "barang",
+  "psn": "pesan",
+  "psnan": "pesanan",
+  "pesenan": "pesanan",
+  "orderan": "pesanan",
+  "ongkir": "ongkos kirim",
+  "kirimin": "kirim",
+  "tf": "transfer",
+  "rek": "rekening",
+  "gamisnya": "gamis",
+  "bajunya": "baju",
+
+  // Colloquial colors
+  "ijo": "hijau",
+  "abu2": "abu-abu",
+};
+
+// Slang that is also a common word: only expanded right after a product word,
+// e.g. "gamis item" (black gamis) but not "cek item pesanan"
+export const PRODUCT_CONTEXT_SLANG: Record<string, string> = {
+  "item": "hitam",
+};
@@ -0,0 +1,75 @@
+/**
+ * SlotSchema.ts
+ * Declarative description of the information each intent needs before it can be handled
+ */
+
+import { ExtractedEntities } from "./EntityExtractor";
+import { Intent } from "./IntentClassifier";
+import { MessageKey } from "./I18n";
+
+export interface SlotDefinition {
+  name: string;
+  // Entities that can fill the slot, in order of preference
+  entities: (keyof ExtractedEntities)[];
+  required: boolean;
+  // Catalog key of the follow-up question asked while a required slot is empty
+  prompt?: MessageKey;
+}
+
+// Slots per intent; intents without an entry need nothing
+export const INTENT_SLOTS: Partial<Record<Intent, SlotDefinition[]>> = {
+  [Intent.ORDER_TRACKING]: [
+    {
+      name: "order_id",
+      // A waybill number is tracked without the order
+      entities: ["order_id", "waybill"],
+      required: true,
+      prompt: "slot.orderId",
+    },
+  ],
+  [Intent.SHIPPING]: [
+    {
+      name: "destination",
+      entities: ["destination_city", "destination_province"],
+      required: true,
+      prompt: "slot.destination",
+    },
+    { name: "courier", entities: ["courier"], required: false },
+    { name: "weight", entities: ["weight"], required: false },
+  ],
+  [Intent.PRODUCT_SEARCH]: [
+    {
+      name: "product",
+      entities: ["product_name", "category"],
+      required: true,
+      prompt: "slot.product",
+    },
+    { name: "category", entities: ["category"], required: false },
+    { name: "color", entities: ["color"], required: false },
+    { name: "size", entities: ["size"], required: false },
+    { name: "price", entities: ["min_price", "max_price"], required: false },
+  ],
+};
+
+/**
+ * Get the slot definitions of an intent
+ */
+export const getSlots = (intent: Intent): SlotDefinition[] => INTENT_SLOTS[intent] || [];
+
+/**
+ * Check whether any of a slot's entities has a value
+ */
+export const isSlotFilled = (slot: SlotDefinition, entities: ExtractedEntities): boolean => {
+  return slot.entities.some((name) => {
+    const value = entities[name];
+    if (typeof value === "number") return true;
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+  });
+};
+
+/**
+ * Required slots of an intent that the entities do not fill yet
+ */
+export const getMissingSlots = (intent: Intent, entities: ExtractedEntities): SlotDefinition[] => {
+  return getSlots(intent).filter((slot) => slot.required && !isSlotFilled(slot, entities));
+};
@@ -0,0 +1,149 @@
+/**
+ * TextNormalizer.ts
+ * Service for cleaning up chat messages before entity extraction:
+ * expands slang and abbreviations and corrects misspelled keywords by edit distance
+ */
+
+import { SLANG_DICTIONARY, PRODUCT_CONTEXT_SLANG } from "./SlangDictionary";
+import { t, Language, DEFAULT_LANGUAGE } from "./I18n";
+
+export interface TextCorrection {
+  original: string;
+  corrected: string;
+  // "slang" expansions are certain; "typo" corrections are guesses worth confirming
+  type: "slang" | "typo";
+}
+
+export interface NormalizedText {
+  text: string;
+  corrections: TextCorrection[];
+}
+
+// Everyday words that sit one edit away from a keyword ("baru" → "biru", "tapi" → "topi")
+const COMMON_WORDS = new Set([
+  "ada", "apa", "atau", "atas", "baik", "baru", "bawah", "beli", "belum", "berapa", "besar",
+  "bisa", "bunga", "cara", "dari", "dengan", "dong", "gimana", "hari", "harga", "juga",
+  "kalau", "kamu", "kapan", "kasih", "kecil", "kirim", "kurang", "lagi", "lebih", "lengan",
+  "lihat", "mahal", "mana", "mau", "minta", "model", "motif", "murah", "paling", "panjang",
+  "pendek", "pesan", "pesanan", "saja", "sama", "sampai", "saya", "semua", "sudah", "tapi",
+  "tidak", "tolong", "ukuran", "untuk", "warna", "yang",
+  "have", "like", "more", "need", "show", "size", "that", "this", "want", "what", "when",
+  "where", "with", "your",
+]);
+
+// Words shorter than this are never corrected: too many short words are one edit apart
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Largest edit distance accepted for a word of the given length
+ */
+const getMaxDistance = (length: number): number => (length >= 7 ? 2 : 1);
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * swaps of adjacent letters ("gmais" → "gamis" is one edit)
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+/**
+ * Find the vocabulary word closest to a misspelled word, if one is close enough.
+ * Ties are not resolved: an ambiguous word is left as it is.
+ */
+const findClosestWord = (word: string, vocabulary: string[]): string | undefined => {
+  const maxDistance = getMaxDistance(word.length);
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  let tied = false;
+
+  for (const candidate of vocabulary) {
+    if (Math.abs(candidate.length - word.length) > maxDistance) continue;
+
+    const distance = editDistance(word, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance && candidate !== best) {
+      tied = true;
+    }
+  }
+
+  return best && bestDistance <= maxDistance && !tied ? best : undefined;
+};
+
+/**
+ * Normalize a message: expand slang from the dictionary, then correct words
+ * that are a small number of edits away from a vocabulary keyword
+ * @param vocabulary Single-word keywords that misspellings are corrected to
+ */
+export const normalizeText = (message: string, vocabulary: string[]): NormalizedText => {
+  const corrections: TextCorrection[] = [];
+  const known = new Set(vocabulary);
+  let previousWord = "";
+
+  const text = message.replace(/[a-z0-9]+/gi, (token) => {
+    const word = token.toLowerCase();
+    let replacement: string | undefined;
+    let type: TextCorrection["type"] = "slang";
+
+    if (SLANG_DICTIONARY[word]) {
+      replacement = SLANG_DICTIONARY[word];
+    } else if (PRODUCT_CONTEXT_SLANG[word] && known.has(previousWord)) {
+      replacement = PRODUCT_CONTEXT_SLANG[word];
+    } else if (
+      word.length >= MIN_FUZZY_LENGTH &&
+      /^[a-z]+$/.test(word) &&
+      !known.has(word) &&
+      !COMMON_WORDS.has(word)
+    ) {
+      replacement = findClosestWord(word, vocabulary);
+      type = "typo";
+    }
+
+    previousWord = replacement ?? word;
+    if (!replacement) {
+      return token;
+    }
+
+    corrections.push({ original: word, corrected: replacement, type });
+    return replacement;
+  });
+
+  return { text, corrections };
+};
+
+/**
+ * Ask the user to confirm the guessed corrections, e.g. "Maksud Anda *gamis*?"
+ * @returns An empty string when nothing was guessed
+ */
+export const formatCorrectionNotice = (
+  corrections: TextCorrection[],
+  language: Language = DEFAULT_LANGUAGE
+): string => {
+  const guesses = [...new Set(
+    corrections.filter((correction) => correction.type === "typo").map((correction) => correction.corrected)
+  )];
+  if (guesses.length === 0) {
+    return "";
+  }
+
+  return `${t(language, "correction.notice", { words: guesses.map((guess) => `*${guess}*`).join(", ") })}\n\n`;
+};
@@ -0,0 +1,75 @@
+/**
+ * Tokenizer.ts
+ * Splits messages into word tokens and matches keywords and phrases on whole words,
+ * so "hi" no longer matches inside "hitam"
+ */
+
+export interface PhraseMatch {
+  phrase: string;
+  // Token positions covered by the match, end exclusive
+  start: number;
+  end: number;
+}
+
+// Words stay whole across hyphens: "abu-abu", "t-shirt", "ord-001"
+const TOKEN_REGEX = /[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/gu;
+
+// Clause boundaries used to limit the reach of words such as "bukan"
+const CLAUSE_SEPARATOR_REGEX = /[,.;:!?\n]+/;
+
+// Indonesian particles and suffixes a keyword may carry: "pesanannya", "batalkan", "gamislah"
+const SUFFIXES = ["nya", "kan", "lah", "kah"];
+
+/**
+ * Split text into lowercase word tokens
+ */
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(TOKEN_REGEX) || [];
+};
+
+/**
+ * Split text into clauses of word tokens
+ */
+export const tokenizeClauses = (text: string): string[][] => {
+  return text.split(CLAUSE_SEPARATOR_REGEX).map(tokenize).filter((clause) => clause.length > 0);
+};
+
+/**
+ * Whether a token is the given word, possibly with a suffix attached
+ */
+export const matchesWord = (token: string, word: string): boolean => {
+  if (token === word) {
+    return true;
+  }
+
+  return SUFFIXES.some((suffix) =>
+    token.endsWith(suffix) && token.length - suffix.length >= 3 && token.slice(0, -suffix.length) === word
+  );
+};
+
+/**
+ * Find every occurrence of the phrases in the tokens, in the order of the phrases
+ */
+export const findPhrases = (tokens: string[], phrases: string[]): PhraseMatch[] => {
+  const matches: PhraseMatch[] = [];
+
+  for (const phrase of phrases) {
+    const words = tokenize(phrase);
+    if (words.length === 0) continue;
+
+    for (let start = 0; start + words.length <= tokens.length; start++) {
+      if (words.every((word, offset) => matchesWord(tokens[start + offset], word))) {
+        matches.push({ phrase, start, end: start + words.length });
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Whether any of the phrases occurs in the tokens
+ */
+export const containsPhrase = (tokens: string[], phrases: string[]): boolean => {
+  return findPhrases(tokens, phrases).length > 0;
+};
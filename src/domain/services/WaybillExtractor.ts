@@ -0,0 +1,68 @@
+/**
+ * WaybillExtractor.ts
+ * Service for reading courier waybill (resi) numbers from messages
+ * and guessing the courier from the number's format
+ */
+
+import { tokenize, findPhrases } from "./Tokenizer";
+
+// Number formats per courier code; a number may fit more than one
+const WAYBILL_FORMATS: Record<string, RegExp> = {
+  jne: /^(?:[A-Z]{3,5}\d{8,13}|\d{15,16})$/,
+  jnt: /^J[A-Z]\d{10}$/,
+  sicepat: /^00\d{10}$/,
+  pos: /^(?:[A-Z]{2}\d{9}[A-Z]{2}|P\d{12,14})$/,
+};
+
+// Words a waybill number follows: "resi JP1234567890", "no. resi: 001234567890", "AWB ..."
+const WAYBILL_KEYWORDS = ["resi", "awb", "waybill", "airway bill", "tracking number", "nomor pelacakan"];
+
+// Words that may be followed by a waybill or by an order number ("lacak ORD-001"),
+// so the number has to have a courier's format
+const TRACKING_KEYWORDS = ["lacak", "track", "paket", "parcel", "kiriman"];
+
+// Tokens between the keyword and the number, e.g. "resi jne nomor 0012..."
+const MAX_WAYBILL_DISTANCE = 3;
+
+const looksLikeWaybill = (token: string): boolean => {
+  return token.length >= 8 && token.length <= 20 && /\d/.test(token) && /^[a-z0-9]+$/i.test(token);
+};
+
+/**
+ * Couriers whose waybill numbers look like the given one
+ */
+export const guessCouriers = (waybill: string): string[] => {
+  const value = waybill.toUpperCase();
+  return Object.keys(WAYBILL_FORMATS).filter((courier) => WAYBILL_FORMATS[courier].test(value));
+};
+
+const findAfter = (
+  tokens: string[],
+  keywords: string[],
+  accepts: (token: string) => boolean
+): string | undefined => {
+  for (const match of findPhrases(tokens, keywords)) {
+    const waybill = tokens.slice(match.end, match.end + MAX_WAYBILL_DISTANCE).find(accepts);
+    if (waybill) {
+      return waybill.toUpperCase();
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find a waybill number following a word such as "resi", "AWB" or "lacak"
+ */
+export const extractWaybill = (message: string): string | undefined => {
+  const tokens = tokenize(message);
+  return findAfter(tokens, WAYBILL_KEYWORDS, looksLikeWaybill) ??
+    findAfter(tokens, TRACKING_KEYWORDS, (token) => looksLikeWaybill(token) && guessCouriers(token).length > 0);
+};
+
+/**
+ * Read a message that is nothing but a waybill number in a known courier format
+ */
+export const extractBareWaybill = (message: string): string | undefined => {
+  const value = message.trim().replace(/^#/, "").toUpperCase();
+  return guessCouriers(value).length > 0 ? value : undefined;
+};
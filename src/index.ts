@@ -5,11 +5,24 @@ import path from 'path';
 import cookieParser from 'cookie-parser';
 
 import chatRoutes from './infrastructure/routes/chatRoutes';
+import adminRoutes from './infrastructure/routes/adminRoutes';
+import { reloadKnowledgeBase } from './application/services/KnowledgeBaseService';
+import { loadIntentModel } from './application/services/IntentModelService';
+import { startSessionSweeper } from './application/services/ConversationStateManager';
+import { createWhatsAppRoutes } from './infrastructure/routes/whatsappRoutes';
+import { createWhatsAppClientFromEnv } from './infrastructure/whatsapp/WhatsAppClient';
 
 dotenv.config();
 
 const app = express();
 const port = process.env.PORT || 3000;
+const waPort = process.env.PORT_WA || 3001;
+
+// Behind a reverse proxy, take the client IP for rate limiting from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 
 app.use(cors({
   origin: process.env.ANINKA_APP_URL || 'http://localhost:3000',
@@ -22,11 +35,45 @@ app.use(cookieParser());
 app.use(express.static(path.join(__dirname, 'public')));
 
 app.use('/api', chatRoutes);
+app.use('/api/admin', adminRoutes);
 
 app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, 'public', 'index.html'));
 });
 
+app.get('/redirect-whatsapp', (req, res) => {
+  res.redirect(`https://wa.me/${process.env.WHATSAPP_NUMBER ?? ''}`);
+});
+
 app.listen(port, () => {
   console.log(`Server is running on port ${port}`);
 });
+
+// Remove idle conversations in the background
+startSessionSweeper();
+
+// Index the knowledge base up front instead of on the first question
+reloadKnowledgeBase().catch((error) => {
+  console.error('Error loading knowledge base:', error);
+});
+
+// Train the intent model; until it is ready the keyword rules classify alone
+loadIntentModel().catch((error) => {
+  console.error('Error training intent model:', error);
+});
+
+// WhatsApp webhook runs as a separate app on its own port
+const waApp = express();
+
+// Keep the raw body so the webhook signature can be verified
+waApp.use(express.json({
+  verify: (req, res, buf) => {
+    (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+  }
+}));
+
+waApp.use('/', createWhatsAppRoutes(createWhatsAppClientFromEnv()));
+
+waApp.listen(waPort, () => {
+  console.log(`WhatsApp webhook is running on port ${waPort}`);
+});
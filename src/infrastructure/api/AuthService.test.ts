@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APP_KEY, PREVIOUS_KEY, VECTORS } from '../laravel/laravelVectors.fixture';
+
+// The cipher and cookie serialization are read when the module loads
+const loadAuthService = async (env: Record<string, string>) => {
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return import('./AuthService');
+};
+
+describe('extractAuthToken', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('reads the token from an encrypted aninka_session cookie', async () => {
+    const { extractAuthToken } = await loadAuthService({ ANINKA_APP_KEY: APP_KEY, ANINKA_APP_CIPHER: 'AES-256-CBC' });
+    expect(extractAuthToken(VECTORS.cookie)).toBe('5|abcdef');
+  });
+
+  it('reads serialized cookies', async () => {
+    const { extractAuthToken } = await loadAuthService({
+      ANINKA_APP_KEY: APP_KEY,
+      ANINKA_APP_CIPHER: 'AES-256-CBC',
+      ANINKA_SERIALIZED_COOKIES: 'true'
+    });
+    expect(extractAuthToken(VECTORS.cookieSerialized)).toBe('5|abcdef');
+  });
+
+  it('reads AES-256-GCM cookies', async () => {
+    const { extractAuthToken } = await loadAuthService({ ANINKA_APP_KEY: APP_KEY, ANINKA_APP_CIPHER: 'AES-256-GCM' });
+    expect(extractAuthToken(VECTORS.cookieGcm)).toBe('7|gcm-token');
+  });
+
+  it('reads cookies encrypted before a key rotation', async () => {
+    const { extractAuthToken } = await loadAuthService({
+      ANINKA_APP_KEY: PREVIOUS_KEY,
+      ANINKA_APP_PREVIOUS_KEYS: APP_KEY,
+      ANINKA_APP_CIPHER: 'AES-256-CBC'
+    });
+    expect(extractAuthToken(VECTORS.cookie)).toBe('5|abcdef');
+  });
+
+  it('rejects a cookie sent under another name', async () => {
+    const { decryptLaravelCookie } = await loadAuthService({ ANINKA_APP_KEY: APP_KEY, ANINKA_APP_CIPHER: 'AES-256-CBC' });
+    expect(decryptLaravelCookie(VECTORS.cookie, 'XSRF-TOKEN')).toMatchObject({ success: false, error: { code: 'invalid_cookie_prefix' } });
+  });
+});
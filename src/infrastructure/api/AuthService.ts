@@ -3,63 +3,51 @@
  * Service for handling authentication and cookie decryption
  */
 
-import crypto from 'crypto';
+import dotenv from 'dotenv';
+import {
+  LaravelDecryptResult,
+  createLaravelKeyRing,
+  decryptLaravelPayload,
+  removeCookieValuePrefix
+} from '../laravel/LaravelEncrypter';
+dotenv.config();
 
-/**
- * Decrypt Laravel cookie to extract authentication token
- * @param cookie - The encrypted Laravel cookie
- * @returns The decrypted cookie content or null if decryption fails
- */
-export function decryptLaravelCookie(cookie: string): string | null { 
-  if (!cookie) return null; 
-
-  console.log("Encrypted cookie:", cookie); 
-
-  try { 
-    const payload = JSON.parse( 
-      Buffer.from(cookie, "base64").toString() 
-    ); 
-
-    const iv = Buffer.from(payload.iv, "base64"); 
-    const value = Buffer.from(payload.value, "base64"); 
-    const mac = payload.mac; 
-
-    let appKey = process.env.ANINKA_APP_KEY; 
+// Cipher from Laravel's config/app.php
+const APP_CIPHER = process.env.ANINKA_APP_CIPHER ?? 'AES-256-CBC';
 
-    if (!appKey) { 
-      throw new Error("APP_KEY not found in environment variables."); 
-    } 
+// Laravel before 5.6.30, or an EncryptCookies middleware with $serialize = true, serializes cookie values
+const SERIALIZED_COOKIES = process.env.ANINKA_SERIALIZED_COOKIES === 'true';
 
-    // Laravel APP_KEY is base64 encoded, remove 'base64:' prefix and decode 
-    const decodedAppKey = Buffer.from(appKey.replace("base64:", ""), "base64"); 
+// Session cookie the chat controllers read; its name is part of the cookie value prefix
+const SESSION_COOKIE_NAME = 'aninka_session';
 
-    // Laravel uses the decoded APP_KEY directly as the encryption and MAC key 
-    const encryptionKey = decodedAppKey; 
-
-    console.log("Encryption Key (hex):", encryptionKey.toString("hex")); 
-
-    // Verify MAC 
-    const expectedMac = crypto 
-      .createHmac("sha256", encryptionKey) 
-      .update(payload.iv + payload.value) 
-      .digest("hex"); 
-
-    if (expectedMac !== mac) { 
-      throw new Error("Invalid MAC — possible tampering or wrong APP_KEY."); 
-    } 
-
-    // Decrypt with AES-256-CBC 
-    const decipher = crypto.createDecipheriv("aes-256-cbc", encryptionKey, iv); 
-    decipher.setAutoPadding(true); 
+/**
+ * Decrypt a Laravel cookie with ANINKA_APP_KEY or one of ANINKA_APP_PREVIOUS_KEYS
+ * @param cookie - The encrypted Laravel cookie
+ * @param cookieName - Name the cookie was set under, checked against the value prefix
+ * @returns The decrypted cookie content, or why it could not be decrypted
+ */
+export function decryptLaravelCookie(
+  cookie: string,
+  cookieName: string = SESSION_COOKIE_NAME
+): LaravelDecryptResult<string> {
+  const keyRing = createLaravelKeyRing(process.env.ANINKA_APP_KEY, process.env.ANINKA_APP_PREVIOUS_KEYS, APP_CIPHER);
+  if (!keyRing.success) {
+    return keyRing;
+  }
 
-    let decrypted = decipher.update(value, undefined, "utf8"); 
-    decrypted += decipher.final("utf8"); 
+  const decrypted = decryptLaravelPayload(cookie, keyRing.value, { unserialize: SERIALIZED_COOKIES });
+  if (!decrypted.success) {
+    return decrypted;
+  }
+  if (typeof decrypted.value !== 'string') {
+    return {
+      success: false,
+      error: { code: 'invalid_serialized_value', message: 'The cookie value is not a string.' }
+    };
+  }
 
-    return decrypted; 
-  } catch (error) { 
-    console.error("Laravel cookie decryption error:", error); 
-    return null; 
-  } 
+  return removeCookieValuePrefix(cookieName, decrypted.value, keyRing.value);
 }
 
 /**
@@ -69,28 +57,21 @@ export function decryptLaravelCookie(cookie: string): string | null {
  */
 export function extractAuthToken(cookie: string): string | null {
   const decrypted = decryptLaravelCookie(cookie);
-  if (!decrypted) return null;
-  
-  try {
-
-    // biasanya formatnya: id|token|hash
-    const parts = decrypted.split("|");
-    let bearerToken;
+  if (!decrypted.success) {
+    console.error(`Laravel cookie rejected (${decrypted.error.code}): ${decrypted.error.message}`);
+    return null;
+  }
 
-    if (parts.length === 3) {
-      // ambil tengah + kanan biar match dengan Laravel
-      bearerToken = `${parts[1]}|${parts[2]}`;
-    } else if (parts.length === 2) {
-      bearerToken = `${parts[0]}|${parts[1]}`;
-    } else {
-      bearerToken = decrypted; // fallback
-    }
+  const value = decrypted.value;
+  if (!value.startsWith('{')) {
+    // A plain value is the token itself, e.g. a Sanctum "id|token"
+    return value || null;
+  }
 
-    console.log("Bearer Token:", bearerToken);
+  try {
     // Parse the decrypted content to extract the token
-    // Adjust according to the actual structure of your Laravel cookie
-    const data = JSON.parse(decrypted);
-    
+    const data = JSON.parse(value);
+
     // Look for common Laravel auth token fields
     if (data.token) {
       return data.token;
@@ -101,7 +82,7 @@ export function extractAuthToken(cookie: string): string | null {
     } else if (data.user && data.user.api_token) {
       return data.user.api_token;
     }
-    
+
     // If no token found in expected fields, return null
     return null;
   } catch (error) {
@@ -112,13 +93,10 @@ export function extractAuthToken(cookie: string): string | null {
 
 /**
  * Get authentication headers with bearer token
- * @param cookie - The encrypted Laravel cookie
- * @returns Headers object with Authorization header or empty object if extraction fails
+ * @param token - The customer's API token, see extractAuthToken
+ * @returns Headers object with Authorization header
  */
-export function getAuthHeaders(cookie: string): Record<string, string> {
-  const token = extractAuthToken(cookie);
-  if (!token) return {};
-  
+export function getAuthHeaders(token: string): Record<string, string> {
   return {
     'Authorization': `Bearer ${token}`,
     'Content-Type': 'application/json'
@@ -5,9 +5,27 @@
 
 import axios from 'axios';
 import { getAuthHeaders } from './AuthService';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import { formatPriceRange } from '../../domain/services/PriceExtractor';
+import { getFreeShippingThreshold } from '../../domain/services/MembershipBenefits';
+import { COURIER_NAMES } from '../../domain/services/ShippingExtractor';
+import { t, formatCurrency, formatDate, formatDateTime, Language, MessageKey, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { OrderListFilters, ProductReference } from '../../domain/entities/ConversationState';
+import { ShipmentStatus, ShipmentTracking } from '../../domain/entities/Shipment';
+import {
+  ChatResponse,
+  OrderSummary,
+  ProductCard,
+  RichMessage,
+  TrackingTimeline,
+  createTextResponse,
+  handoffMessage,
+  quickReplies,
+  textMessage
+} from '../../domain/entities/ChatResponse';
 
 // Define interfaces for API responses
-interface ApiProduct {
+export interface ApiProduct {
   id: string;
   name: string;
   description: string;
@@ -17,27 +35,34 @@ interface ApiProduct {
   inStock: boolean;
   color?: string;
   size?: string;
+  // Shipping weight in grams
+  weight?: number;
 }
 
-interface ApiOrder {
+export interface ApiOrder {
   id: string;
   customerId: string;
   items: ApiOrderItem[];
   totalAmount: number;
   status: string;
   trackingNumber?: string;
+  // Courier code of the tracking number, e.g. "jne"
+  courier?: string;
+  // Contact given at checkout, which a guest must repeat to see the order
+  customerEmail?: string;
+  customerPhone?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-interface ApiOrderItem {
+export interface ApiOrderItem {
   productId: string;
   productName: string;
   quantity: number;
   price: number;
 }
 
-interface ApiUser {
+export interface ApiUser {
   id: string;
   name: string;
   email: string;
@@ -46,6 +71,40 @@ interface ApiUser {
   registeredSince: string;
 }
 
+export interface ApiCart {
+  items: ApiCartItem[];
+  totalAmount: number;
+}
+
+export interface ApiCartItem {
+  id: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  price: number;
+  size?: string;
+  color?: string;
+  imageUrl?: string;
+  weight?: number;
+}
+
+// A shipping quote calculated by the backend
+export interface ApiShippingQuote {
+  courier: string;
+  service: string;
+  cost: number;
+  minDays: number;
+  maxDays: number;
+}
+
+export interface ShippingEstimateRequest {
+  city?: string;
+  province: string;
+  // Parcel weight in grams
+  weight: number;
+  courier?: string;
+}
+
 interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -64,9 +123,59 @@ interface PaginatedResponse<T> {
   message?: string;
 }
 
+// Optional product search filters beyond keyword, category, color and size
+export interface ProductSearchFilters {
+  min_price?: number;
+  max_price?: number;
+  exclude_colors?: string[];
+  exclude_categories?: string[];
+}
+
+// Order fields needed for a summary card; the mock orders use Date timestamps
+type OrderSummarySource = Omit<ApiOrder, 'customerId' | 'createdAt' | 'updatedAt'> & {
+  createdAt: string | Date;
+};
+
+// One page of search results with the totals of the whole search
+export interface ProductPage<T = ApiProduct> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export type PageInfo = Omit<ProductPage, 'items'>;
+
+export interface CancelOrderResult {
+  success: boolean;
+  order?: ApiOrder;
+  message?: string;
+}
+
+// Courier scans shown in a tracking reply, newest first
+const TRACKING_CHECKPOINT_LIMIT = 5;
+
+const TRACKING_STATUS_KEYS: Record<ShipmentStatus, MessageKey> = {
+  pending_pickup: 'tracking.status.pending_pickup',
+  picked_up: 'tracking.status.picked_up',
+  in_transit: 'tracking.status.in_transit',
+  out_for_delivery: 'tracking.status.out_for_delivery',
+  delivered: 'tracking.status.delivered',
+  returned: 'tracking.status.returned',
+  exception: 'tracking.status.exception'
+};
+
 // Base API URL from environment variable
 const API_BASE_URL = process.env.ANINKA_APP_URL || 'https://api.aninkafashion.com';
 
+/**
+ * Authorization headers for the logged-in customer, none for guests
+ */
+const getCustomerHeaders = (customer?: CustomerContext | null): Record<string, string> => {
+  return customer ? getAuthHeaders(customer.token) : {};
+};
+
 /**
  * Search products from external API
  */
@@ -77,8 +186,27 @@ export const searchProductsExternal = async (
   size?: string,
   page: number = 1,
   limit: number = 10,
-  cookie?: string
+  customer?: CustomerContext | null,
+  filters: ProductSearchFilters = {}
 ): Promise<ApiProduct[]> => {
+  const result = await searchProductsPageExternal(keyword, category, color, size, page, limit, customer, filters);
+  return result?.items ?? [];
+};
+
+/**
+ * Search products from external API, keeping the page totals
+ * @returns The page, or null if the backend could not be reached
+ */
+export const searchProductsPageExternal = async (
+  keyword?: string,
+  category?: string,
+  color?: string,
+  size?: string,
+  page: number = 1,
+  limit: number = 10,
+  customer?: CustomerContext | null,
+  filters: ProductSearchFilters = {}
+): Promise<ProductPage | null> => {
   try {
     // Build query parameters
     const params: Record<string, string | number> = { page, limit };
@@ -86,9 +214,13 @@ export const searchProductsExternal = async (
     if (category) params.category = category;
     if (color) params.color = color;
     if (size) params.size = size;
+    if (filters.min_price !== undefined) params.min_price = filters.min_price;
+    if (filters.max_price !== undefined) params.max_price = filters.max_price;
+    if (filters.exclude_colors?.length) params.exclude_colors = filters.exclude_colors.join(',');
+    if (filters.exclude_categories?.length) params.exclude_categories = filters.exclude_categories.join(',');
     
-    // Get auth headers if cookie is provided
-    const headers = cookie ? getAuthHeaders(cookie) : {};
+    // Auth headers for logged-in customers
+    const headers = getCustomerHeaders(customer);
     
     // Make API request
     const response = await axios.get<PaginatedResponse<ApiProduct>>(
@@ -97,30 +229,53 @@ export const searchProductsExternal = async (
     );
     
     if (response.data.success) {
-      return response.data.data.items;
+      const { items, total, totalPages } = response.data.data;
+      return {
+        // Applied here as well in case the backend ignores the exclusion parameters
+        items: items.filter((product) => !isExcluded(product, filters)),
+        total,
+        page,
+        limit,
+        totalPages
+      };
     }
     
-    return [];
+    return null;
   } catch (error) {
     console.error('Error searching products from external API:', error);
-    return [];
+    return null;
   }
 };
 
+/**
+ * Whether a product has a color or category the customer ruled out
+ */
+export const isExcluded = (
+  product: { color?: string; category: string },
+  filters: ProductSearchFilters
+): boolean => {
+  const color = product.color?.toLowerCase();
+  const category = product.category.toLowerCase();
+  return Boolean(
+    (color && filters.exclude_colors?.includes(color)) ||
+    filters.exclude_categories?.includes(category)
+  );
+};
+
 /**
  * Get product by ID from external API
  */
 export const getProductByIdExternal = async (
   productId: string,
-  cookie?: string
+  customer?: CustomerContext | null
 ): Promise<ApiProduct | null> => {
   try {
-    // Get auth headers if cookie is provided
-    const headers = cookie ? getAuthHeaders(cookie) : {};
+    // Auth headers for logged-in customers
+    const headers = getCustomerHeaders(customer);
     
     // Make API request
     const response = await axios.get<ApiResponse<ApiProduct>>(
-      `${API_BASE_URL}/api/products/${productId}`,
+      `${API_BASE_URL}/api/products/${encodeURIComponent(productId)}`,
       { headers }
     );
     
@@ -140,15 +295,15 @@ export const getProductByIdExternal = async (
  */
 export const getOrderByIdExternal = async (
   orderId: string,
-  cookie?: string
+  customer?: CustomerContext | null
 ): Promise<ApiOrder | null> => {
   try {
-    // Get auth headers if cookie is provided
-    const headers = cookie ? getAuthHeaders(cookie) : {};
+    // Auth headers for logged-in customers
+    const headers = getCustomerHeaders(customer);
     
     // Make API request
     const response = await axios.get<ApiResponse<ApiOrder>>(
-      `${API_BASE_URL}/api/orders/${orderId}`,
+      `${API_BASE_URL}/api/orders/${encodeURIComponent(orderId)}`,
       { headers }
     );
     
@@ -164,26 +319,201 @@ export const getOrderByIdExternal = async (
 };
 
 /**
- * Get user status from external API
+ * List the logged-in customer's orders from external API, newest first
+ * @returns The page, or null if the backend could not be reached
  */
-export const getUserStatusExternal = async (
-  userId: string,
-  cookie?: string
-): Promise<ApiUser | null> => {
+export const getOrdersExternal = async (
+  customer: CustomerContext,
+  page: number = 1,
+  limit: number = 10,
+  filters: OrderListFilters = {}
+): Promise<ProductPage<ApiOrder> | null> => {
   try {
-    // Auth headers are required for user status
-    if (!cookie) {
-      console.error('Cookie is required for user status API');
-      return null;
+    const params: Record<string, string | number> = { page, limit };
+    if (filters.status) params.status = filters.status;
+    if (filters.from) params.from = filters.from;
+    if (filters.to) params.to = filters.to;
+
+    const response = await axios.get<PaginatedResponse<ApiOrder>>(
+      `${API_BASE_URL}/api/orders`,
+      { params, headers: getCustomerHeaders(customer) }
+    );
+
+    if (response.data.success) {
+      const { items, total, totalPages } = response.data.data;
+      return { items, total, page, limit, totalPages };
     }
-    
-    const headers = getAuthHeaders(cookie);
-    
+
+    return null;
+  } catch (error) {
+    console.error('Error listing orders from external API:', error);
+    return null;
+  }
+};
+
+/**
+ * Cancel an order through the external API
+ * @returns The outcome, or null if the backend could not be reached
+ */
+export const cancelOrderExternal = async (
+  orderId: string,
+  customer?: CustomerContext | null,
+  reason?: string
+): Promise<CancelOrderResult | null> => {
+  try {
+    // Auth headers for logged-in customers
+    const headers = getCustomerHeaders(customer);
+
     // Make API request
-    const response = await axios.get<ApiResponse<ApiUser>>(
-      `${API_BASE_URL}/api/users/${userId}/status`,
+    const response = await axios.post<ApiResponse<ApiOrder>>(
+      `${API_BASE_URL}/api/orders/${encodeURIComponent(orderId)}/cancel`,
+      { reason },
       { headers }
     );
+
+    return {
+      success: response.data.success,
+      order: response.data.success ? response.data.data : undefined,
+      message: response.data.message
+    };
+  } catch (error) {
+    // The backend refused the cancellation, e.g. because the order already shipped
+    const data = (error as { response?: { data?: ApiResponse<unknown> } }).response?.data;
+    if (data && typeof data === 'object' && 'success' in data) {
+      return { success: false, message: data.message };
+    }
+
+    console.error('Error cancelling order through external API:', error);
+    return null;
+  }
+};
+
+/**
+ * Send a cart request for the logged-in customer
+ * @returns The cart after the request, or null if it failed
+ */
+const requestCartExternal = async (
+  method: 'get' | 'post' | 'patch' | 'delete',
+  path: string,
+  customer: CustomerContext,
+  body?: Record<string, unknown>
+): Promise<ApiCart | null> => {
+  try {
+    const url = `${API_BASE_URL}/api/cart${path}`;
+    const config = { headers: getCustomerHeaders(customer) };
+
+    // Make API request
+    const response = method === 'get' || method === 'delete'
+      ? await axios[method]<ApiResponse<ApiCart>>(url, config)
+      : await axios[method]<ApiResponse<ApiCart>>(url, body, config);
+
+    if (response.data.success) {
+      return response.data.data;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error calling cart API:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the cart of the logged-in customer from external API
+ */
+export const getCartExternal = (customer: CustomerContext): Promise<ApiCart | null> => {
+  return requestCartExternal('get', '', customer);
+};
+
+/**
+ * Add a product to the cart of the logged-in customer
+ */
+export const addCartItemExternal = (
+  customer: CustomerContext,
+  item: { productId: string; quantity: number; size?: string; color?: string }
+): Promise<ApiCart | null> => {
+  return requestCartExternal('post', '/items', customer, item);
+};
+
+/**
+ * Change the quantity of a cart line of the logged-in customer
+ */
+export const updateCartItemExternal = (
+  customer: CustomerContext,
+  itemId: string,
+  quantity: number
+): Promise<ApiCart | null> => {
+  return requestCartExternal('patch', `/items/${encodeURIComponent(itemId)}`, customer, { quantity });
+};
+
+/**
+ * Remove a line from the cart of the logged-in customer
+ */
+export const removeCartItemExternal = (customer: CustomerContext, itemId: string): Promise<ApiCart | null> => {
+  return requestCartExternal('delete', `/items/${encodeURIComponent(itemId)}`, customer);
+};
+
+/**
+ * Get shipping quotes from the backend
+ * @returns The quotes, or null if the backend cannot estimate shipping
+ */
+export const estimateShippingExternal = async (
+  request: ShippingEstimateRequest,
+  customer?: CustomerContext | null
+): Promise<ApiShippingQuote[] | null> => {
+  try {
+    // Auth headers for logged-in customers
+    const headers = getCustomerHeaders(customer);
+
+    // Make API request
+    const response = await axios.post<ApiResponse<ApiShippingQuote[]>>(
+      `${API_BASE_URL}/api/shipping/estimate`,
+      request,
+      { headers }
+    );
+
+    if (response.data.success && Array.isArray(response.data.data)) {
+      return response.data.data;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error estimating shipping through external API:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the customer an API token belongs to from external API
+ */
+export const getCurrentUserExternal = async (token: string): Promise<ApiUser | null> => {
+  try {
+    const response = await axios.get<ApiResponse<ApiUser>>(
+      `${API_BASE_URL}/api/user`,
+      { headers: getAuthHeaders(token) }
+    );
+
+    if (response.data.success) {
+      return response.data.data;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error getting current user from external API:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the membership status of the logged-in customer from external API
+ */
+export const getUserStatusExternal = async (customer: CustomerContext): Promise<ApiUser | null> => {
+  try {
+    // Make API request
+    const response = await axios.get<ApiResponse<ApiUser>>(
+      `${API_BASE_URL}/api/users/${encodeURIComponent(customer.userId)}/status`,
+      { headers: getCustomerHeaders(customer) }
+    );
     
     if (response.data.success) {
       return response.data.data;
@@ -196,134 +526,433 @@ export const getUserStatusExternal = async (
   }
 };
 
+/**
+ * Card shown for a product in a product carousel
+ */
+export const toProductCard = (
+  product: ApiProduct,
+  language: Language = DEFAULT_LANGUAGE
+): ProductCard => ({
+  id: product.id,
+  name: product.name,
+  description: product.description,
+  price: product.price,
+  priceLabel: formatCurrency(product.price, language),
+  stockLabel: t(language, product.inStock ? 'product.inStock' : 'product.outOfStock'),
+  inStock: product.inStock,
+  imageUrl: product.imageUrl || undefined,
+  category: product.category,
+  color: product.color,
+  size: product.size
+});
+
+/**
+ * Product as remembered from the last search results
+ */
+export const toProductReference = (product: ApiProduct, position?: number): ProductReference => ({
+  id: product.id,
+  name: product.name,
+  category: product.category,
+  price: product.price,
+  inStock: product.inStock,
+  color: product.color,
+  size: product.size,
+  position
+});
+
+/**
+ * Summary card of an order, from the external API or the mock data
+ */
+export const toOrderSummary = (
+  order: OrderSummarySource,
+  language: Language = DEFAULT_LANGUAGE
+): OrderSummary => ({
+  id: order.id,
+  status: order.status,
+  statusLabel: getOrderStatusLabel(order.status, language),
+  dateLabel: t(language, 'order.date', { date: formatDate(order.createdAt, language) }),
+  trackingLabel: order.trackingNumber
+    ? t(language, 'order.trackingNumber', { trackingNumber: order.trackingNumber })
+    : undefined,
+  totalLabel: t(language, 'order.total', { amount: formatCurrency(order.totalAmount, language) }),
+  items: order.items.map((item) => ({
+    name: item.productName,
+    quantity: item.quantity,
+    price: item.price,
+    priceLabel: formatCurrency(item.price, language)
+  }))
+});
+
 /**
  * Format product information from external API for chat response
+ * @param pageInfo Totals of the whole search when the products are one page of it
  */
-export const formatExternalProductResponse = (products: ApiProduct[]): string => {
+export const formatExternalProductResponse = (
+  products: ApiProduct[],
+  filters: ProductSearchFilters = {},
+  language: Language = DEFAULT_LANGUAGE,
+  pageInfo?: PageInfo
+): ChatResponse => {
+  const priceFilter = formatPriceRange(filters, language);
+  const filter = priceFilter ? t(language, 'product.priceFilter', { price: priceFilter }) : '';
+  const stockLabel = (product: ApiProduct) =>
+    t(language, product.inStock ? 'product.inStock' : 'product.outOfStock');
+
   if (products.length === 0) {
-    return 'Maaf, saya tidak menemukan produk yang sesuai dengan pencarian Anda. Silakan coba dengan kata kunci lain.';
+    if (priceFilter) {
+      return createTextResponse(t(language, 'product.notFoundInPriceRange', { price: priceFilter }));
+    }
+    return createTextResponse(t(language, 'product.notFound'));
   }
+
+  const carousel: RichMessage = {
+    type: 'product_carousel',
+    products: products.map((product) => toProductCard(product, language))
+  };
+  const total = pageInfo?.total ?? products.length;
+  // Numbering continues across pages: page 2 of 5 starts at 6
+  const start = pageInfo ? (pageInfo.page - 1) * pageInfo.limit + 1 : 1;
   
-  if (products.length === 1) {
-    const product = products[0];
-    let response = `Saya menemukan produk yang Anda cari:\n\n` +
-      `**${product.name}**\n` +
-      `${product.description}\n` +
-      `Harga: Rp ${product.price.toLocaleString('id-ID')}\n` +
-      `Kategori: ${product.category}\n`;
-      
-    if (product.color) {
-      response += `Warna: ${product.color}\n`;
-    }
-    
-    if (product.size) {
-      response += `Ukuran: ${product.size}\n`;
-    }
-    
-    response += `Status: ${product.inStock ? 'Tersedia' : 'Stok Habis'}`;
+  if (products.length === 1 && total === 1) {
+    const heading = t(language, 'product.foundOne', { filter });
+    const response = `${heading}\n\n${formatProductDetails(products[0], language)}`;
     
-    return response;
+    return { text: response, messages: [textMessage(heading), carousel] };
   }
   
   // Multiple products found
-  let response = `Saya menemukan ${products.length} produk yang sesuai dengan pencarian Anda:\n\n`;
+  const heading = t(language, 'product.foundMany', { count: total, filter });
+  let response = `${heading}\n\n`;
   
   products.forEach((product, index) => {
-    response += `${index + 1}. **${product.name}** - Rp ${product.price.toLocaleString('id-ID')} (${product.inStock ? 'Tersedia' : 'Stok Habis'})\n`;
+    response += `${start + index}. **${product.name}** - ${formatCurrency(product.price, language)} (${stockLabel(product)})\n`;
   });
+
+  const messages: RichMessage[] = [textMessage(heading), carousel];
+  const navigation: string[] = [];
+
+  // "Menampilkan 6–10 dari 42" with buttons to the neighbouring pages
+  if (pageInfo && pageInfo.totalPages > 1) {
+    const showing = t(language, 'product.showing', { start, end: start + products.length - 1, total });
+    response += `\n${showing}\n`;
+    messages.push(textMessage(showing));
+
+    if (pageInfo.page > 1) {
+      navigation.push(t(language, 'quickReply.previousPage'));
+    }
+    if (pageInfo.page < pageInfo.totalPages) {
+      navigation.push(t(language, 'quickReply.nextPage'));
+    }
+  }
   
-  response += '\nSilakan tanyakan lebih detail tentang produk yang Anda minati.';
+  response += `\n${t(language, 'product.askDetails')}`;
+  messages.push(textMessage(t(language, 'product.askDetails')));
+  if (navigation.length > 0) {
+    messages.push(quickReplies(navigation));
+  }
   
-  return response;
+  return { text: response, messages };
 };
 
 /**
- * Format order information from external API for chat response
+ * Name, description, price, category, color, size and stock of a product
  */
-export const formatExternalOrderResponse = (order: ApiOrder | null): string => {
-  if (!order) {
-    return 'Maaf, saya tidak dapat menemukan pesanan dengan ID tersebut. Mohon periksa kembali nomor pesanan Anda.';
+const formatProductDetails = (product: ApiProduct, language: Language): string => {
+  let response = `**${product.name}**\n` +
+    `${product.description}\n` +
+    `${t(language, 'product.price', { price: formatCurrency(product.price, language) })}\n` +
+    `${t(language, 'product.category', { category: product.category })}\n`;
+
+  if (product.color) {
+    response += `${t(language, 'product.color', { color: product.color })}\n`;
   }
-  
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('id-ID', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+
+  if (product.size) {
+    response += `${t(language, 'product.size', { size: product.size })}\n`;
+  }
+
+  const stock = t(language, product.inStock ? 'product.inStock' : 'product.outOfStock');
+  return response + t(language, 'product.status', { status: stock });
+};
+
+/**
+ * Format the detail view of a single product
+ */
+export const formatProductDetailResponse = (
+  product: ApiProduct,
+  language: Language = DEFAULT_LANGUAGE
+): ChatResponse => {
+  return {
+    text: formatProductDetails(product, language),
+    messages: [
+      { type: 'product_carousel', products: [toProductCard(product, language)] },
+      textMessage(product.description)
+    ]
   };
-  
-  const getStatusInIndonesian = (status: string): string => {
-    const statusMap: Record<string, string> = {
-      'pending': 'Menunggu Pembayaran',
-      'processing': 'Sedang Diproses',
-      'shipped': 'Dalam Pengiriman',
-      'delivered': 'Telah Diterima',
-      'cancelled': 'Dibatalkan'
-    };
-    
-    return statusMap[status.toLowerCase()] || status;
+};
+
+/**
+ * Get the label for an order status in the given language
+ */
+export const getOrderStatusLabel = (status: string, language: Language = DEFAULT_LANGUAGE): string => {
+  const statusKeys: Record<string, MessageKey> = {
+    'pending': 'order.status.pending',
+    'processing': 'order.status.processing',
+    'shipped': 'order.status.shipped',
+    'delivered': 'order.status.delivered',
+    'cancelled': 'order.status.cancelled'
   };
+
+  const key = statusKeys[status.toLowerCase()];
+  return key ? t(language, key) : status;
+};
+
+/**
+ * Format order information from external API for chat response
+ */
+export const formatExternalOrderResponse = (
+  order: ApiOrder | null,
+  language: Language = DEFAULT_LANGUAGE,
+  tracking?: ShipmentTracking | null
+): ChatResponse => {
+  if (!order) {
+    return createTextResponse(t(language, 'order.notFound'));
+  }
   
-  let response = `Informasi Pesanan **${order.id}**:\n\n`;
-  response += `Status: **${getStatusInIndonesian(order.status)}**\n`;
-  response += `Tanggal Pemesanan: ${formatDate(order.createdAt)}\n`;
+  let response = `${t(language, 'order.title', { id: order.id })}\n\n`;
+  response += `${t(language, 'order.status', { status: getOrderStatusLabel(order.status, language) })}\n`;
+  response += `${t(language, 'order.date', { date: formatDate(order.createdAt, language) })}\n`;
   
-  if (order.trackingNumber && order.status.toLowerCase() === 'shipped') {
-    response += `Nomor Pelacakan: ${order.trackingNumber}\n`;
-    response += `Pesanan Anda sedang dalam perjalanan. Anda dapat melacak pengiriman dengan nomor pelacakan di atas.\n`;
+  if (tracking) {
+    response += `\n${formatTrackingText(tracking, language)}\n`;
+  } else if (order.trackingNumber && order.status.toLowerCase() === 'shipped') {
+    response += `${t(language, 'order.trackingNumber', { trackingNumber: order.trackingNumber })}\n`;
+    response += `${t(language, 'order.inTransit')}\n`;
   }
   
-  response += `\nDetail Pesanan:\n`;
+  response += `\n${t(language, 'order.details')}\n`;
   order.items.forEach((item, index) => {
-    response += `${index + 1}. ${item.productName} (${item.quantity} x Rp ${item.price.toLocaleString('id-ID')})\n`;
+    response += `${index + 1}. ${item.productName} (${item.quantity} x ${formatCurrency(item.price, language)})\n`;
   });
   
-  response += `\nTotal: Rp ${order.totalAmount.toLocaleString('id-ID')}`;
+  response += `\n${t(language, 'order.total', { amount: formatCurrency(order.totalAmount, language) })}`;
   
-  return response;
+  return { text: response, messages: getOrderMessages(order, language, tracking) };
+};
+
+/**
+ * The status and period an order list is narrowed to, e.g. " (Dibatalkan, 1 Oktober 2023 – 31 Oktober 2023)"
+ */
+const formatOrderFilters = (filters: OrderListFilters, language: Language): string => {
+  const parts: string[] = [];
+  if (filters.status) {
+    parts.push(getOrderStatusLabel(filters.status, language));
+  }
+  if (filters.from && filters.to) {
+    const from = formatDate(`${filters.from}T00:00:00+07:00`, language);
+    const to = formatDate(`${filters.to}T00:00:00+07:00`, language);
+    parts.push(from === to ? from : t(language, 'orders.dateRange', { from, to }));
+  }
+  return parts.length > 0 ? t(language, 'orders.filter', { filters: parts.join(', ') }) : '';
+};
+
+/**
+ * Format one page of the customer's orders as a numbered list, with buttons
+ * for the orders on the page and the neighbouring pages
+ */
+export const formatOrderListResponse = (
+  orderPage: ProductPage<ApiOrder>,
+  filters: OrderListFilters = {},
+  language: Language = DEFAULT_LANGUAGE
+): ChatResponse => {
+  const filter = formatOrderFilters(filters, language);
+  if (orderPage.items.length === 0) {
+    return createTextResponse(filter
+      ? t(language, 'orders.emptyFiltered', { filter })
+      : t(language, 'orders.empty'));
+  }
+
+  // Numbering continues across pages: page 2 of 3 starts at 6
+  const start = (orderPage.page - 1) * orderPage.limit + 1;
+  const lines = orderPage.items.map((order, index) => t(language, 'orders.item', {
+    position: start + index,
+    id: order.id,
+    date: formatDate(order.createdAt, language),
+    status: getOrderStatusLabel(order.status, language),
+    total: formatCurrency(order.totalAmount, language)
+  }));
+
+  const parts = [`${t(language, 'orders.title', { filter })}\n${lines.join('\n')}`];
+  const navigation: string[] = [];
+  if (orderPage.totalPages > 1) {
+    parts.push(t(language, 'orders.showing', {
+      start,
+      end: start + orderPage.items.length - 1,
+      count: orderPage.total
+    }));
+
+    if (orderPage.page > 1) {
+      navigation.push(t(language, 'quickReply.previousPage'));
+    }
+    if (orderPage.page < orderPage.totalPages) {
+      navigation.push(t(language, 'quickReply.nextPage'));
+    }
+  }
+  parts.push(t(language, 'orders.askDetails'));
+
+  return {
+    text: parts.join('\n\n'),
+    messages: [
+      ...parts.map(textMessage),
+      quickReplies([...orderPage.items.map((order) => order.id), ...navigation])
+    ]
+  };
+};
+
+/**
+ * Order summary card, followed by the courier's tracking when there is one,
+ * or by a delivery note while the order is on its way
+ */
+export const getOrderMessages = (
+  order: OrderSummarySource,
+  language: Language = DEFAULT_LANGUAGE,
+  tracking?: ShipmentTracking | null
+): RichMessage[] => {
+  const messages: RichMessage[] = [{ type: 'order_summary', order: toOrderSummary(order, language) }];
+  if (tracking) {
+    messages.push(...getTrackingMessages(tracking, language));
+  } else if (order.trackingNumber && order.status.toLowerCase() === 'shipped') {
+    messages.push(textMessage(t(language, 'order.inTransit')));
+  }
+  return messages;
+};
+
+// Deliveries customer service follows up with the courier
+const needsDeliveryHelp = (tracking: ShipmentTracking): boolean => {
+  return tracking.status === 'exception' || tracking.status === 'returned';
+};
+
+/**
+ * Estimated arrival of a parcel on its way, or when and to whom it was delivered
+ */
+const formatTrackingDetail = (tracking: ShipmentTracking, language: Language): string | undefined => {
+  if (tracking.deliveredAt) {
+    const date = formatDate(tracking.deliveredAt, language);
+    return tracking.receiver
+      ? t(language, 'tracking.deliveredTo', { date, receiver: tracking.receiver })
+      : t(language, 'tracking.deliveredAt', { date });
+  }
+  if (tracking.estimatedDelivery && tracking.status !== 'returned') {
+    return t(language, 'tracking.eta', { date: formatDate(tracking.estimatedDelivery, language) });
+  }
+  return undefined;
+};
+
+/**
+ * Timeline card of a parcel with its latest checkpoints
+ */
+export const toTrackingTimeline = (
+  tracking: ShipmentTracking,
+  language: Language = DEFAULT_LANGUAGE
+): TrackingTimeline => ({
+  waybill: tracking.waybill,
+  courierName: COURIER_NAMES[tracking.courier] ?? tracking.courier.toUpperCase(),
+  status: tracking.status,
+  statusLabel: t(language, TRACKING_STATUS_KEYS[tracking.status]),
+  detailLabel: formatTrackingDetail(tracking, language),
+  checkpoints: tracking.checkpoints.slice(0, TRACKING_CHECKPOINT_LIMIT).map((checkpoint) => ({
+    timeLabel: formatDateTime(checkpoint.time, language),
+    location: checkpoint.location,
+    description: checkpoint.description
+  }))
+});
+
+/**
+ * A parcel's status and latest checkpoints as text
+ */
+export const formatTrackingText = (tracking: ShipmentTracking, language: Language = DEFAULT_LANGUAGE): string => {
+  const timeline = toTrackingTimeline(tracking, language);
+  const lines = [
+    t(language, 'tracking.title', { courier: timeline.courierName, waybill: timeline.waybill }),
+    t(language, 'tracking.status', { status: timeline.statusLabel })
+  ];
+  if (timeline.detailLabel) {
+    lines.push(timeline.detailLabel);
+  }
+
+  if (timeline.checkpoints.length > 0) {
+    lines.push('', t(language, 'tracking.latest'));
+    timeline.checkpoints.forEach((checkpoint) => {
+      lines.push(checkpoint.location
+        ? t(language, 'tracking.checkpointAt', {
+            time: checkpoint.timeLabel,
+            location: checkpoint.location,
+            description: checkpoint.description
+          })
+        : t(language, 'tracking.checkpoint', { time: checkpoint.timeLabel, description: checkpoint.description }));
+    });
+  }
+
+  if (needsDeliveryHelp(tracking)) {
+    lines.push('', t(language, 'tracking.exceptionHelp'));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Timeline card, with a way to customer service when the delivery ran into a problem
+ */
+const getTrackingMessages = (tracking: ShipmentTracking, language: Language): RichMessage[] => {
+  const messages: RichMessage[] = [{ type: 'tracking_timeline', tracking: toTrackingTimeline(tracking, language) }];
+  if (needsDeliveryHelp(tracking)) {
+    messages.push(textMessage(t(language, 'tracking.exceptionHelp')), handoffMessage(language));
+  }
+  return messages;
+};
+
+/**
+ * Format the tracking of a waybill the customer sent without an order
+ */
+export const formatShipmentTrackingResponse = (
+  tracking: ShipmentTracking | null,
+  waybill: string,
+  language: Language = DEFAULT_LANGUAGE
+): ChatResponse => {
+  if (!tracking) {
+    return createTextResponse(t(language, 'tracking.notFound', { waybill }));
+  }
+
+  return { text: formatTrackingText(tracking, language), messages: getTrackingMessages(tracking, language) };
 };
 
 /**
  * Format user status information for chat response
  */
-export const formatUserStatusResponse = (user: ApiUser | null): string => {
+export const formatUserStatusResponse = (
+  user: ApiUser | null,
+  language: Language = DEFAULT_LANGUAGE
+): string => {
   if (!user) {
-    return 'Maaf, saya tidak dapat menemukan informasi pengguna. Mohon pastikan Anda sudah login.';
+    return t(language, 'user.notFound');
   }
   
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('id-ID', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-  
-  let response = `Informasi Keanggotaan **${user.name}**:\n\n`;
-  response += `Level Keanggotaan: **${user.membershipLevel}**\n`;
-  response += `Poin: ${user.membershipPoints} poin\n`;
-  response += `Terdaftar sejak: ${formatDate(user.registeredSince)}\n\n`;
+  let response = `${t(language, 'user.title', { name: user.name })}\n\n`;
+  response += `${t(language, 'user.level', { level: user.membershipLevel })}\n`;
+  response += `${t(language, 'user.points', { count: user.membershipPoints })}\n`;
+  response += `${t(language, 'user.since', { date: formatDate(user.registeredSince, language) })}\n\n`;
   
   // Add membership benefits based on level
-  switch (user.membershipLevel.toLowerCase()) {
-    case 'bronze':
-      response += 'Manfaat Keanggotaan Bronze:\n- Diskon 5% untuk setiap pembelian\n- Akses ke promo khusus member';
-      break;
-    case 'silver':
-      response += 'Manfaat Keanggotaan Silver:\n- Diskon 10% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk pembelian di atas Rp 500.000';
-      break;
-    case 'gold':
-      response += 'Manfaat Keanggotaan Gold:\n- Diskon 15% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk semua pembelian\n- Prioritas layanan pelanggan';
-      break;
-    case 'platinum':
-      response += 'Manfaat Keanggotaan Platinum:\n- Diskon 20% untuk setiap pembelian\n- Akses ke promo khusus member\n- Gratis ongkir untuk semua pembelian\n- Prioritas layanan pelanggan\n- Akses ke koleksi terbatas';
-      break;
-    default:
-      response += `Manfaat Keanggotaan ${user.membershipLevel}:\n- Silakan hubungi customer service untuk informasi lebih lanjut tentang manfaat keanggotaan Anda.`;
-  }
+  const benefitKeys: Record<string, MessageKey> = {
+    'bronze': 'user.benefits.bronze',
+    'silver': 'user.benefits.silver',
+    'gold': 'user.benefits.gold',
+    'platinum': 'user.benefits.platinum'
+  };
+  const benefitKey = benefitKeys[user.membershipLevel.toLowerCase()] ?? 'user.benefits.other';
+
+  response += `${t(language, 'user.benefitsTitle', { level: user.membershipLevel })}\n`;
+  response += t(language, benefitKey, { threshold: formatCurrency(getFreeShippingThreshold('silver') ?? 0, language) });
   
   return response;
-};
\ No newline at end of file
+};
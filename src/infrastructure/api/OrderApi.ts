@@ -3,6 +3,12 @@
  * API service for order-related operations
  */
 
+import { t, formatCurrency, formatDate, Language, MessageKey, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import { ChatResponse, createTextResponse } from '../../domain/entities/ChatResponse';
+import { ShipmentTracking } from '../../domain/entities/Shipment';
+import { OrderListFilters } from '../../domain/entities/ConversationState';
+import { ApiOrder, ProductPage, getOrderMessages, formatTrackingText } from './ExternalApi';
+
 interface Order {
   id: string;
   customerId: string;
@@ -10,6 +16,11 @@ interface Order {
   totalAmount: number;
   status: OrderStatus;
   trackingNumber?: string;
+  // Courier code of the tracking number, e.g. "jne"
+  courier?: string;
+  // Contact given at checkout, which a guest must repeat to see the order
+  customerEmail?: string;
+  customerPhone?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,7 +56,10 @@ const mockOrders: Order[] = [
     ],
     totalAmount: 350000,
     status: OrderStatus.SHIPPED,
-    trackingNumber: 'TRK-12345',
+    trackingNumber: 'CGK0123456789',
+    courier: 'jne',
+    customerEmail: 'budi.santoso@example.com',
+    customerPhone: '081234567890',
     createdAt: new Date('2023-10-15'),
     updatedAt: new Date('2023-10-16')
   },
@@ -68,6 +82,8 @@ const mockOrders: Order[] = [
     ],
     totalAmount: 780000,
     status: OrderStatus.PROCESSING,
+    customerEmail: 'rina.wulandari@example.com',
+    customerPhone: '085712345678',
     createdAt: new Date('2023-10-18'),
     updatedAt: new Date('2023-10-18')
   },
@@ -84,7 +100,10 @@ const mockOrders: Order[] = [
     ],
     totalAmount: 320000,
     status: OrderStatus.DELIVERED,
-    trackingNumber: 'TRK-67890',
+    trackingNumber: '001234567890',
+    courier: 'sicepat',
+    customerEmail: 'siti.aminah@example.com',
+    customerPhone: '+6281398765432',
     createdAt: new Date('2023-10-10'),
     updatedAt: new Date('2023-10-14')
   }
@@ -115,81 +134,76 @@ export const getOrdersByCustomerId = async (customerId: string): Promise<Order[]
   return mockOrders.filter(order => order.customerId === customerId);
 };
 
+/**
+ * List a customer's orders a page at a time, newest first, in the shape of the external API
+ */
+export const getOrdersPage = async (
+  customerId: string,
+  filters: OrderListFilters = {},
+  page: number = 1,
+  limit: number = 10
+): Promise<ProductPage<ApiOrder>> => {
+  const orders = (await getOrdersByCustomerId(customerId))
+    .filter((order) => {
+      const date = order.createdAt.toISOString().slice(0, 10);
+      return (!filters.status || order.status === filters.status) &&
+        (!filters.from || date >= filters.from) &&
+        (!filters.to || date <= filters.to);
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const items: ApiOrder[] = orders.slice((page - 1) * limit, page * limit).map((order) => ({
+    ...order,
+    createdAt: order.createdAt.toISOString(),
+    updatedAt: order.updatedAt.toISOString()
+  }));
+
+  return {
+    items,
+    total: orders.length,
+    page,
+    limit,
+    totalPages: Math.ceil(orders.length / limit)
+  };
+};
+
 /**
  * Format order information for chat response
  */
-export const formatOrderResponse = (order: Order | null): string => {
+export const formatOrderResponse = (
+  order: Order | null,
+  language: Language = DEFAULT_LANGUAGE,
+  tracking?: ShipmentTracking | null
+): ChatResponse => {
   if (!order) {
-    return 'Maaf, saya tidak dapat menemukan pesanan dengan ID tersebut. Mohon periksa kembali nomor pesanan Anda.';
+    return createTextResponse(t(language, 'order.notFound'));
   }
   
-  const formatDate = (date: Date): string => {
-    return date.toLocaleDateString('id-ID', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  const statusKeys: Record<OrderStatus, MessageKey> = {
+    [OrderStatus.PENDING]: 'order.status.pending',
+    [OrderStatus.PROCESSING]: 'order.status.processing',
+    [OrderStatus.SHIPPED]: 'order.status.shipped',
+    [OrderStatus.DELIVERED]: 'order.status.delivered',
+    [OrderStatus.CANCELLED]: 'order.status.cancelled'
   };
   
-  const getStatusInIndonesian = (status: OrderStatus): string => {
-    const statusMap: Record<OrderStatus, string> = {
-      [OrderStatus.PENDING]: 'Menunggu Pembayaran',
-      [OrderStatus.PROCESSING]: 'Sedang Diproses',
-      [OrderStatus.SHIPPED]: 'Dalam Pengiriman',
-      [OrderStatus.DELIVERED]: 'Telah Diterima',
-      [OrderStatus.CANCELLED]: 'Dibatalkan'
-    };
-    
-    return statusMap[status];
-  };
+  let response = `${t(language, 'order.title', { id: order.id })}\n\n`;
+  response += `${t(language, 'order.status', { status: t(language, statusKeys[order.status]) })}\n`;
+  response += `${t(language, 'order.date', { date: formatDate(order.createdAt, language) })}\n`;
   
-  let response = `Informasi Pesanan **${order.id}**:\n\n`;
-  response += `Status: **${getStatusInIndonesian(order.status)}**\n`;
-  response += `Tanggal Pemesanan: ${formatDate(order.createdAt)}\n`;
-  
-  if (order.trackingNumber && order.status === OrderStatus.SHIPPED) {
-    response += `Nomor Pelacakan: ${order.trackingNumber}\n`;
-    response += `Pesanan Anda sedang dalam perjalanan. Anda dapat melacak pengiriman dengan nomor pelacakan di atas.\n`;
+  if (tracking) {
+    response += `\n${formatTrackingText(tracking, language)}\n`;
+  } else if (order.trackingNumber && order.status === OrderStatus.SHIPPED) {
+    response += `${t(language, 'order.trackingNumber', { trackingNumber: order.trackingNumber })}\n`;
+    response += `${t(language, 'order.inTransit')}\n`;
   }
   
-  response += `\nDetail Pesanan:\n`;
+  response += `\n${t(language, 'order.details')}\n`;
   order.items.forEach((item, index) => {
-    response += `${index + 1}. ${item.productName} (${item.quantity} x Rp ${item.price.toLocaleString('id-ID')})\n`;
+    response += `${index + 1}. ${item.productName} (${item.quantity} x ${formatCurrency(item.price, language)})\n`;
   });
   
-  response += `\nTotal: Rp ${order.totalAmount.toLocaleString('id-ID')}`;
+  response += `\n${t(language, 'order.total', { amount: formatCurrency(order.totalAmount, language) })}`;
   
-  return response;
+  return { text: response, messages: getOrderMessages(order, language, tracking) };
 };
-
-/**
- * Format tracking information for chat response
- */
-export const formatTrackingResponse = (order: Order | null): string => {
-  if (!order) {
-    return 'Maaf, saya tidak dapat menemukan pesanan dengan ID tersebut. Mohon periksa kembali nomor pesanan Anda.';
-  }
-  
-  if (!order.trackingNumber) {
-    return `Pesanan ${order.id} belum memiliki nomor pelacakan. Status pesanan Anda saat ini: ${order.status}.`;
-  }
-  
-  // Mock tracking information based on order status
-  let trackingInfo = '';
-  
-  switch (order.status) {
-    case OrderStatus.PROCESSING:
-      trackingInfo = 'Pesanan Anda sedang diproses dan akan segera dikirim.';
-      break;
-    case OrderStatus.SHIPPED:
-      trackingInfo = `Pesanan Anda sedang dalam pengiriman dengan nomor resi ${order.trackingNumber}. Estimasi tiba dalam 2-3 hari kerja.`;
-      break;
-    case OrderStatus.DELIVERED:
-      trackingInfo = `Pesanan Anda telah diterima pada ${order.updatedAt.toLocaleDateString('id-ID')}.`;
-      break;
-    default:
-      trackingInfo = `Status pesanan Anda saat ini: ${order.status}.`;
-  }
-  
-  return trackingInfo;
-};
\ No newline at end of file
@@ -3,14 +3,28 @@
  * API service for product-related operations
  */
 
+import { isInPriceRange } from '../../domain/services/PriceExtractor';
+import { Language, DEFAULT_LANGUAGE } from '../../domain/services/I18n';
+import {
+  ProductSearchFilters,
+  ProductPage,
+  PageInfo,
+  isExcluded,
+  formatExternalProductResponse
+} from './ExternalApi';
+import { ChatResponse } from '../../domain/entities/ChatResponse';
+
 interface Product {
   id: string;
   name: string;
   description: string;
   price: number;
   category: string;
+  color: string;
   imageUrl: string;
   inStock: boolean;
+  // Shipping weight in grams
+  weight: number;
 }
 
 // Mock product database
@@ -22,8 +36,10 @@ const mockProducts: Product[] = [
     description: 'Dress batik modern dengan desain elegan, cocok untuk acara formal maupun casual.',
     price: 350000,
     category: 'dress',
+    color: 'merah',
     imageUrl: 'https://example.com/images/dress-batik.jpg',
-    inStock: true
+    inStock: true,
+    weight: 400
   },
   {
     id: 'p002',
@@ -31,8 +47,10 @@ const mockProducts: Product[] = [
     description: 'Kemeja pria slim fit dengan bahan berkualitas tinggi, nyaman dipakai sehari-hari.',
     price: 250000,
     category: 'kemeja',
+    color: 'putih',
     imageUrl: 'https://example.com/images/kemeja-slim.jpg',
-    inStock: true
+    inStock: true,
+    weight: 300
   },
   {
     id: 'p003',
@@ -40,8 +58,10 @@ const mockProducts: Product[] = [
     description: 'Celana jeans wanita dengan potongan high waist, memberikan tampilan yang stylish.',
     price: 280000,
     category: 'celana',
+    color: 'biru',
     imageUrl: 'https://example.com/images/jeans-wanita.jpg',
-    inStock: true
+    inStock: true,
+    weight: 600
   },
   {
     id: 'p004',
@@ -49,8 +69,10 @@ const mockProducts: Product[] = [
     description: 'Tas selempang dari bahan kulit asli, tahan lama dan elegan.',
     price: 450000,
     category: 'tas',
+    color: 'coklat',
     imageUrl: 'https://example.com/images/tas-kulit.jpg',
-    inStock: false
+    inStock: false,
+    weight: 900
   },
   {
     id: 'p005',
@@ -58,15 +80,20 @@ const mockProducts: Product[] = [
     description: 'Sepatu sneakers casual dengan desain modern, nyaman untuk aktivitas sehari-hari.',
     price: 320000,
     category: 'sepatu',
+    color: 'hitam',
     imageUrl: 'https://example.com/images/sneakers.jpg',
-    inStock: true
+    inStock: true,
+    weight: 1100
   }
 ];
 
 /**
  * Search products by keyword
  */
-export const searchProducts = async (keyword: string): Promise<Product[]> => {
+export const searchProducts = async (
+  keyword: string,
+  filters: ProductSearchFilters = {}
+): Promise<Product[]> => {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 300));
   
@@ -82,7 +109,7 @@ export const searchProducts = async (keyword: string): Promise<Product[]> => {
       product.name.toLowerCase().includes(lowercaseKeyword) ||
       product.description.toLowerCase().includes(lowercaseKeyword) ||
       product.category.toLowerCase().includes(lowercaseKeyword)
-    );
+    ) && isInPriceRange(product.price, filters) && !isExcluded(product, filters);
   });
 };
 
@@ -96,32 +123,34 @@ export const getProductById = async (productId: string): Promise<Product | null>
   return mockProducts.find(product => product.id === productId) || null;
 };
 
+/**
+ * Search products by keyword, one page at a time
+ */
+export const searchProductsPage = async (
+  keyword: string,
+  filters: ProductSearchFilters = {},
+  page: number = 1,
+  limit: number = 5
+): Promise<ProductPage<Product>> => {
+  const products = await searchProducts(keyword, filters);
+
+  return {
+    items: products.slice((page - 1) * limit, page * limit),
+    total: products.length,
+    page,
+    limit,
+    totalPages: Math.ceil(products.length / limit)
+  };
+};
+
 /**
  * Format product information for chat response
  */
-export const formatProductResponse = (products: Product[]): string => {
-  if (products.length === 0) {
-    return 'Maaf, saya tidak menemukan produk yang sesuai dengan pencarian Anda. Silakan coba dengan kata kunci lain.';
-  }
-  
-  if (products.length === 1) {
-    const product = products[0];
-    return `Saya menemukan produk yang Anda cari:\n\n` +
-      `**${product.name}**\n` +
-      `${product.description}\n` +
-      `Harga: Rp ${product.price.toLocaleString('id-ID')}\n` +
-      `Kategori: ${product.category}\n` +
-      `Status: ${product.inStock ? 'Tersedia' : 'Stok Habis'}`;
-  }
-  
-  // Multiple products found
-  let response = `Saya menemukan ${products.length} produk yang sesuai dengan pencarian Anda:\n\n`;
-  
-  products.forEach((product, index) => {
-    response += `${index + 1}. **${product.name}** - Rp ${product.price.toLocaleString('id-ID')} (${product.inStock ? 'Tersedia' : 'Stok Habis'})\n`;
-  });
-  
-  response += '\nSilakan tanyakan lebih detail tentang produk yang Anda minati.';
-  
-  return response;
-};
\ No newline at end of file
+export const formatProductResponse = (
+  products: Product[],
+  filters: ProductSearchFilters = {},
+  language: Language = DEFAULT_LANGUAGE,
+  pageInfo?: PageInfo
+): ChatResponse => {
+  return formatExternalProductResponse(products, filters, language, pageInfo);
+};
@@ -0,0 +1,18 @@
+/**
+ * CartStore.ts
+ * Storage interface for shopping carts
+ */
+
+import { Cart, NewCartItem } from '../../domain/entities/Cart';
+
+/**
+ * Keeps one cart per owner. The owner is the chat session ID for guest carts
+ * and the logged-in customer for carts kept by the backend.
+ * Every method returns null when the cart cannot be reached.
+ */
+export interface CartStore<Owner = string> {
+  get(owner: Owner): Promise<Cart | null>;
+  addItem(owner: Owner, item: NewCartItem): Promise<Cart | null>;
+  updateQuantity(owner: Owner, itemId: string, quantity: number): Promise<Cart | null>;
+  removeItem(owner: Owner, itemId: string): Promise<Cart | null>;
+}
@@ -0,0 +1,56 @@
+/**
+ * ExternalCartStore.ts
+ * Cart store backed by the cart of the logged-in customer on the Laravel backend;
+ * the owner is the customer the request is made for
+ */
+
+import { Cart, CartItem, NewCartItem } from '../../domain/entities/Cart';
+import { CustomerContext } from '../../domain/entities/CustomerContext';
+import {
+  ApiCart,
+  ApiCartItem,
+  getCartExternal,
+  addCartItemExternal,
+  updateCartItemExternal,
+  removeCartItemExternal
+} from '../api/ExternalApi';
+import { CartStore } from './CartStore';
+
+const toCartItem = (item: ApiCartItem): CartItem => ({
+  id: String(item.id),
+  productId: String(item.productId),
+  name: item.productName,
+  price: item.price,
+  quantity: item.quantity,
+  size: item.size,
+  color: item.color,
+  imageUrl: item.imageUrl,
+  weight: item.weight
+});
+
+const toCart = (cart: ApiCart | null): Cart | null => {
+  return cart ? { items: cart.items.map(toCartItem) } : null;
+};
+
+export const createExternalCartStore = (): CartStore<CustomerContext> => ({
+  async get(customer: CustomerContext): Promise<Cart | null> {
+    return toCart(await getCartExternal(customer));
+  },
+
+  async addItem(customer: CustomerContext, item: NewCartItem): Promise<Cart | null> {
+    return toCart(await addCartItemExternal(customer, {
+      productId: item.productId,
+      quantity: item.quantity,
+      size: item.size,
+      color: item.color
+    }));
+  },
+
+  async updateQuantity(customer: CustomerContext, itemId: string, quantity: number): Promise<Cart | null> {
+    return toCart(await updateCartItemExternal(customer, itemId, quantity));
+  },
+
+  async removeItem(customer: CustomerContext, itemId: string): Promise<Cart | null> {
+    return toCart(await removeCartItemExternal(customer, itemId));
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * MemoryCartStore.ts
+ * In-process cart store, lost on restart; meant for tests and local development
+ */
+
+import {
+  Cart,
+  NewCartItem,
+  createCart,
+  addItemToCart,
+  setCartItemQuantity,
+  removeCartItem
+} from '../../domain/entities/Cart';
+import { CartStore } from './CartStore';
+
+export const createMemoryCartStore = (): CartStore => {
+  const carts = new Map<string, Cart>();
+
+  const save = (ownerId: string, cart: Cart): Cart => {
+    carts.set(ownerId, cart);
+    return cart;
+  };
+
+  return {
+    async get(ownerId: string): Promise<Cart> {
+      return carts.get(ownerId) ?? createCart();
+    },
+
+    async addItem(ownerId: string, item: NewCartItem): Promise<Cart> {
+      return save(ownerId, addItemToCart(carts.get(ownerId) ?? createCart(), item));
+    },
+
+    async updateQuantity(ownerId: string, itemId: string, quantity: number): Promise<Cart> {
+      return save(ownerId, setCartItemQuantity(carts.get(ownerId) ?? createCart(), itemId, quantity));
+    },
+
+    async removeItem(ownerId: string, itemId: string): Promise<Cart> {
+      return save(ownerId, removeCartItem(carts.get(ownerId) ?? createCart(), itemId));
+    }
+  };
+};
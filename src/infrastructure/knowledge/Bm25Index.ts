@@ -0,0 +1,96 @@
+/**
+ * Bm25Index.ts
+ * Small in-memory BM25 ranker for the knowledge base
+ */
+
+import { tokenize as tokenizeWords } from '../../domain/services/Tokenizer';
+
+export interface Bm25Document {
+  id: string;
+  text: string;
+}
+
+export interface Bm25Match {
+  id: string;
+  score: number;
+}
+
+export interface Bm25Index {
+  search(query: string, limit?: number): Bm25Match[];
+  readonly size: number;
+}
+
+// Common Indonesian and English words that carry no meaning for ranking
+const STOPWORDS = new Set([
+  'yang', 'dan', 'di', 'ke', 'dari', 'untuk', 'dengan', 'ini', 'itu', 'apa', 'apakah',
+  'bisa', 'ada', 'saya', 'anda', 'kami', 'kak', 'ya', 'atau', 'juga', 'akan', 'sudah',
+  'bagaimana', 'gimana', 'berapa', 'kalau', 'kah', 'nya', 'dong', 'sih', 'mau', 'ingin',
+  'the', 'a', 'an', 'is', 'are', 'to', 'of', 'and', 'or', 'in', 'on', 'for', 'how',
+  'what', 'can', 'i', 'you', 'do', 'does', 'my', 'your'
+]);
+
+/**
+ * Split text into lowercase word tokens without stopwords
+ */
+export const tokenize = (text: string): string[] => {
+  return tokenizeWords(text).filter((token) => token.length > 1 && !STOPWORDS.has(token));
+};
+
+/**
+ * Build a BM25 index over the given documents
+ * @param k1 - Term frequency saturation
+ * @param b - Document length normalisation
+ */
+export const createBm25Index = (
+  documents: Bm25Document[],
+  k1: number = 1.5,
+  b: number = 0.75
+): Bm25Index => {
+  const termFrequencies = documents.map((doc) => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokenize(doc.text)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+
+  const lengths = documents.map((doc) => tokenize(doc.text).length);
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (documents.length || 1);
+
+  // Number of documents containing each term
+  const documentFrequencies = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string): number => {
+    const df = documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    size: documents.length,
+
+    search(query: string, limit: number = 3): Bm25Match[] {
+      const queryTerms = [...new Set(tokenize(query))];
+      if (queryTerms.length === 0) return [];
+
+      return documents
+        .map((doc, i) => {
+          let score = 0;
+          for (const term of queryTerms) {
+            const tf = termFrequencies[i].get(term) ?? 0;
+            if (tf === 0) continue;
+            const norm = tf + k1 * (1 - b + b * (lengths[i] / (averageLength || 1)));
+            score += idf(term) * ((tf * (k1 + 1)) / norm);
+          }
+          return { id: doc.id, score };
+        })
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+  };
+};
@@ -0,0 +1,44 @@
+/**
+ * IntentDatasetLoader.ts
+ * Loads labeled utterances for the intent model from JSONL files
+ * (one `{"text": "...", "intent": "product_search"}` object per line)
+ */
+
+import { promises as fs } from 'fs';
+import { Intent } from '../../domain/services/IntentClassifier';
+import { LabeledUtterance } from '../../domain/services/IntentModel';
+
+const KNOWN_INTENTS = new Set<string>(Object.values(Intent));
+
+/**
+ * Parse JSONL text into labeled utterances, skipping blank lines.
+ * Malformed lines and unknown intents are reported and skipped.
+ */
+export const parseIntentDataset = (text: string, source: string): LabeledUtterance[] => {
+  const examples: LabeledUtterance[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry.text !== 'string' || !KNOWN_INTENTS.has(entry.intent)) {
+        console.warn(`Skipping ${source}:${index + 1}: expected a text and a known intent`);
+        return;
+      }
+      examples.push({ text: entry.text, intent: entry.intent as Intent });
+    } catch (error) {
+      console.warn(`Skipping ${source}:${index + 1}: invalid JSON`);
+    }
+  });
+
+  return examples;
+};
+
+/**
+ * Load labeled utterances from a JSONL file
+ */
+export const loadIntentDataset = async (file: string): Promise<LabeledUtterance[]> => {
+  const text = await fs.readFile(file, 'utf8');
+  return parseIntentDataset(text, file);
+};
@@ -0,0 +1,135 @@
+/**
+ * KnowledgeBaseLoader.ts
+ * Loads knowledge base articles from markdown and JSON files on disk
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface KnowledgePassage {
+  id: string;
+  // Title of the article the passage belongs to
+  articleTitle: string;
+  // Section heading within the article, if any
+  section?: string;
+  content: string;
+  source: string;
+  url?: string;
+  tags: string[];
+}
+
+interface JsonArticle {
+  id?: string;
+  title: string;
+  content: string;
+  url?: string;
+  tags?: string[];
+}
+
+/**
+ * Parse a simple `key: value` front matter block at the top of a markdown file
+ */
+const parseFrontMatter = (text: string): { meta: Record<string, string>; body: string } => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { meta: {}, body: text };
+  }
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return { meta, body: text.slice(match[0].length) };
+};
+
+const parseTags = (value?: string): string[] =>
+  (value || '').split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Split a markdown article into one passage per `##` section
+ */
+export const parseMarkdownArticle = (text: string, source: string): KnowledgePassage[] => {
+  const { meta, body } = parseFrontMatter(text);
+  const titleMatch = body.match(/^#\s+(.+)$/m);
+  const articleTitle = meta.title || titleMatch?.[1].trim() || path.basename(source, path.extname(source));
+  const tags = parseTags(meta.tags);
+  const baseId = path.basename(source, path.extname(source));
+
+  const passages: KnowledgePassage[] = [];
+  const sections = body.replace(/^#\s+.+$/m, '').split(/^##\s+/m);
+
+  sections.forEach((sectionText, index) => {
+    const lines = sectionText.trim().split(/\r?\n/);
+    // The text before the first `##` has no heading of its own
+    const section = index === 0 ? undefined : lines.shift()?.trim();
+    const content = lines.join('\n').trim();
+    if (!content) return;
+
+    passages.push({
+      id: `${baseId}#${index}`,
+      articleTitle,
+      section,
+      content,
+      source,
+      url: meta.url,
+      tags
+    });
+  });
+
+  return passages;
+};
+
+/**
+ * Read a JSON file holding an array of articles or `{ "articles": [...] }`
+ */
+export const parseJsonArticles = (text: string, source: string): KnowledgePassage[] => {
+  const data = JSON.parse(text);
+  const articles: JsonArticle[] = Array.isArray(data) ? data : data.articles || [];
+  const baseId = path.basename(source, path.extname(source));
+
+  return articles
+    .filter((article) => article.title && article.content)
+    .map((article, index) => ({
+      id: article.id || `${baseId}#${index}`,
+      articleTitle: article.title,
+      content: article.content,
+      source,
+      url: article.url,
+      tags: (article.tags || []).map((tag) => tag.toLowerCase())
+    }));
+};
+
+/**
+ * Load every .md and .json article in a directory (not recursive)
+ */
+export const loadKnowledgeBase = async (directory: string): Promise<KnowledgePassage[]> => {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    console.error(`Knowledge base directory ${directory} could not be read:`, error);
+    return [];
+  }
+
+  const passages: KnowledgePassage[] = [];
+  for (const name of names.sort()) {
+    const file = path.join(directory, name);
+    const extension = path.extname(name).toLowerCase();
+
+    try {
+      if (extension === '.md') {
+        passages.push(...parseMarkdownArticle(await fs.readFile(file, 'utf8'), name));
+      } else if (extension === '.json') {
+        passages.push(...parseJsonArticles(await fs.readFile(file, 'utf8'), name));
+      }
+    } catch (error) {
+      console.error(`Error loading knowledge base article ${file}:`, error);
+    }
+  }
+
+  return passages;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LaravelKeyRing,
+  createLaravelKeyRing,
+  decryptLaravelPayload,
+  removeCookieValuePrefix
+} from './LaravelEncrypter';
+import { APP_KEY, APP_KEY_128, PREVIOUS_KEY, VECTORS, tamperPayload } from './laravelVectors.fixture';
+
+const keyRing = (cipher: string, key: string = APP_KEY, previousKeys?: string): LaravelKeyRing => {
+  const ring = createLaravelKeyRing(key, previousKeys, cipher);
+  if (!ring.success) {
+    throw new Error(ring.error.message);
+  }
+  return ring.value;
+};
+
+describe('createLaravelKeyRing', () => {
+  it('rejects a missing key, a key of the wrong length and an unknown cipher', () => {
+    expect(createLaravelKeyRing(undefined, undefined, 'AES-256-CBC')).toMatchObject({ success: false, error: { code: 'invalid_key' } });
+    expect(createLaravelKeyRing(APP_KEY_128, undefined, 'AES-256-CBC')).toMatchObject({ success: false, error: { code: 'invalid_key' } });
+    expect(createLaravelKeyRing(APP_KEY, undefined, 'DES')).toMatchObject({ success: false, error: { code: 'invalid_key' } });
+  });
+});
+
+describe('decryptLaravelPayload', () => {
+  it('decrypts AES-256-CBC and AES-128-CBC payloads with an HMAC', () => {
+    expect(decryptLaravelPayload(VECTORS.cbc, keyRing('AES-256-CBC'))).toEqual({ success: true, value: 'hello world' });
+    expect(decryptLaravelPayload(VECTORS.cbc128, keyRing('AES-128-CBC', APP_KEY_128))).toEqual({ success: true, value: 'hello world' });
+  });
+
+  it('decrypts AES-256-GCM payloads with a tag', () => {
+    expect(decryptLaravelPayload(VECTORS.gcm, keyRing('AES-256-GCM'))).toEqual({ success: true, value: 'hello world' });
+  });
+
+  it('decrypts payloads made with a previous key', () => {
+    expect(decryptLaravelPayload(VECTORS.previousKey, keyRing('AES-256-CBC'))).toMatchObject({ success: false, error: { code: 'invalid_mac' } });
+    expect(decryptLaravelPayload(VECTORS.previousKey, keyRing('AES-256-CBC', APP_KEY, PREVIOUS_KEY)))
+      .toEqual({ success: true, value: 'rotated' });
+  });
+
+  it('rejects a payload whose MAC does not match', () => {
+    const tampered = tamperPayload(VECTORS.cbc, 'mac', '0'.repeat(64));
+    expect(decryptLaravelPayload(tampered, keyRing('AES-256-CBC'))).toMatchObject({ success: false, error: { code: 'invalid_mac' } });
+  });
+
+  it('rejects a GCM payload with a wrong or missing tag', () => {
+    const wrongTag = tamperPayload(VECTORS.gcm, 'tag', Buffer.alloc(16).toString('base64'));
+    const noTag = tamperPayload(VECTORS.gcm, 'tag', '');
+    expect(decryptLaravelPayload(wrongTag, keyRing('AES-256-GCM'))).toMatchObject({ success: false, error: { code: 'decryption_failed' } });
+    expect(decryptLaravelPayload(noTag, keyRing('AES-256-GCM'))).toMatchObject({ success: false, error: { code: 'decryption_failed' } });
+  });
+
+  it('rejects payloads that are not Laravel payloads', () => {
+    expect(decryptLaravelPayload('not a payload', keyRing('AES-256-CBC'))).toMatchObject({ success: false, error: { code: 'invalid_payload' } });
+    expect(decryptLaravelPayload(42, keyRing('AES-256-CBC'))).toMatchObject({ success: false, error: { code: 'invalid_payload' } });
+  });
+
+  it('unserializes PHP values as decrypt() does', () => {
+    expect(decryptLaravelPayload(VECTORS.serialized, keyRing('AES-256-CBC'), { unserialize: true }))
+      .toEqual({ success: true, value: '5|sécret-token' });
+  });
+});
+
+describe('removeCookieValuePrefix', () => {
+  it('removes the HMAC-SHA1 prefix of the cookie the value was set as', () => {
+    const ring = keyRing('AES-256-CBC');
+    const decrypted = decryptLaravelPayload(VECTORS.cookie, ring);
+    if (!decrypted.success) {
+      throw new Error(decrypted.error.message);
+    }
+
+    expect(removeCookieValuePrefix('aninka_session', decrypted.value as string, ring)).toEqual({ success: true, value: '5|abcdef' });
+    expect(removeCookieValuePrefix('other_cookie', decrypted.value as string, ring))
+      .toMatchObject({ success: false, error: { code: 'invalid_cookie_prefix' } });
+  });
+});
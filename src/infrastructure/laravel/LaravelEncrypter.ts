@@ -0,0 +1,235 @@
+/**
+ * LaravelEncrypter.ts
+ * Decrypts payloads made by Laravel's Illuminate\Encryption\Encrypter: AES-CBC with an
+ * HMAC-SHA256 MAC or AES-GCM with an authentication tag, tried with the current key and
+ * then the previous keys (APP_PREVIOUS_KEYS), optionally unserializing the PHP value
+ */
+
+import crypto from 'crypto';
+import { unserializePhp } from './PhpUnserializer';
+
+export type LaravelCipher = 'aes-128-cbc' | 'aes-256-cbc' | 'aes-128-gcm' | 'aes-256-gcm';
+
+interface CipherSpec {
+  keyLength: number;
+  ivLength: number;
+  // AEAD ciphers are authenticated by their tag instead of a MAC
+  aead: boolean;
+}
+
+const CIPHERS: Record<LaravelCipher, CipherSpec> = {
+  'aes-128-cbc': { keyLength: 16, ivLength: 16, aead: false },
+  'aes-256-cbc': { keyLength: 32, ivLength: 16, aead: false },
+  'aes-128-gcm': { keyLength: 16, ivLength: 12, aead: true },
+  'aes-256-gcm': { keyLength: 32, ivLength: 12, aead: true },
+};
+
+const GCM_TAG_LENGTH = 16;
+
+export type LaravelDecryptErrorCode =
+  // No key, a key of the wrong length, or a cipher Laravel does not support
+  | 'invalid_key'
+  | 'invalid_payload'
+  | 'invalid_mac'
+  | 'decryption_failed'
+  | 'invalid_serialized_value'
+  // The cookie value is not prefixed for the cookie it was sent as
+  | 'invalid_cookie_prefix';
+
+export interface LaravelDecryptError {
+  code: LaravelDecryptErrorCode;
+  message: string;
+}
+
+export type LaravelDecryptResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: LaravelDecryptError };
+
+// The cipher and the keys to try, the current key first
+export interface LaravelKeyRing {
+  cipher: LaravelCipher;
+  keys: Buffer[];
+}
+
+interface EncryptedPayload {
+  iv: string;
+  value: string;
+  mac: string;
+  tag?: string;
+}
+
+const failure = (code: LaravelDecryptErrorCode, message: string): { success: false; error: LaravelDecryptError } => ({
+  success: false,
+  error: { code, message }
+});
+
+/**
+ * Read a key the way Laravel reads APP_KEY: "base64:" keys are decoded, others are used as they are
+ */
+export const parseLaravelKey = (key: string): Buffer => {
+  return key.startsWith('base64:') ? Buffer.from(key.slice('base64:'.length), 'base64') : Buffer.from(key, 'utf8');
+};
+
+/**
+ * Build the key ring from APP_KEY, the comma-separated APP_PREVIOUS_KEYS and the cipher name
+ */
+export const createLaravelKeyRing = (
+  key: string | undefined,
+  previousKeys: string | undefined,
+  cipherName: string
+): LaravelDecryptResult<LaravelKeyRing> => {
+  const cipher = cipherName.toLowerCase() as LaravelCipher;
+  const spec = CIPHERS[cipher];
+  if (!spec) {
+    return failure('invalid_key', `Unsupported cipher "${cipherName}".`);
+  }
+  if (!key) {
+    return failure('invalid_key', 'No application encryption key has been specified.');
+  }
+
+  const previous = (previousKeys ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  const keys = [key, ...previous].map(parseLaravelKey);
+  if (keys.some((item) => item.length !== spec.keyLength)) {
+    return failure('invalid_key', `Keys for ${cipher} must be ${spec.keyLength} bytes long.`);
+  }
+
+  return { success: true, value: { cipher, keys } };
+};
+
+/**
+ * Decode base64 the way PHP's base64_decode($data, true) accepts it
+ */
+const decodeStrictBase64 = (text: string): Buffer | null => {
+  return /^[A-Za-z0-9+/]*={0,2}$/.test(text) && text.length % 4 === 0 ? Buffer.from(text, 'base64') : null;
+};
+
+/**
+ * Decode the outer base64 JSON and check its fields like Encrypter::validPayload
+ */
+const parsePayload = (payload: string, spec: CipherSpec): EncryptedPayload | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(payload, 'base64').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return null;
+  }
+  if (['iv', 'value', 'mac'].some((field) => typeof parsed[field] !== 'string')) {
+    return null;
+  }
+  if (parsed.tag !== undefined && parsed.tag !== null && typeof parsed.tag !== 'string') {
+    return null;
+  }
+  if (decodeStrictBase64(parsed.iv)?.length !== spec.ivLength) {
+    return null;
+  }
+
+  return parsed as EncryptedPayload;
+};
+
+/**
+ * Compare the payload's MAC with HMAC-SHA256(iv . value) in constant time
+ */
+const hasValidMac = (payload: EncryptedPayload, key: Buffer): boolean => {
+  const expected = crypto.createHmac('sha256', key).update(payload.iv + payload.value).digest('hex');
+  const given = Buffer.from(payload.mac, 'utf8');
+  return given.length === expected.length && crypto.timingSafeEqual(Buffer.from(expected, 'utf8'), given);
+};
+
+const decryptWithKey = (
+  payload: EncryptedPayload,
+  ring: LaravelKeyRing,
+  key: Buffer,
+  iv: Buffer,
+  tag: Buffer | null
+): Buffer | null => {
+  try {
+    const decipher = crypto.createDecipheriv(ring.cipher, key, iv);
+    if (tag) {
+      (decipher as crypto.DecipherGCM).setAuthTag(tag);
+    }
+    return Buffer.concat([decipher.update(Buffer.from(payload.value, 'base64')), decipher.final()]);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decrypt a payload from Laravel's encrypt() or encryptString()
+ * @param options.unserialize Unserialize the PHP value, as Laravel's decrypt() does
+ * @returns The decrypted string (or unserialized value), or the reason it could not be decrypted
+ */
+export const decryptLaravelPayload = (
+  payload: unknown,
+  ring: LaravelKeyRing,
+  options: { unserialize?: boolean } = {}
+): LaravelDecryptResult<unknown> => {
+  const spec = CIPHERS[ring.cipher];
+  const parsed = typeof payload === 'string' ? parsePayload(payload, spec) : null;
+  if (!parsed) {
+    return failure('invalid_payload', 'The payload is invalid.');
+  }
+
+  const tag = parsed.tag ? Buffer.from(parsed.tag, 'base64') : null;
+  if (spec.aead && tag?.length !== GCM_TAG_LENGTH) {
+    return failure('decryption_failed', 'Could not decrypt the data.');
+  }
+  if (!spec.aead && tag) {
+    return failure('invalid_payload', 'Unable to use tag because the cipher algorithm does not support AEAD.');
+  }
+
+  const iv = Buffer.from(parsed.iv, 'base64');
+  let foundValidMac = false;
+  let decrypted: Buffer | null = null;
+  for (const key of ring.keys) {
+    if (!spec.aead) {
+      if (!hasValidMac(parsed, key)) {
+        continue;
+      }
+      foundValidMac = true;
+    }
+
+    decrypted = decryptWithKey(parsed, ring, key, iv, tag);
+    if (decrypted) {
+      break;
+    }
+  }
+
+  if (!spec.aead && !foundValidMac) {
+    return failure('invalid_mac', 'The MAC is invalid.');
+  }
+  if (!decrypted) {
+    return failure('decryption_failed', 'Could not decrypt the data.');
+  }
+
+  if (!options.unserialize) {
+    return { success: true, value: decrypted.toString('utf8') };
+  }
+  try {
+    return { success: true, value: unserializePhp(decrypted) };
+  } catch (error) {
+    return failure('invalid_serialized_value', (error as Error).message);
+  }
+};
+
+/**
+ * Remove the "HMAC-SHA1(cookie name . 'v2')|" prefix Laravel puts in front of cookie
+ * values, which ties a value to the cookie it was set as; any key of the ring may have made it
+ */
+export const removeCookieValuePrefix = (
+  cookieName: string,
+  value: string,
+  ring: LaravelKeyRing
+): LaravelDecryptResult<string> => {
+  const given = Buffer.from(value, 'utf8');
+  for (const key of ring.keys) {
+    const prefix = Buffer.from(crypto.createHmac('sha1', key).update(cookieName + 'v2').digest('hex') + '|', 'utf8');
+    if (given.length >= prefix.length && crypto.timingSafeEqual(given.subarray(0, prefix.length), prefix)) {
+      return { success: true, value: given.subarray(prefix.length).toString('utf8') };
+    }
+  }
+  return failure('invalid_cookie_prefix', `The value was not set as the "${cookieName}" cookie.`);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { unserializePhp } from './PhpUnserializer';
+
+describe('unserializePhp', () => {
+  it('reads scalars', () => {
+    expect(unserializePhp('N;')).toBeNull();
+    expect(unserializePhp('b:1;')).toBe(true);
+    expect(unserializePhp('i:-42;')).toBe(-42);
+    expect(unserializePhp('d:0.5;')).toBe(0.5);
+    expect(unserializePhp('d:INF;')).toBe(Infinity);
+  });
+
+  it('counts string lengths in bytes', () => {
+    expect(unserializePhp('s:7:"sécret";')).toBe('sécret');
+  });
+
+  it('turns lists into arrays and other arrays into objects', () => {
+    expect(unserializePhp('a:2:{i:0;s:1:"a";i:1;s:1:"b";}')).toEqual(['a', 'b']);
+    expect(unserializePhp('a:2:{s:5:"token";s:3:"abc";i:5;b:0;}')).toEqual({ token: 'abc', 5: false });
+  });
+
+  it('reads objects as plain objects without their property visibility prefixes', () => {
+    const serialized = 'O:4:"User":2:{s:8:"\0User\0id";i:5;s:7:"\0*\0name";s:4:"Budi";}';
+    expect(unserializePhp(serialized)).toEqual({ id: 5, name: 'Budi' });
+  });
+
+  it('resolves references', () => {
+    expect(unserializePhp('a:2:{i:0;s:1:"x";i:1;r:2;}')).toEqual(['x', 'x']);
+  });
+
+  it('rejects malformed data, trailing data and deep nesting', () => {
+    expect(() => unserializePhp('s:10:"short";')).toThrow();
+    expect(() => unserializePhp('i:1;i:2;')).toThrow();
+    expect(() => unserializePhp('a:1:{i:0;'.repeat(100) + 'N;' + '}'.repeat(100))).toThrow();
+  });
+});
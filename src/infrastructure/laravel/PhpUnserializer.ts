@@ -0,0 +1,185 @@
+/**
+ * PhpUnserializer.ts
+ * Reads values written by PHP's serialize(), as found in Laravel's encrypted payloads.
+ * Arrays with keys 0..n-1 become JS arrays, other arrays and objects become plain
+ * objects; no PHP class is ever instantiated.
+ */
+
+// Nesting deeper than this is rejected instead of exhausting the stack
+const MAX_DEPTH = 64;
+
+/**
+ * Unserialize a PHP value; string lengths count bytes, so pass the raw bytes when possible
+ * @throws Error when the data is not a single well-formed serialized value
+ */
+export const unserializePhp = (input: Buffer | string): unknown => {
+  const data = typeof input === 'string' ? Buffer.from(input, 'utf8') : input;
+  let offset = 0;
+  // Values numbered as PHP numbers them for r:/R: back-references, starting at 1
+  const references: unknown[] = [];
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid PHP serialized data at byte ${offset}: ${reason}`);
+  };
+
+  const expect = (char: string): void => {
+    if (data[offset] !== char.charCodeAt(0)) {
+      fail(`expected "${char}"`);
+    }
+    offset++;
+  };
+
+  const readUntil = (terminator: string): string => {
+    const end = data.indexOf(terminator, offset);
+    if (end < 0) {
+      fail(`missing "${terminator}"`);
+    }
+    const text = data.toString('utf8', offset, end);
+    offset = end + 1;
+    return text;
+  };
+
+  const readInteger = (terminator: string): number => {
+    const text = readUntil(terminator);
+    if (!/^[+-]?\d+$/.test(text)) {
+      fail(`invalid integer "${text}"`);
+    }
+    return Number(text);
+  };
+
+  // The quoted part of s:5:"hello", after the "s:"
+  const readQuoted = (): string => {
+    const length = readInteger(':');
+    expect('"');
+    if (offset + length > data.length) {
+      fail('string runs past the end');
+    }
+    const text = data.toString('utf8', offset, offset + length);
+    offset += length;
+    expect('"');
+    return text;
+  };
+
+  const readKey = (): string | number => {
+    const type = String.fromCharCode(data[offset++]);
+    expect(':');
+    if (type === 'i') {
+      return readInteger(';');
+    }
+    if (type === 's') {
+      const key = readQuoted();
+      expect(';');
+      return key;
+    }
+    return fail(`invalid key type "${type}"`);
+  };
+
+  const remember = <T>(value: T): T => {
+    references.push(value);
+    return value;
+  };
+
+  const readEntries = (count: number, depth: number): Array<[string | number, unknown]> => {
+    expect('{');
+    const entries: Array<[string | number, unknown]> = [];
+    for (let i = 0; i < count; i++) {
+      const key = readKey();
+      entries.push([key, readValue(depth + 1)]);
+    }
+    expect('}');
+    return entries;
+  };
+
+  const readValue = (depth: number): unknown => {
+    if (depth > MAX_DEPTH) {
+      fail('nested too deeply');
+    }
+
+    const type = String.fromCharCode(data[offset++]);
+    if (type === 'N') {
+      expect(';');
+      return remember(null);
+    }
+    expect(':');
+
+    switch (type) {
+      case 'b': {
+        const flag = readInteger(';');
+        if (flag !== 0 && flag !== 1) {
+          fail(`invalid boolean "${flag}"`);
+        }
+        return remember(flag === 1);
+      }
+
+      case 'i':
+        return remember(readInteger(';'));
+
+      case 'd': {
+        const text = readUntil(';');
+        const special: Record<string, number> = { INF: Infinity, '-INF': -Infinity, NAN: NaN };
+        const value = text in special ? special[text] : Number(text);
+        if (Number.isNaN(value) && text !== 'NAN') {
+          fail(`invalid float "${text}"`);
+        }
+        return remember(value);
+      }
+
+      case 's': {
+        const text = readQuoted();
+        expect(';');
+        return remember(text);
+      }
+
+      // Enum cases are kept as "Suit:Hearts"
+      case 'E': {
+        const text = readQuoted();
+        expect(';');
+        return remember(text);
+      }
+
+      case 'a': {
+        const slot = references.push(undefined) - 1;
+        const entries = readEntries(readInteger(':'), depth);
+        const isList = entries.every(([key], index) => key === index);
+        const value = isList
+          ? entries.map(([, item]) => item)
+          : Object.fromEntries(entries.map(([key, item]) => [String(key), item]));
+        references[slot] = value;
+        return value;
+      }
+
+      case 'O': {
+        readQuoted();
+        expect(':');
+        const slot = references.push(undefined) - 1;
+        const entries = readEntries(readInteger(':'), depth);
+        // Private and protected properties are written as "\0Class\0name" and "\0*\0name"
+        const value = Object.fromEntries(
+          entries.map(([key, item]) => [String(key).replace(/^\0[^\0]*\0/, ''), item])
+        );
+        references[slot] = value;
+        return value;
+      }
+
+      // r: copies an earlier value, R: refers to it; both point at its number
+      case 'r':
+      case 'R': {
+        const index = readInteger(';');
+        if (index < 1 || index > references.length) {
+          fail(`unknown reference ${index}`);
+        }
+        const value = references[index - 1];
+        return type === 'r' ? remember(value) : value;
+      }
+
+      default:
+        return fail(`unsupported type "${type}"`);
+    }
+  };
+
+  const value = readValue(0);
+  if (offset !== data.length) {
+    fail('unexpected data after the value');
+  }
+  return value;
+};
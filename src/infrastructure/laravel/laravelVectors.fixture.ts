@@ -0,0 +1,37 @@
+/**
+ * laravelVectors.fixture.ts
+ * Payloads in the format of Laravel's Illuminate\Encryption\Encrypter (base64 JSON with iv,
+ * value, mac and tag, encoded with JSON_UNESCAPED_SLASHES), for the encrypter tests
+ */
+
+// APP_KEY and APP_PREVIOUS_KEYS the payloads were encrypted with
+export const APP_KEY = 'base64:MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY=';
+export const PREVIOUS_KEY = 'base64:ZmVkY2JhOTg3NjU0MzIxMGZlZGNiYTk4NzY1NDMyMTA=';
+export const APP_KEY_128 = 'base64:MDEyMzQ1Njc4OWFiY2RlZg==';
+
+export const VECTORS = {
+  // encryptString('hello world') with AES-256-CBC
+  cbc: 'eyJpdiI6Im8vM3Z3OGM4K0RIaHo1WldtM1FuNHc9PSIsInZhbHVlIjoiWGVvbm0zczBTYkJQY0JMUzhxUGpxdz09IiwibWFjIjoiMGM3MTZiOTY1ZWQwZDA5ODhjMmZmOGVjNTk2NjFkNTZkNDUxZDhhMDgxMGI4NWY4YjUyNjk5ZjNlM2NmYTRjOSIsInRhZyI6IiJ9',
+  // encryptString('hello world') with AES-128-CBC and APP_KEY_128
+  cbc128: 'eyJpdiI6Ik1nSDN0TzlIY2JIU2poejcyRmdWUXc9PSIsInZhbHVlIjoiNzZqY1dEMlY0RTFJTUR1Y3YwVGFEQT09IiwibWFjIjoiODNlZDZhYzBkMWFkYzNlOWQ4MzY1MTdiYzdkZWQ5ZjBjMWUzNTQ5M2JjMjRmY2MwNDA3ODJmNDE2ZTA0YzMyZCIsInRhZyI6IiJ9',
+  // encryptString('hello world') with AES-256-GCM
+  gcm: 'eyJpdiI6IkNtczM5bnV5clVRZE5XckIiLCJ2YWx1ZSI6InZ1UkJyR3dkdmx0ZXVjbz0iLCJtYWMiOiIiLCJ0YWciOiJUcjZqcHR4QVBnaGk5Q2FiNjMvWGpRPT0ifQ==',
+  // encryptString('rotated') with PREVIOUS_KEY
+  previousKey: 'eyJpdiI6Ik81WVcyMGtWc3pVMDRxeWJKNEhhd3c9PSIsInZhbHVlIjoia3kyc0E5UGhuMGU3Zzcvb0hPbUJFQT09IiwibWFjIjoiM2VkM2ZlNGYxMGU3ZDZjN2M3OGUzMzgwZTFjYjczZTYyZjJkODJjZTQ0NzMwNWU4NjVmMjE5YzAzYjg5MjM3NSIsInRhZyI6IiJ9',
+  // encrypt('5|sécret-token'), i.e. serialized
+  serialized: 'eyJpdiI6IlE1S25ZeWM2L0JYZnZJaUU3WTVoN2c9PSIsInZhbHVlIjoiRllIaTRjNzdXL2tOaE9SYmRjaTYvVUc1NGZxWERYREFzUjNIV1BITDl2az0iLCJtYWMiOiJkZWY5YzBhNTNmNWY3OTk5OGQ5YjZiYjYzMzRhNWU1ZmI2N2U3MGUyYjM4NjNlYTEyZDFkMjBmZTU1NzZkZmJlIiwidGFnIjoiIn0=',
+  // The aninka_session cookie holding '5|abcdef', as written by EncryptCookies
+  cookie: 'eyJpdiI6IldRdjFaM3JEME9GcHJoOE9MSjV6NWc9PSIsInZhbHVlIjoiN2pZNmxEdGU2dDdVQWxSYTg3MzhIajBEZjhyaFFlNXU1ZDdCTkFRUkYrdUJsUmFqOE01MkR2TFRYWTdiV096cjcwWk5KZXV1elBQTXZBdFk2cnZUMGc9PSIsIm1hYyI6ImY3YjQxZjMwNjU0OGRhYTVmOGU0NTJlMTE5MzU1ZTA1ZjBlYjQ4ZTViMzRjNDRmNjlkYjE3ZTU4ODQ1NmNiZDAiLCJ0YWciOiIifQ==',
+  // The same cookie from an EncryptCookies middleware with $serialize = true
+  cookieSerialized: 'eyJpdiI6IkQ5blZTOUt3ZjgyMkJQQU1uQ2gvZmc9PSIsInZhbHVlIjoiMlNpRUd0b3FVeDA2aDhqZ0ZNNUlJMXZVd2dFZE9haWZKWE5ucVErNTRtZng4UktHamlySWVuMk9ydVVteUZic3diUXVpK3g1MThra1dIK05ETmdTWUE9PSIsIm1hYyI6ImJhZTI4MDVkMmIyYzdjZjdjNWFjOTUyMzc3MjBlNTIwYjg5N2RhYWRiNmZiNzFhZjUxZDQ4ZDlkMDIyZDE2NDMiLCJ0YWciOiIifQ==',
+  // The aninka_session cookie holding '7|gcm-token' with AES-256-GCM
+  cookieGcm: 'eyJpdiI6ImZEMlhtdUVxRllXd3ZRRWsiLCJ2YWx1ZSI6Iks5WklqRVNEcUw0azJHSGgyL0Z3TEJJZnF1LzAzTWI3V2Y4RVN1eldyczdTVDFLMWVTK1ZCMmVDYkRkUTNnWHUwZStYakE9PSIsIm1hYyI6IiIsInRhZyI6IlQ3bXlwWklkYjZwN3hkYWpWUEIzNkE9PSJ9'
+};
+
+/**
+ * Change one field of a payload, e.g. to break its MAC or tag
+ */
+export const tamperPayload = (payload: string, field: string, value: string): string => {
+  const parsed = JSON.parse(Buffer.from(payload, 'base64').toString('utf8'));
+  return Buffer.from(JSON.stringify({ ...parsed, [field]: value })).toString('base64');
+};
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFailoverProvider } from './FailoverLlmProvider';
+import { LlmMessage, LlmProvider } from './LlmProvider';
+import { createMockLlmProvider, MockLlmProviderConfig } from './MockLlmProvider';
+
+const messages: LlmMessage[] = [{ role: 'user', content: 'halo' }];
+
+// A mock provider under its own name, with its calls counted
+const createProvider = (name: string, config: MockLlmProviderConfig = {}): LlmProvider => {
+  const mock = createMockLlmProvider({ responses: { halo: `jawaban ${name}` }, ...config });
+  return {
+    name,
+    complete: vi.fn(mock.complete),
+    stream: vi.fn(mock.stream)
+  };
+};
+
+// Streams one token, then loses the connection
+const createBrokenStreamProvider = (name: string): LlmProvider => ({
+  name,
+  complete: vi.fn(async () => {
+    throw new Error('connection reset');
+  }),
+  stream: vi.fn(async (messages: LlmMessage[], onToken: (token: string) => void) => {
+    onToken('Hal');
+    throw new Error('connection reset');
+  })
+});
+
+describe('createFailoverProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('needs at least one provider', () => {
+    expect(() => createFailoverProvider([])).toThrow('At least one LLM provider is required.');
+  });
+
+  it('moves to the next provider when one fails', async () => {
+    const primary = createProvider('groq', { failWith: 'rate limited' });
+    const backup = createProvider('local');
+    const provider = createFailoverProvider([primary, backup]);
+
+    expect(provider.name).toBe('groq>local');
+    expect((await provider.complete(messages)).text).toBe('jawaban local');
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a failed provider until its cooldown ends', async () => {
+    const primary = createProvider('groq', { failWith: 'rate limited' });
+    const backup = createProvider('local');
+    const provider = createFailoverProvider([primary, backup], 30000);
+
+    await provider.complete(messages);
+    vi.setSystemTime(Date.now() + 29000);
+    await provider.complete(messages);
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+    expect(backup.complete).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(Date.now() + 1000);
+    await provider.complete(messages);
+    expect(primary.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('still tries providers in cooldown when the others fail', async () => {
+    const primary = createProvider('groq', { failWith: 'rate limited' });
+    const backup = createProvider('local', { failWith: 'offline' });
+    const provider = createFailoverProvider([primary, backup]);
+
+    await expect(provider.complete(messages)).rejects.toThrow('offline');
+    // Both cooling down: still tried in order, and the last error is reported
+    await expect(provider.complete(messages)).rejects.toThrow('offline');
+    expect(primary.complete).toHaveBeenCalledTimes(2);
+    expect(backup.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('streams from the next provider when one fails before sending tokens', async () => {
+    const primary = createProvider('groq', { failWith: 'rate limited' });
+    const backup = createProvider('local');
+    const provider = createFailoverProvider([primary, backup]);
+
+    const tokens: string[] = [];
+    const completion = await provider.stream(messages, (token) => tokens.push(token));
+    expect(completion.text).toBe('jawaban local');
+    expect(tokens.join('')).toBe('jawaban local');
+  });
+
+  it('does not switch providers once tokens have been streamed', async () => {
+    const primary = createBrokenStreamProvider('groq');
+    const backup = createProvider('local');
+    const provider = createFailoverProvider([primary, backup]);
+
+    const tokens: string[] = [];
+    await expect(provider.stream(messages, (token) => tokens.push(token))).rejects.toThrow('connection reset');
+    expect(tokens).toEqual(['Hal']);
+    expect(backup.stream).not.toHaveBeenCalled();
+  });
+
+  it('does not retry an aborted request', async () => {
+    const controller = new AbortController();
+    const primary: LlmProvider = {
+      ...createProvider('groq'),
+      complete: vi.fn(async () => {
+        controller.abort();
+        throw new Error('aborted');
+      })
+    };
+    const backup = createProvider('local');
+    const provider = createFailoverProvider([primary, backup]);
+
+    await expect(provider.complete(messages, { signal: controller.signal })).rejects.toThrow('aborted');
+    expect(backup.complete).not.toHaveBeenCalled();
+  });
+});
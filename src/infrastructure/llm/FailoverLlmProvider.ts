@@ -0,0 +1,83 @@
+/**
+ * FailoverLlmProvider.ts
+ * Tries an ordered chain of LLM providers until one answers
+ */
+
+import { LlmCompletion, LlmMessage, LlmProvider, LlmRequestOptions } from './LlmProvider';
+
+/**
+ * Create a provider that falls back to the next provider in the chain
+ * when one fails, e.g. because Groq is rate-limited or unreachable.
+ * A failed provider is skipped for `cooldownMs` so later requests do not
+ * wait on it again.
+ */
+export const createFailoverProvider = (
+  providers: LlmProvider[],
+  cooldownMs: number = 30000
+): LlmProvider => {
+  if (providers.length === 0) {
+    throw new Error('At least one LLM provider is required.');
+  }
+
+  const unavailableUntil = new Map<string, number>();
+
+  // Providers in cooling-down state go to the end of the chain instead of being dropped
+  const orderedProviders = (): LlmProvider[] => {
+    const now = Date.now();
+    const available = providers.filter((p) => (unavailableUntil.get(p.name) ?? 0) <= now);
+    const coolingDown = providers.filter((p) => (unavailableUntil.get(p.name) ?? 0) > now);
+    return [...available, ...coolingDown];
+  };
+
+  const run = async (
+    call: (provider: LlmProvider) => Promise<LlmCompletion>,
+    options?: LlmRequestOptions,
+    canRetry: () => boolean = () => true
+  ): Promise<LlmCompletion> => {
+    let lastError: unknown;
+
+    for (const provider of orderedProviders()) {
+      try {
+        const completion = await call(provider);
+        unavailableUntil.delete(provider.name);
+        return completion;
+      } catch (error) {
+        lastError = error;
+        if (options?.signal?.aborted || !canRetry()) {
+          throw error;
+        }
+        console.error(`LLM provider "${provider.name}" failed, trying next provider:`, error);
+        unavailableUntil.set(provider.name, Date.now() + cooldownMs);
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    name: providers.map((p) => p.name).join('>'),
+
+    complete(messages: LlmMessage[], options?: LlmRequestOptions): Promise<LlmCompletion> {
+      return run((provider) => provider.complete(messages, options), options);
+    },
+
+    stream(
+      messages: LlmMessage[],
+      onToken: (token: string) => void,
+      options?: LlmRequestOptions
+    ): Promise<LlmCompletion> {
+      // Once tokens reached the client, switching providers would garble the answer
+      let tokensSent = false;
+      const trackedOnToken = (token: string) => {
+        tokensSent = true;
+        onToken(token);
+      };
+
+      return run(
+        (provider) => provider.stream(messages, trackedOnToken, options),
+        options,
+        () => !tokensSent
+      );
+    }
+  };
+};
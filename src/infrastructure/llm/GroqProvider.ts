@@ -0,0 +1,91 @@
+/**
+ * GroqProvider.ts
+ * LLM provider backed by the Groq chat completion API
+ */
+
+import Groq from 'groq-sdk';
+import { LlmCompletion, LlmMessage, LlmProvider, LlmRequestOptions, LlmUsage } from './LlmProvider';
+import { fromOpenAiToolCalls, toOpenAiMessages, toOpenAiTools } from './OpenAiMessages';
+
+export interface GroqProviderConfig {
+  apiKey: string;
+  model: string;
+  temperature: number;
+  maxCompletionTokens: number;
+  topP: number;
+}
+
+const toUsage = (usage?: Groq.CompletionUsage): LlmUsage | undefined => {
+  if (!usage) return undefined;
+
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+};
+
+export const createGroqProvider = (config: GroqProviderConfig): LlmProvider => {
+  const groq = new Groq({ apiKey: config.apiKey });
+
+  const getOptions = (options?: LlmRequestOptions) => ({
+    model: config.model,
+    temperature: config.temperature,
+    max_completion_tokens: options?.maxTokens ?? config.maxCompletionTokens,
+    top_p: config.topP,
+  });
+
+  return {
+    name: 'groq',
+
+    async complete(messages: LlmMessage[], options?: LlmRequestOptions): Promise<LlmCompletion> {
+      const tools = toOpenAiTools(options?.tools);
+      const response = await groq.chat.completions.create(
+        {
+          messages: toOpenAiMessages(messages) as Groq.Chat.ChatCompletionMessageParam[],
+          ...getOptions(options),
+          ...(tools ? { tools, tool_choice: 'auto' as const } : {}),
+          stream: false,
+        },
+        { signal: options?.signal }
+      );
+
+      const message = response.choices[0]?.message;
+      return {
+        text: message?.content ?? '',
+        provider: 'groq',
+        usage: toUsage(response.usage),
+        toolCalls: fromOpenAiToolCalls(message?.tool_calls)
+      };
+    },
+
+    async stream(
+      messages: LlmMessage[],
+      onToken: (token: string) => void,
+      options?: LlmRequestOptions
+    ): Promise<LlmCompletion> {
+      const stream = await groq.chat.completions.create(
+        {
+          messages: toOpenAiMessages(messages) as Groq.Chat.ChatCompletionMessageParam[],
+          ...getOptions(options),
+          stream: true,
+        },
+        { signal: options?.signal }
+      );
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content ?? '';
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+        // Groq reports usage on the final chunk
+        usage = toUsage(chunk.x_groq?.usage) ?? usage;
+      }
+
+      return { text, provider: 'groq', usage };
+    }
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * LlmProvider.ts
+ * Common interface for the language model backends used by the chatbot
+ */
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments as produced by the model
+  arguments: string;
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Tools the assistant asked to call (assistant messages only)
+  toolCalls?: LlmToolCall[];
+  // Call this message answers (tool messages only)
+  toolCallId?: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: string;
+  usage?: LlmUsage;
+  // Set when the model wants tools to be called before it answers
+  toolCalls?: LlmToolCall[];
+}
+
+export interface LlmRequestOptions {
+  // Overrides the provider's configured completion token limit
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Tools the model may call; only used by complete()
+  tools?: LlmToolDefinition[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+
+  /**
+   * Generate a complete answer for a list of chat messages
+   */
+  complete(messages: LlmMessage[], options?: LlmRequestOptions): Promise<LlmCompletion>;
+
+  /**
+   * Generate an answer token by token
+   * @param onToken - Called for every piece of text as it arrives
+   */
+  stream(
+    messages: LlmMessage[],
+    onToken: (token: string) => void,
+    options?: LlmRequestOptions
+  ): Promise<LlmCompletion>;
+}
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLlmProviderFromEnv } from './LlmProviderFactory';
+
+describe('createLlmProviderFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses a single provider without failover', async () => {
+    vi.stubEnv('LLM_PROVIDERS', 'mock');
+    const provider = createLlmProviderFromEnv();
+    expect(provider.name).toBe('mock');
+    expect((await provider.complete([{ role: 'user', content: 'halo' }])).text).toBe('[mock] halo');
+  });
+
+  it('chains the listed providers in order, ignoring case, spaces and empty entries', () => {
+    vi.stubEnv('LLM_PROVIDERS', ' Local , mock,,');
+    expect(createLlmProviderFromEnv().name).toBe('local>mock');
+  });
+
+  it('rejects unknown providers', () => {
+    vi.stubEnv('LLM_PROVIDERS', 'mock,openai');
+    expect(() => createLlmProviderFromEnv()).toThrow('Unknown LLM provider "openai".');
+  });
+});
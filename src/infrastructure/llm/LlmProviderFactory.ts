@@ -0,0 +1,81 @@
+/**
+ * LlmProviderFactory.ts
+ * Builds the LLM provider chain selected in the environment
+ */
+
+import dotenv from 'dotenv';
+import { LlmProvider } from './LlmProvider';
+import { createGroqProvider } from './GroqProvider';
+import { createLocalLlamaProvider } from './LocalLlamaProvider';
+import { createMockLlmProvider } from './MockLlmProvider';
+import { createFailoverProvider } from './FailoverLlmProvider';
+dotenv.config();
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Create a single provider by name
+ */
+export const createProvider = (name: string): LlmProvider => {
+  switch (name) {
+    case 'groq':
+      return createGroqProvider({
+        apiKey: process.env.GROQ_API_KEY!,
+        model: process.env.GROQ_MODEL ?? 'llama-3.1-8b-instant',
+        temperature: Number(process.env.GROQ_TEMPERATURE ?? '0.7'),
+        maxCompletionTokens: Number(process.env.GROQ_MAX_COMPLETION_TOKENS ?? '1024'),
+        topP: Number(process.env.GROQ_TOP_P ?? '1'),
+      });
+
+    case 'local':
+      return createLocalLlamaProvider({
+        baseUrl: process.env.LOCAL_LLM_URL ?? 'http://localhost:8080',
+        model: process.env.LLAMA_MODEL_PATH ?? 'local-model',
+        temperature: Number(process.env.LOCAL_LLM_TEMPERATURE ?? '0.7'),
+        maxTokens: Number(process.env.LOCAL_LLM_MAX_TOKENS ?? '1024'),
+        topP: Number(process.env.LOCAL_LLM_TOP_P ?? '1'),
+        timeoutMs: Number(process.env.LOCAL_LLM_TIMEOUT_MS ?? '60000'),
+      });
+
+    case 'mock':
+      return createMockLlmProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider "${name}".`);
+  }
+};
+
+/**
+ * Create the provider chain from LLM_PROVIDERS, e.g. "groq,local".
+ * Providers are tried in the listed order.
+ */
+export const createLlmProviderFromEnv = (): LlmProvider => {
+  const names = (process.env.LLM_PROVIDERS ?? 'groq')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.map(createProvider);
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  return createFailoverProvider(providers, Number(process.env.LLM_FAILOVER_COOLDOWN_MS ?? '30000'));
+};
+
+/**
+ * Get the shared LLM provider, creating it on first use
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider = createLlmProviderFromEnv();
+  }
+  return provider;
+};
+
+/**
+ * Replace the shared LLM provider, e.g. with a mock in tests
+ */
+export const setLlmProvider = (newProvider: LlmProvider): void => {
+  provider = newProvider;
+};
@@ -0,0 +1,128 @@
+/**
+ * LocalLlamaProvider.ts
+ * LLM provider for a local OpenAI-compatible server, e.g. llama.cpp's llama-server
+ * running a GGUF model
+ */
+
+import axios from 'axios';
+import { Readable } from 'stream';
+import { LlmCompletion, LlmMessage, LlmProvider, LlmRequestOptions, LlmUsage } from './LlmProvider';
+import { OpenAiToolCall, fromOpenAiToolCalls, toOpenAiMessages, toOpenAiTools } from './OpenAiMessages';
+
+export interface LocalLlamaProviderConfig {
+  baseUrl: string;
+  // Model name sent to the server; llama-server reports the GGUF file it loaded
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  timeoutMs: number;
+}
+
+interface OpenAiUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface OpenAiCompletion {
+  choices: { message?: { content?: string | null; tool_calls?: OpenAiToolCall[] | null } }[];
+  usage?: OpenAiUsage;
+}
+
+interface OpenAiChunk {
+  choices: { delta?: { content?: string | null } }[];
+  usage?: OpenAiUsage | null;
+}
+
+const toUsage = (usage?: OpenAiUsage | null): LlmUsage | undefined => {
+  if (!usage) return undefined;
+
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+};
+
+export const createLocalLlamaProvider = (config: LocalLlamaProviderConfig): LlmProvider => {
+  const url = `${config.baseUrl.replace(/\/$/, '')}/v1/chat/completions`;
+
+  const buildBody = (messages: LlmMessage[], stream: boolean, options?: LlmRequestOptions) => ({
+    model: config.model,
+    messages: toOpenAiMessages(messages),
+    ...(!stream && options?.tools?.length ? { tools: toOpenAiTools(options.tools), tool_choice: 'auto' } : {}),
+    temperature: config.temperature,
+    max_tokens: options?.maxTokens ?? config.maxTokens,
+    top_p: config.topP,
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {})
+  });
+
+  const buildConfig = (options?: LlmRequestOptions, responseType?: string) => ({
+    timeout: config.timeoutMs,
+    signal: options?.signal,
+    responseType
+  });
+
+  return {
+    name: 'local',
+
+    async complete(messages: LlmMessage[], options?: LlmRequestOptions): Promise<LlmCompletion> {
+      const response = await axios.post<OpenAiCompletion>(
+        url,
+        buildBody(messages, false, options),
+        buildConfig(options)
+      );
+
+      const message = response.data.choices[0]?.message;
+      return {
+        text: message?.content ?? '',
+        provider: 'local',
+        usage: toUsage(response.data.usage),
+        toolCalls: fromOpenAiToolCalls(message?.tool_calls)
+      };
+    },
+
+    async stream(
+      messages: LlmMessage[],
+      onToken: (token: string) => void,
+      options?: LlmRequestOptions
+    ): Promise<LlmCompletion> {
+      const response = await axios.post<Readable>(
+        url,
+        buildBody(messages, true, options),
+        buildConfig(options, 'stream')
+      );
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      let buffer = '';
+
+      for await (const data of response.data) {
+        buffer += data.toString();
+
+        // Server-Sent Events arrive line by line as `data: {...}`
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          const chunk = JSON.parse(payload) as OpenAiChunk;
+          const token = chunk.choices[0]?.delta?.content ?? '';
+          if (token) {
+            text += token;
+            onToken(token);
+          }
+          usage = toUsage(chunk.usage) ?? usage;
+        }
+      }
+
+      return { text, provider: 'local', usage };
+    }
+  };
+};
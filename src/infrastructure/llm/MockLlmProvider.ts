@@ -0,0 +1,80 @@
+/**
+ * MockLlmProvider.ts
+ * Deterministic LLM provider for tests and offline development
+ */
+
+import { LlmCompletion, LlmMessage, LlmProvider, LlmRequestOptions } from './LlmProvider';
+
+export interface MockLlmProviderConfig {
+  // Canned answers keyed by a lowercase substring of the last user message
+  responses?: Record<string, string>;
+  // When set, every call fails with this error message
+  failWith?: string;
+  // Tool calls requested when tools are offered, keyed like `responses`
+  toolCalls?: Record<string, { name: string; arguments: Record<string, unknown> }>;
+}
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const createMockLlmProvider = (config: MockLlmProviderConfig = {}): LlmProvider => {
+  const answer = (messages: LlmMessage[], options?: LlmRequestOptions): LlmCompletion => {
+    if (config.failWith) {
+      throw new Error(config.failWith);
+    }
+
+    const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    const lowercaseMessage = lastUserMessage.toLowerCase();
+    const lastMessage = messages[messages.length - 1];
+
+    // Ask for a tool once per user message, then answer with the tool results
+    if (options?.tools?.length && lastMessage?.role === 'user') {
+      const toolMatch = Object.entries(config.toolCalls || {}).find(([key]) =>
+        lowercaseMessage.includes(key.toLowerCase())
+      );
+      if (toolMatch) {
+        return {
+          text: '',
+          provider: 'mock',
+          toolCalls: [{ id: 'mock-call-1', name: toolMatch[1].name, arguments: JSON.stringify(toolMatch[1].arguments) }]
+        };
+      }
+    }
+
+    const match = Object.entries(config.responses || {}).find(([key]) =>
+      lowercaseMessage.includes(key.toLowerCase())
+    );
+    const text = match
+      ? match[1]
+      : lastMessage?.role === 'tool'
+        ? `[mock] ${lastMessage.content}`
+        : `[mock] ${lastUserMessage}`;
+
+    const promptTokens = messages.reduce((total, m) => total + estimateTokens(m.content), 0);
+    const completionTokens = estimateTokens(text);
+
+    return {
+      text,
+      provider: 'mock',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  };
+
+  return {
+    name: 'mock',
+
+    async complete(messages: LlmMessage[], options?: LlmRequestOptions): Promise<LlmCompletion> {
+      return answer(messages, options);
+    },
+
+    async stream(
+      messages: LlmMessage[],
+      onToken: (token: string) => void,
+      options?: LlmRequestOptions
+    ): Promise<LlmCompletion> {
+      const completion = answer(messages);
+      // Emit word by word so streaming clients see several tokens
+      completion.text.split(/(?<=\s)/).forEach((token) => onToken(token));
+      return completion;
+    }
+  };
+};
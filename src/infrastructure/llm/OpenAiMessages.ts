@@ -0,0 +1,63 @@
+/**
+ * OpenAiMessages.ts
+ * Conversion between the provider-neutral LLM types and the OpenAI chat format
+ * used by Groq and OpenAI-compatible servers
+ */
+
+import { LlmMessage, LlmToolCall, LlmToolDefinition } from './LlmProvider';
+
+export interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type OpenAiMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string };
+
+export const toOpenAiMessages = (messages: LlmMessage[]): OpenAiMessage[] => {
+  return messages.map((message): OpenAiMessage => {
+    if (message.role === 'tool') {
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId ?? '' };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+};
+
+export const toOpenAiTools = (tools?: LlmToolDefinition[]) => {
+  if (!tools?.length) return undefined;
+
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+};
+
+export const fromOpenAiToolCalls = (toolCalls?: OpenAiToolCall[] | null): LlmToolCall[] | undefined => {
+  if (!toolCalls?.length) return undefined;
+
+  return toolCalls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments
+  }));
+};
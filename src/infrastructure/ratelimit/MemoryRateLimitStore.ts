@@ -0,0 +1,67 @@
+/**
+ * MemoryRateLimitStore.ts
+ * In-process rate limit store, lost on restart and not shared between instances
+ */
+
+import { RateLimitStore, SlidingWindowResult } from './RateLimitStore';
+
+// How often keys whose hits and counters have all expired are removed
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface HitLog {
+  // Hit times, oldest first
+  hits: number[];
+  expiresAt: number;
+}
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const hitLogs = new Map<string, HitLog>();
+  const counters = new Map<string, Counter>();
+  let lastSweep = 0;
+
+  const sweep = (now: number): void => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+
+    for (const [key, log] of hitLogs) {
+      if (log.expiresAt <= now) hitLogs.delete(key);
+    }
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key);
+    }
+  };
+
+  return {
+    async hit(key: string, limit: number, windowMs: number, now: number): Promise<SlidingWindowResult> {
+      sweep(now);
+
+      const hits = (hitLogs.get(key)?.hits ?? []).filter((time) => time > now - windowMs);
+      const allowed = hits.length < limit;
+      if (allowed) {
+        hits.push(now);
+      }
+      hitLogs.set(key, { hits, expiresAt: hits[hits.length - 1] + windowMs });
+
+      return { allowed, count: hits.length, resetAt: hits[0] + windowMs };
+    },
+
+    async increment(key: string, amount: number, expiresAt: number, now: number): Promise<number> {
+      sweep(now);
+
+      const counter = counters.get(key);
+      const value = (counter && counter.expiresAt > now ? counter.value : 0) + amount;
+      counters.set(key, { value, expiresAt });
+      return value;
+    },
+
+    async getCount(key: string, now: number): Promise<number> {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > now ? counter.value : 0;
+    }
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * RateLimitStore.ts
+ * Storage interface for request rate limits and LLM token budgets
+ */
+
+export interface SlidingWindowResult {
+  // False when the limit was already reached and the hit was not recorded
+  allowed: boolean;
+  // Hits in the window, including this one when it was recorded
+  count: number;
+  // When the oldest hit in the window leaves it (epoch milliseconds)
+  resetAt: number;
+}
+
+/**
+ * Keeps sliding-window hit logs and expiring counters by key.
+ * Each method is a single step, so that shared backends can run it atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Record a hit unless `limit` hits were already recorded in the last `windowMs`
+   */
+  hit(key: string, limit: number, windowMs: number, now: number): Promise<SlidingWindowResult>;
+
+  /**
+   * Add to a counter that is dropped at `expiresAt` (epoch milliseconds)
+   * @returns The new total
+   */
+  increment(key: string, amount: number, expiresAt: number, now: number): Promise<number>;
+
+  /**
+   * Current value of a counter, 0 when it is unknown or expired
+   */
+  getCount(key: string, now: number): Promise<number>;
+}
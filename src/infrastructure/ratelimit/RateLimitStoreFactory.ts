@@ -0,0 +1,24 @@
+/**
+ * RateLimitStoreFactory.ts
+ * Builds the rate limit store selected in the environment
+ */
+
+import dotenv from 'dotenv';
+import { RateLimitStore } from './RateLimitStore';
+import { createMemoryRateLimitStore } from './MemoryRateLimitStore';
+dotenv.config();
+
+/**
+ * Create the store named in RATE_LIMIT_STORE; "memory" is the only backend so far
+ */
+export const createRateLimitStoreFromEnv = (): RateLimitStore => {
+  const type = (process.env.RATE_LIMIT_STORE ?? 'memory').toLowerCase();
+
+  switch (type) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+
+    default:
+      throw new Error(`Unknown rate limit store "${type}".`);
+  }
+};
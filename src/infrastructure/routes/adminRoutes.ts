@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { requireAdminKey, reloadKnowledgeBaseHandler } from '../../adapters/controllers/adminController';
+
+const router = Router();
+
+router.use(requireAdminKey);
+router.post('/knowledge-base/reload', reloadKnowledgeBaseHandler);
+
+export default router;
\ No newline at end of file
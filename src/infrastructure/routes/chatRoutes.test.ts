@@ -0,0 +1,72 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveCustomerContext } from '../../application/services/CustomerContextService';
+import { setRateLimitStore } from '../../application/services/RateLimitService';
+import { createMemoryRateLimitStore } from '../ratelimit/MemoryRateLimitStore';
+import chatRoutes from './chatRoutes';
+
+vi.mock('../../application/services/CustomerContextService', () => ({ resolveCustomerContext: vi.fn(async () => null) }));
+vi.mock('../../adapters/controllers/chatController', () => ({
+  chat: (req: express.Request, res: express.Response) => res.json({ response: 'ok' }),
+  chatStream: (req: express.Request, res: express.Response) => res.json({ response: 'ok' })
+}));
+
+describe('chatRoutes', () => {
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    // Mounted like src/index.ts, in front of another router under /api
+    const app = express();
+    app.use(express.json());
+    app.use('/api', chatRoutes);
+    app.get('/api/admin/status', (req, res) => res.json({ ok: true }));
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.mocked(resolveCustomerContext).mockClear();
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer 5|abc' },
+    body: JSON.stringify(body)
+  });
+
+  it('resolves the customer for both chat endpoints', async () => {
+    expect((await post('/api/chat', { message: 'halo' })).status).toBe(200);
+    expect((await post('/api/chat/stream', { message: 'halo' })).status).toBe(200);
+    expect(resolveCustomerContext).toHaveBeenCalledTimes(2);
+    expect(resolveCustomerContext).toHaveBeenCalledWith({ cookie: undefined, bearerToken: '5|abc' });
+  });
+
+  it('leaves other /api routes alone', async () => {
+    const response = await fetch(`${baseUrl}/api/admin/status`, { headers: { Authorization: 'Bearer 5|abc' } });
+    expect(response.status).toBe(200);
+    expect(resolveCustomerContext).not.toHaveBeenCalled();
+  });
+
+  it('rejects overlong messages', async () => {
+    const response = await post('/api/chat', { message: 'x'.repeat(1001) });
+    expect(response.status).toBe(413);
+    expect(resolveCustomerContext).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 with Retry-After once the IP limit is reached, without limiting other /api routes', async () => {
+    for (let i = 0; i < 60; i++) {
+      expect((await post(i % 2 ? '/api/chat' : '/api/chat/stream', { message: 'halo', sessionId: `s-${i}` })).status).toBe(200);
+    }
+
+    const limited = await post('/api/chat', { message: 'halo', sessionId: 'fresh' });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect((await fetch(`${baseUrl}/api/admin/status`)).status).toBe(200);
+  });
+});
@@ -1,8 +1,13 @@
 import { Router } from 'express';
-import { chat } from '../../adapters/controllers/chatController';
+import { chat, chatStream } from '../../adapters/controllers/chatController';
+import { attachCustomer } from '../../adapters/middleware/authMiddleware';
+import { limitChatRequests } from '../../adapters/middleware/rateLimitMiddleware';
 
 const router = Router();
 
-router.post('/chat', chat);
+// Mounted at /api next to the admin routes, so limits and the customer only apply to chat.
+// Limits come first, so that rejected requests do not look up the customer.
+router.post('/chat', limitChatRequests, attachCustomer, chat);
+router.post('/chat/stream', limitChatRequests, attachCustomer, chatStream);
 
 export default router;
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processMessage } from '../../application/services/ChatService';
+import { createCloudApiClient } from '../whatsapp/WhatsAppClient';
+import { createWhatsAppRoutes } from './whatsappRoutes';
+
+vi.mock('../../application/services/ChatService', () => ({
+  processMessage: vi.fn(async () => ({ text: '**Halo!** Ada yang bisa dibantu?', messages: [] }))
+}));
+
+const APP_SECRET = 'test-app-secret';
+
+interface SentMessage {
+  phoneNumberId: string;
+  authorization?: string;
+  body: { to: string; text: { body: string } };
+}
+
+const listen = async (app: express.Express) => {
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+const inboundPayload = (id: string, body: string) => ({
+  object: 'whatsapp_business_account',
+  entry: [{ changes: [{ value: { messages: [{ from: '6281111111111', id, type: 'text', text: { body } }] } }] }]
+});
+
+const sign = (body: string, secret: string = APP_SECRET) =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+describe('whatsappRoutes', () => {
+  let servers: ReturnType<express.Express['listen']>[];
+  let webhookUrl: string;
+  let sent: SentMessage[];
+
+  beforeEach(async () => {
+    vi.stubEnv('WHATSAPP_VERIFY_TOKEN', 'verify-me');
+    vi.stubEnv('WHATSAPP_APP_SECRET', APP_SECRET);
+    vi.stubEnv('WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS', '');
+    vi.mocked(processMessage).mockClear();
+
+    // Local fake of the Cloud API messages endpoint
+    sent = [];
+    const fakeApi = express();
+    fakeApi.use(express.json());
+    fakeApi.post('/:phoneNumberId/messages', (req, res) => {
+      sent.push({ phoneNumberId: req.params.phoneNumberId, authorization: req.get('authorization'), body: req.body });
+      res.json({ messages: [{ id: 'wamid.out' }] });
+    });
+    const api = await listen(fakeApi);
+
+    // Mounted like src/index.ts, keeping the raw body for the signature
+    const app = express();
+    app.use(express.json({
+      verify: (req, res, buf) => {
+        (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+      }
+    }));
+    app.use('/', createWhatsAppRoutes(createCloudApiClient({ apiUrl: api.url, phoneNumberId: '123', accessToken: 'token' })));
+    const webhook = await listen(app);
+
+    servers = [api.server, webhook.server];
+    webhookUrl = `${webhook.url}/webhook`;
+  });
+
+  afterEach(() => {
+    servers.forEach((server) => server.close());
+    vi.unstubAllEnvs();
+  });
+
+  const postWebhook = (body: string, signature?: string) => fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(signature ? { 'X-Hub-Signature-256': signature } : {}) },
+    body
+  });
+
+  it('answers the verification handshake with the challenge', async () => {
+    const response = await fetch(`${webhookUrl}?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=42`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('42');
+  });
+
+  it('rejects the handshake with a wrong verify token', async () => {
+    const response = await fetch(`${webhookUrl}?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=42`);
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects messages with a missing or wrong signature', async () => {
+    const body = JSON.stringify(inboundPayload('wamid.1', 'halo'));
+    expect((await postWebhook(body)).status).toBe(401);
+    expect((await postWebhook(body, sign(body, 'other-secret'))).status).toBe(401);
+    expect(processMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects messages when no app secret is configured', async () => {
+    vi.stubEnv('WHATSAPP_APP_SECRET', '');
+    const body = JSON.stringify(inboundPayload('wamid.1', 'halo'));
+    expect((await postWebhook(body, sign(body))).status).toBe(401);
+  });
+
+  it('accepts unsigned messages only when explicitly allowed', async () => {
+    vi.stubEnv('WHATSAPP_APP_SECRET', '');
+    vi.stubEnv('WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS', 'true');
+    const response = await postWebhook(JSON.stringify(inboundPayload('wamid.1', 'halo')));
+    expect(response.status).toBe(200);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+  });
+
+  it('sends the reply in WhatsApp formatting through the client', async () => {
+    const body = JSON.stringify(inboundPayload('wamid.1', 'halo'));
+    expect((await postWebhook(body, sign(body))).status).toBe(200);
+
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    expect(processMessage).toHaveBeenCalledWith('halo', 'whatsapp:6281111111111', expect.objectContaining({
+      clientId: 'whatsapp:6281111111111'
+    }));
+    expect(sent[0]).toMatchObject({
+      phoneNumberId: '123',
+      authorization: 'Bearer token',
+      body: { to: '6281111111111', text: { body: '*Halo!* Ada yang bisa dibantu?' } }
+    });
+  });
+
+  it('answers a redelivered message only once', async () => {
+    const body = JSON.stringify(inboundPayload('wamid.1', 'halo'));
+    expect((await postWebhook(body, sign(body))).status).toBe(200);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+    expect((await postWebhook(body, sign(body))).status).toBe(200);
+    const other = JSON.stringify(inboundPayload('wamid.2', 'halo lagi'));
+    expect((await postWebhook(other, sign(other))).status).toBe(200);
+
+    await vi.waitFor(() => expect(sent).toHaveLength(2));
+    expect(processMessage).toHaveBeenCalledTimes(2);
+    expect(processMessage).toHaveBeenLastCalledWith('halo lagi', 'whatsapp:6281111111111', expect.anything());
+  });
+});
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { createWhatsAppController } from '../../adapters/controllers/whatsappController';
+import { WhatsAppClient } from '../whatsapp/WhatsAppClient';
+
+export const createWhatsAppRoutes = (client: WhatsAppClient): Router => {
+  const router = Router();
+  const { verifyWebhook, receiveWebhook } = createWhatsAppController(client);
+
+  router.get('/webhook', verifyWebhook);
+  router.post('/webhook', receiveWebhook);
+
+  return router;
+};
@@ -0,0 +1,58 @@
+/**
+ * SecurityEventLogger.ts
+ * Records failed access checks, such as a guest giving the wrong contact for an order,
+ * as one JSON line each on the console and optionally in a log file
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config();
+
+// Leave empty to log to the console only
+const SECURITY_LOG_FILE = process.env.SECURITY_LOG_FILE ?? '';
+
+export type SecurityEventType =
+  | 'order_access_denied'
+  | 'order_verification_failed'
+  | 'order_verification_locked'
+  // Verification of an order locked for everyone after failures from many clients
+  | 'order_verification_order_locked';
+
+export interface SecurityEvent {
+  type: SecurityEventType;
+  sessionId: string;
+  orderId?: string;
+  // Logged-in customer who made the request
+  customerId?: string;
+  // Masked email or phone a guest gave
+  contact?: string;
+  // IP address or WhatsApp number the request came from
+  clientId?: string;
+  // Failed verifications by the client, or of the order by everyone, within the lock period
+  attempts?: number;
+}
+
+let directoryReady: Promise<void> | null = null;
+
+const appendToFile = async (line: string): Promise<void> => {
+  if (!directoryReady) {
+    directoryReady = fs.mkdir(path.dirname(SECURITY_LOG_FILE), { recursive: true }).then(() => undefined);
+  }
+  await directoryReady;
+  await fs.appendFile(SECURITY_LOG_FILE, line + '\n', 'utf8');
+};
+
+/**
+ * Log a security event; writing the file never holds up or fails the reply
+ */
+export const logSecurityEvent = (event: SecurityEvent): void => {
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), ...event });
+  console.warn(`[security] ${line}`);
+
+  if (SECURITY_LOG_FILE) {
+    appendToFile(line).catch((error) => {
+      console.error('Error writing security log:', error);
+    });
+  }
+};
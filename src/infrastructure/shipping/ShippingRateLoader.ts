@@ -0,0 +1,47 @@
+/**
+ * ShippingRateLoader.ts
+ * Loads the shipping rate table from a JSON file on disk
+ */
+
+import { promises as fs } from 'fs';
+import { ShippingRate, ShippingRateTable } from '../../domain/services/ShippingCalculator';
+
+const isRate = (rate: Partial<ShippingRate>): rate is ShippingRate => {
+  return typeof rate.courier === 'string' &&
+    typeof rate.service === 'string' &&
+    typeof rate.zone === 'string' &&
+    ['firstKg', 'nextKg', 'minDays', 'maxDays'].every((key) => typeof rate[key as keyof ShippingRate] === 'number');
+};
+
+/**
+ * Parse a rate table; malformed rates are reported and skipped
+ */
+export const parseShippingRateTable = (text: string, source: string): ShippingRateTable => {
+  const data = JSON.parse(text);
+  if (!data || typeof data.origin !== 'string' || typeof data.zones !== 'object' || !Array.isArray(data.rates)) {
+    throw new Error(`${source}: expected an origin, zones and rates`);
+  }
+
+  const rates = (data.rates as Partial<ShippingRate>[]).filter((rate, index) => {
+    if (!isRate(rate)) {
+      console.warn(`Skipping ${source}: rate ${index + 1} needs a courier, service, zone, prices and days`);
+      return false;
+    }
+    return true;
+  }) as ShippingRate[];
+
+  return {
+    origin: data.origin,
+    defaultWeight: typeof data.defaultWeight === 'number' ? data.defaultWeight : 1000,
+    zones: data.zones,
+    rates
+  };
+};
+
+/**
+ * Load the rate table from a JSON file
+ */
+export const loadShippingRateTable = async (file: string): Promise<ShippingRateTable> => {
+  const text = await fs.readFile(file, 'utf8');
+  return parseShippingRateTable(text, file);
+};
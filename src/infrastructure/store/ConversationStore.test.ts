@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearConversationState,
+  getAllSessionIds,
+  getConversationState,
+  setConversationStore,
+  updateState
+} from '../../application/services/ConversationStateManager';
+import { createConversationState } from '../../domain/entities/ConversationState';
+import { ConversationStore } from './ConversationStore';
+import { createFileConversationStore } from './FileConversationStore';
+import { createMemoryConversationStore } from './MemoryConversationStore';
+import { createRedisConversationStore } from './RedisConversationStore';
+
+vi.mock('ioredis', () => {
+  // Only the commands the store uses, with keys expiring by Date.now()
+  class FakeRedis {
+    private values = new Map<string, { value: string; expiresAt: number }>();
+
+    on() {
+      return this;
+    }
+
+    private live(key: string) {
+      const entry = this.values.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        this.values.delete(key);
+        return undefined;
+      }
+      return entry;
+    }
+
+    async get(key: string) {
+      return this.live(key)?.value ?? null;
+    }
+
+    async set(key: string, value: string, mode: 'EX', seconds: number) {
+      this.values.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+      return 'OK';
+    }
+
+    async del(key: string) {
+      return this.values.delete(key) ? 1 : 0;
+    }
+
+    async scan(cursor: string, match: 'MATCH', pattern: string) {
+      const prefix = pattern.slice(0, -1);
+      return ['0', [...this.values.keys()].filter((key) => key.startsWith(prefix) && this.live(key))];
+    }
+
+    async quit() {
+      return 'OK';
+    }
+  }
+
+  return { default: FakeRedis };
+});
+
+const DAY_SECONDS = 86400;
+
+let directory: string;
+
+const backends: [string, () => ConversationStore, boolean][] = [
+  ['memory', () => createMemoryConversationStore(), true],
+  ['file', () => createFileConversationStore(directory), true],
+  // Redis drops expired keys itself, so there is nothing to sweep
+  ['redis', () => createRedisConversationStore({ url: 'redis://localhost:6379', keyPrefix: 'test:' }), false]
+];
+
+describe.each(backends)('%s conversation store', (name, createStore, sweeps) => {
+  let store: ConversationStore;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(directory, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  const later = (seconds: number) => vi.setSystemTime(Date.now() + seconds * 1000);
+
+  it('saves, lists and deletes sessions', async () => {
+    expect(await store.get('whatsapp:628111')).toBeNull();
+
+    await store.set('whatsapp:628111', createConversationState('whatsapp:628111'), 60);
+    await store.set('web-2', createConversationState('web-2'), 60);
+
+    expect((await store.get('whatsapp:628111'))?.sessionId).toBe('whatsapp:628111');
+    expect((await store.keys()).sort()).toEqual(['web-2', 'whatsapp:628111']);
+
+    await store.delete('web-2');
+    expect(await store.get('web-2')).toBeNull();
+    expect(await store.keys()).toEqual(['whatsapp:628111']);
+  });
+
+  it('expires sessions once they have been idle for the TTL', async () => {
+    await store.set('idle', createConversationState('idle'), 60);
+    await store.set('active', createConversationState('active'), 60);
+
+    later(30);
+    await store.set('active', createConversationState('active'), 60);
+    later(30);
+
+    expect(await store.keys()).toEqual(['active']);
+    expect(await store.get('idle')).toBeNull();
+    expect(await store.get('active')).not.toBeNull();
+
+    later(60);
+    expect(await store.sweepExpired()).toBe(sweeps ? 1 : 0);
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('keeps the manager semantics', async () => {
+    setConversationStore(store);
+
+    const created = await getConversationState('session');
+    expect(created).toMatchObject({ sessionId: 'session', history: [] });
+    expect(await getAllSessionIds()).toEqual(['session']);
+
+    await updateState('session', { currentIntent: 'cart', language: 'en' });
+    expect(await getConversationState('session')).toMatchObject({ currentIntent: 'cart', language: 'en' });
+
+    // Idle past the TTL, the session starts over
+    later(DAY_SECONDS);
+    expect((await getConversationState('session')).currentIntent).toBeNull();
+
+    await clearConversationState('session');
+    expect(await getAllSessionIds()).toEqual([]);
+  });
+});
+
+describe('file conversation store', () => {
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('survives overlapping writes to one session', async () => {
+    const store = createFileConversationStore(directory);
+    const states = Array.from({ length: 20 }, (_, turn) => ({ ...createConversationState('session'), currentIntent: `turn-${turn}` }));
+
+    await Promise.all(states.map((state) => store.set('session', state, 60)));
+
+    expect((await store.get('session'))?.currentIntent).toMatch(/^turn-\d+$/);
+    expect(await fs.readdir(directory)).toEqual(['session.json']);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * ConversationStore.ts
+ * Storage interface for conversation states
+ */
+
+import { ConversationState } from '../../domain/entities/ConversationState';
+
+/**
+ * Persists conversation states with a sliding time-to-live.
+ * Every save pushes a session's expiry `ttlSeconds` into the future,
+ * so sessions expire after being idle for that long.
+ */
+export interface ConversationStore {
+  get(sessionId: string): Promise<ConversationState | null>;
+  set(sessionId: string, state: ConversationState, ttlSeconds: number): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+
+  /**
+   * IDs of all sessions that have not expired
+   */
+  keys(): Promise<string[]>;
+
+  /**
+   * Remove expired sessions
+   * @returns The number of sessions removed
+   */
+  sweepExpired(): Promise<number>;
+
+  close(): Promise<void>;
+}
+
+// Stored form of a state together with its expiry (epoch milliseconds)
+export interface StoredConversation {
+  state: ConversationState;
+  expiresAt: number;
+}
+
+export const isExpired = (record: StoredConversation, now: number = Date.now()): boolean => {
+  return record.expiresAt <= now;
+};
@@ -0,0 +1,38 @@
+/**
+ * ConversationStoreFactory.ts
+ * Builds the conversation store selected in the environment
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { ConversationStore } from './ConversationStore';
+import { createMemoryConversationStore } from './MemoryConversationStore';
+import { createFileConversationStore } from './FileConversationStore';
+import { createRedisConversationStore } from './RedisConversationStore';
+dotenv.config();
+
+/**
+ * Create the store named in CONVERSATION_STORE (memory, file or redis)
+ */
+export const createConversationStoreFromEnv = (): ConversationStore => {
+  const type = (process.env.CONVERSATION_STORE ?? 'memory').toLowerCase();
+
+  switch (type) {
+    case 'memory':
+      return createMemoryConversationStore();
+
+    case 'file':
+      return createFileConversationStore(
+        path.resolve(process.env.CONVERSATION_STORE_DIR ?? 'data/conversations')
+      );
+
+    case 'redis':
+      return createRedisConversationStore({
+        url: process.env.REDIS_URL ?? 'redis://localhost:6379',
+        keyPrefix: process.env.REDIS_KEY_PREFIX ?? 'aninka:conversation:'
+      });
+
+    default:
+      throw new Error(`Unknown conversation store "${type}".`);
+  }
+};
@@ -0,0 +1,114 @@
+/**
+ * FileConversationStore.ts
+ * Conversation store keeping one JSON file per session on disk
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { ConversationStore, StoredConversation, isExpired } from './ConversationStore';
+
+const FILE_EXTENSION = '.json';
+
+export const createFileConversationStore = (directory: string): ConversationStore => {
+  let ready: Promise<void> | null = null;
+  // Numbers the temporary files, so overlapping writes of one session never share one
+  let writeCount = 0;
+
+  const ensureDirectory = (): Promise<void> => {
+    if (!ready) {
+      ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+    }
+    return ready;
+  };
+
+  // Session IDs can contain characters that are not allowed in file names
+  const fileFor = (sessionId: string): string =>
+    path.join(directory, encodeURIComponent(sessionId) + FILE_EXTENSION);
+
+  const readRecord = async (file: string): Promise<StoredConversation | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as StoredConversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading conversation file ${file}:`, error);
+      }
+      return null;
+    }
+  };
+
+  const removeFile = async (file: string): Promise<void> => {
+    await fs.rm(file, { force: true });
+  };
+
+  const listFiles = async (): Promise<string[]> => {
+    await ensureDirectory();
+    const names = await fs.readdir(directory);
+    return names.filter((name) => name.endsWith(FILE_EXTENSION));
+  };
+
+  return {
+    async get(sessionId: string): Promise<ConversationState | null> {
+      await ensureDirectory();
+      const file = fileFor(sessionId);
+      const record = await readRecord(file);
+      if (!record) return null;
+
+      if (isExpired(record)) {
+        await removeFile(file);
+        return null;
+      }
+
+      return record.state;
+    },
+
+    async set(sessionId: string, state: ConversationState, ttlSeconds: number): Promise<void> {
+      await ensureDirectory();
+      const record: StoredConversation = { state, expiresAt: Date.now() + ttlSeconds * 1000 };
+
+      // Write to a temporary file first so readers never see a partial file
+      const file = fileFor(sessionId);
+      const tempFile = `${file}.${process.pid}.${++writeCount}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(record), 'utf8');
+      await fs.rename(tempFile, file);
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      await removeFile(fileFor(sessionId));
+    },
+
+    async keys(): Promise<string[]> {
+      const now = Date.now();
+      const sessionIds: string[] = [];
+
+      for (const name of await listFiles()) {
+        const record = await readRecord(path.join(directory, name));
+        if (record && !isExpired(record, now)) {
+          sessionIds.push(decodeURIComponent(name.slice(0, -FILE_EXTENSION.length)));
+        }
+      }
+
+      return sessionIds;
+    },
+
+    async sweepExpired(): Promise<number> {
+      const now = Date.now();
+      let removed = 0;
+
+      for (const name of await listFiles()) {
+        const file = path.join(directory, name);
+        const record = await readRecord(file);
+        if (record && isExpired(record, now)) {
+          await removeFile(file);
+          removed++;
+        }
+      }
+
+      return removed;
+    },
+
+    async close(): Promise<void> {
+      // Nothing is held open between calls
+    }
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * MemoryConversationStore.ts
+ * In-process conversation store, lost on restart
+ */
+
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { ConversationStore, StoredConversation, isExpired } from './ConversationStore';
+
+export const createMemoryConversationStore = (): ConversationStore => {
+  const records = new Map<string, StoredConversation>();
+
+  return {
+    async get(sessionId: string): Promise<ConversationState | null> {
+      const record = records.get(sessionId);
+      if (!record) return null;
+
+      if (isExpired(record)) {
+        records.delete(sessionId);
+        return null;
+      }
+
+      return record.state;
+    },
+
+    async set(sessionId: string, state: ConversationState, ttlSeconds: number): Promise<void> {
+      records.set(sessionId, { state, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      records.delete(sessionId);
+    },
+
+    async keys(): Promise<string[]> {
+      const now = Date.now();
+      return [...records.entries()]
+        .filter(([, record]) => !isExpired(record, now))
+        .map(([sessionId]) => sessionId);
+    },
+
+    async sweepExpired(): Promise<number> {
+      const now = Date.now();
+      let removed = 0;
+
+      for (const [sessionId, record] of records) {
+        if (isExpired(record, now)) {
+          records.delete(sessionId);
+          removed++;
+        }
+      }
+
+      return removed;
+    },
+
+    async close(): Promise<void> {
+      records.clear();
+    }
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * RedisConversationStore.ts
+ * Conversation store for Redis or any server speaking the Redis protocol
+ * (Valkey, KeyDB, Dragonfly), shared by every chatbot node
+ */
+
+import Redis from 'ioredis';
+import { ConversationState } from '../../domain/entities/ConversationState';
+import { ConversationStore } from './ConversationStore';
+
+export interface RedisConversationStoreConfig {
+  url: string;
+  keyPrefix: string;
+}
+
+export const createRedisConversationStore = (config: RedisConversationStoreConfig): ConversationStore => {
+  const redis = new Redis(config.url);
+
+  redis.on('error', (error) => {
+    console.error('Redis conversation store error:', error);
+  });
+
+  const keyFor = (sessionId: string): string => `${config.keyPrefix}${sessionId}`;
+
+  return {
+    async get(sessionId: string): Promise<ConversationState | null> {
+      const value = await redis.get(keyFor(sessionId));
+      return value ? JSON.parse(value) as ConversationState : null;
+    },
+
+    async set(sessionId: string, state: ConversationState, ttlSeconds: number): Promise<void> {
+      // Redis expires the key itself
+      await redis.set(keyFor(sessionId), JSON.stringify(state), 'EX', ttlSeconds);
+    },
+
+    async delete(sessionId: string): Promise<void> {
+      await redis.del(keyFor(sessionId));
+    },
+
+    async keys(): Promise<string[]> {
+      const sessionIds: string[] = [];
+      let cursor = '0';
+
+      // SCAN instead of KEYS so a large keyspace does not block the server
+      do {
+        const [nextCursor, keys] = await redis.scan(cursor, 'MATCH', `${config.keyPrefix}*`, 'COUNT', 100);
+        cursor = nextCursor;
+        sessionIds.push(...keys.map((key) => key.slice(config.keyPrefix.length)));
+      } while (cursor !== '0');
+
+      return sessionIds;
+    },
+
+    async sweepExpired(): Promise<number> {
+      // Expired keys are removed by Redis
+      return 0;
+    },
+
+    async close(): Promise<void> {
+      await redis.quit();
+    }
+  };
+};
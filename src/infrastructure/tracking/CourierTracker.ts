@@ -0,0 +1,54 @@
+/**
+ * CourierTracker.ts
+ * Interface for looking up a parcel's journey with a courier
+ */
+
+import { ShipmentTracking } from '../../domain/entities/Shipment';
+
+export interface CourierTracker {
+  name: string;
+  // Whether the tracker covers the courier, by code, e.g. "jne"
+  supports(courier: string): boolean;
+  // Whether the waybill number has this courier's format
+  recognizes(waybill: string): boolean;
+  /**
+   * Look up a waybill
+   * @returns The tracking, or null if the courier does not know the waybill or cannot be reached
+   */
+  track(waybill: string): Promise<ShipmentTracking | null>;
+}
+
+export interface CourierApiConfig {
+  baseUrl: string;
+  apiKey: string;
+  // Account name, for couriers that ask for one next to the key
+  username?: string;
+  timeoutMs: number;
+}
+
+// Offset of the local times courier APIs return, Western Indonesia Time
+const COURIER_TIME_OFFSET = '+07:00';
+
+/**
+ * Turn a courier's local time, "16-10-2023 08:15" or "2023-10-16 08:15:00", into ISO 8601
+ * @returns The ISO time, or undefined if the format is not recognised
+ */
+export const parseCourierTime = (value: string): string | undefined => {
+  const dayFirst = value.match(/^(\d{2})-(\d{2})-(\d{4})\s+(\d{2}):(\d{2})(?::(\d{2}))?/);
+  const yearFirst = value.match(/^(\d{4})-(\d{2})-(\d{2})[\sT]+(\d{2}):(\d{2})(?::(\d{2}))?/);
+
+  let parts: string[];
+  if (dayFirst) {
+    const [, day, month, year, hour, minute, second] = dayFirst;
+    parts = [year, month, day, hour, minute, second ?? '00'];
+  } else if (yearFirst) {
+    const [, year, month, day, hour, minute, second] = yearFirst;
+    parts = [year, month, day, hour, minute, second ?? '00'];
+  } else {
+    return undefined;
+  }
+
+  const [year, month, day, hour, minute, second] = parts;
+  const time = `${year}-${month}-${day}T${hour}:${minute}:${second}${COURIER_TIME_OFFSET}`;
+  return Number.isNaN(new Date(time).getTime()) ? undefined : time;
+};
@@ -0,0 +1,63 @@
+/**
+ * CourierTrackerFactory.ts
+ * Builds the courier trackers selected in the environment
+ */
+
+import dotenv from 'dotenv';
+import { CourierApiConfig, CourierTracker } from './CourierTracker';
+import { createFakeCourierTracker } from './FakeCourierTracker';
+import { createJneTracker } from './JneTracker';
+import { createJntTracker } from './JntTracker';
+import { createSiCepatTracker } from './SiCepatTracker';
+import { createPosTracker } from './PosTracker';
+dotenv.config();
+
+let trackers: CourierTracker[] | null = null;
+
+const getApiConfig = (prefix: string, defaultUrl: string): CourierApiConfig => ({
+  baseUrl: process.env[`${prefix}_API_URL`] || defaultUrl,
+  apiKey: process.env[`${prefix}_API_KEY`] ?? '',
+  username: process.env[`${prefix}_API_USERNAME`],
+  timeoutMs: Number(process.env.COURIER_TRACKING_TIMEOUT_MS ?? '10000'),
+});
+
+/**
+ * Create the trackers from COURIER_TRACKING: "live" asks the couriers' APIs,
+ * "fake" answers from the fixture file
+ */
+export const createCourierTrackersFromEnv = (): CourierTracker[] => {
+  const mode = (process.env.COURIER_TRACKING ?? 'fake').trim().toLowerCase();
+
+  switch (mode) {
+    case 'live':
+      return [
+        createJneTracker(getApiConfig('JNE', 'https://apiv2.jne.co.id:10205')),
+        createJntTracker(getApiConfig('JNT', 'https://api.jet.co.id')),
+        createSiCepatTracker(getApiConfig('SICEPAT', 'https://api.sicepat.com')),
+        createPosTracker(getApiConfig('POS', 'https://api.posindonesia.co.id:8245')),
+      ];
+
+    case 'fake':
+      return [createFakeCourierTracker(process.env.TRACKING_FIXTURES_FILE ?? 'tracking-fixtures.json')];
+
+    default:
+      throw new Error(`Unknown courier tracking mode "${mode}".`);
+  }
+};
+
+/**
+ * Get the shared courier trackers, creating them on first use
+ */
+export const getCourierTrackers = (): CourierTracker[] => {
+  if (!trackers) {
+    trackers = createCourierTrackersFromEnv();
+  }
+  return trackers;
+};
+
+/**
+ * Replace the shared courier trackers, e.g. with a fake in tests
+ */
+export const setCourierTrackers = (newTrackers: CourierTracker[]): void => {
+  trackers = newTrackers;
+};
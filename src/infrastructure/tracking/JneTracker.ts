@@ -0,0 +1,77 @@
+/**
+ * JneTracker.ts
+ * Tracks JNE waybills through the JNE tracing API
+ */
+
+import axios from 'axios';
+import { TrackingCheckpoint, createShipmentTracking } from '../../domain/entities/Shipment';
+import { parseShipmentStatus } from '../../domain/services/ShipmentStatusParser';
+import { guessCouriers } from '../../domain/services/WaybillExtractor';
+import { CourierApiConfig, CourierTracker, parseCourierTime } from './CourierTracker';
+
+interface JneHistory {
+  // "16-10-2023 08:15"
+  date: string;
+  // "SHIPMENT RECEIVED BY JNE COUNTER OFFICER AT [JAKARTA]"
+  desc: string;
+}
+
+interface JneTracingResponse {
+  cnote?: {
+    cnote_no: string;
+    estimate_delivery?: string;
+    cnote_receiver_name?: string;
+  };
+  history?: JneHistory[];
+  error?: string;
+}
+
+/**
+ * Split the place in brackets off a scan description
+ */
+const toCheckpoint = (history: JneHistory): TrackingCheckpoint | null => {
+  const time = parseCourierTime(history.date);
+  if (!time) {
+    return null;
+  }
+
+  const location = history.desc.match(/\[([^\]]+)\]\s*$/)?.[1];
+  return {
+    time,
+    location,
+    description: history.desc.replace(/\s*(?:AT\s*)?\[[^\]]+\]\s*$/i, '').trim(),
+    status: parseShipmentStatus(history.desc)
+  };
+};
+
+export const createJneTracker = (config: CourierApiConfig): CourierTracker => ({
+  name: 'jne',
+
+  supports: (courier) => courier === 'jne',
+
+  recognizes: (waybill) => guessCouriers(waybill).includes('jne'),
+
+  track: async (waybill) => {
+    try {
+      const response = await axios.post<JneTracingResponse>(
+        `${config.baseUrl}/tracing/api/list/v1/cnote/${encodeURIComponent(waybill)}`,
+        new URLSearchParams({ username: config.username ?? '', api_key: config.apiKey }),
+        { timeout: config.timeoutMs }
+      );
+
+      const { cnote, history } = response.data;
+      if (!cnote || !history) {
+        return null;
+      }
+
+      const checkpoints = history.map(toCheckpoint).filter((checkpoint): checkpoint is TrackingCheckpoint => checkpoint !== null);
+      return createShipmentTracking(cnote.cnote_no, 'jne', checkpoints, {
+        estimatedDelivery: cnote.estimate_delivery ? parseCourierTime(`${cnote.estimate_delivery} 00:00`) : undefined,
+        receiver: cnote.cnote_receiver_name || undefined
+      });
+    } catch (error) {
+      console.error('Error tracking JNE waybill:', error);
+      return null;
+    }
+  }
+});
@@ -0,0 +1,78 @@
+/**
+ * JntTracker.ts
+ * Tracks J&T Express waybills through the J&T tracking API
+ */
+
+import axios from 'axios';
+import { ShipmentStatus, TrackingCheckpoint, createShipmentTracking } from '../../domain/entities/Shipment';
+import { parseShipmentStatus } from '../../domain/services/ShipmentStatusParser';
+import { guessCouriers } from '../../domain/services/WaybillExtractor';
+import { CourierApiConfig, CourierTracker, parseCourierTime } from './CourierTracker';
+
+interface JntHistory {
+  // "2023-10-16 08:15:00"
+  date_time: string;
+  city_name?: string;
+  // "Manifes", "Berangkat", "Sedang Dikirim", "Terkirim", ...
+  status: string;
+  status_code: number;
+  note?: string;
+}
+
+interface JntTrackingResponse {
+  awb?: string;
+  receiver?: string;
+  history?: JntHistory[];
+}
+
+// J&T scan codes with a fixed meaning; other codes are read from the scan text
+const JNT_STATUS_CODES: Record<number, ShipmentStatus> = {
+  100: 'picked_up',
+  162: 'exception',
+  163: 'returned',
+  200: 'delivered',
+};
+
+const toCheckpoint = (history: JntHistory): TrackingCheckpoint | null => {
+  const time = parseCourierTime(history.date_time);
+  if (!time) {
+    return null;
+  }
+
+  const description = [history.status, history.note].filter(Boolean).join(' - ');
+  return {
+    time,
+    location: history.city_name || undefined,
+    description,
+    status: JNT_STATUS_CODES[history.status_code] ?? parseShipmentStatus(description)
+  };
+};
+
+export const createJntTracker = (config: CourierApiConfig): CourierTracker => ({
+  name: 'jnt',
+
+  supports: (courier) => courier === 'jnt',
+
+  recognizes: (waybill) => guessCouriers(waybill).includes('jnt'),
+
+  track: async (waybill) => {
+    try {
+      const response = await axios.post<JntTrackingResponse>(
+        `${config.baseUrl}/track/query`,
+        { awb: waybill, eccompanyid: config.username },
+        { headers: { key: config.apiKey }, timeout: config.timeoutMs }
+      );
+
+      const { history, receiver } = response.data;
+      if (!history || history.length === 0) {
+        return null;
+      }
+
+      const checkpoints = history.map(toCheckpoint).filter((checkpoint): checkpoint is TrackingCheckpoint => checkpoint !== null);
+      return createShipmentTracking(waybill, 'jnt', checkpoints, { receiver: receiver || undefined });
+    } catch (error) {
+      console.error('Error tracking J&T waybill:', error);
+      return null;
+    }
+  }
+});
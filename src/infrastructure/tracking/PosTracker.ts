@@ -0,0 +1,68 @@
+/**
+ * PosTracker.ts
+ * Tracks POS Indonesia waybills through the POS tracking API
+ */
+
+import axios from 'axios';
+import { TrackingCheckpoint, createShipmentTracking } from '../../domain/entities/Shipment';
+import { parseShipmentStatus } from '../../domain/services/ShipmentStatusParser';
+import { guessCouriers } from '../../domain/services/WaybillExtractor';
+import { CourierApiConfig, CourierTracker, parseCourierTime } from './CourierTracker';
+
+interface PosEvent {
+  // "2023-10-16 08:15:00"
+  eventDate: string;
+  // "POSTING LOKET", "MANIFEST SERAH", "PROSES ANTAR", "SELESAI ANTAR", ...
+  eventName: string;
+  officeName?: string;
+  description?: string;
+}
+
+interface PosTrackingResponse {
+  response?: {
+    data?: PosEvent[];
+  };
+}
+
+const toCheckpoint = (event: PosEvent): TrackingCheckpoint | null => {
+  const time = parseCourierTime(event.eventDate);
+  if (!time) {
+    return null;
+  }
+
+  const description = event.description ? `${event.eventName} - ${event.description}` : event.eventName;
+  return {
+    time,
+    location: event.officeName || undefined,
+    description,
+    status: parseShipmentStatus(event.eventName)
+  };
+};
+
+export const createPosTracker = (config: CourierApiConfig): CourierTracker => ({
+  name: 'pos',
+
+  supports: (courier) => courier === 'pos',
+
+  recognizes: (waybill) => guessCouriers(waybill).includes('pos'),
+
+  track: async (waybill) => {
+    try {
+      const response = await axios.get<PosTrackingResponse>(
+        `${config.baseUrl}/tracking/${encodeURIComponent(waybill)}`,
+        { headers: { Authorization: `Bearer ${config.apiKey}` }, timeout: config.timeoutMs }
+      );
+
+      const events = response.data.response?.data;
+      if (!events || events.length === 0) {
+        return null;
+      }
+
+      const checkpoints = events.map(toCheckpoint).filter((checkpoint): checkpoint is TrackingCheckpoint => checkpoint !== null);
+      return createShipmentTracking(waybill, 'pos', checkpoints);
+    } catch (error) {
+      console.error('Error tracking POS Indonesia waybill:', error);
+      return null;
+    }
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * SiCepatTracker.ts
+ * Tracks SiCepat waybills through the SiCepat customer API
+ */
+
+import axios from 'axios';
+import { ShipmentStatus, TrackingCheckpoint, createShipmentTracking } from '../../domain/entities/Shipment';
+import { parseShipmentStatus } from '../../domain/services/ShipmentStatusParser';
+import { guessCouriers } from '../../domain/services/WaybillExtractor';
+import { CourierApiConfig, CourierTracker, parseCourierTime } from './CourierTracker';
+
+interface SiCepatHistory {
+  // "2023-10-16 08:15"
+  date_time: string;
+  // Scan code, e.g. "PICKREQ", "IN", "OUT", "ANT", "DELIVERED"
+  status: string;
+  // Scan description, which names the place, e.g. "Paket telah di terima di Jakarta [Gateway]"
+  city?: string;
+  receiver_name?: string;
+}
+
+interface SiCepatResponse {
+  sicepat?: {
+    status: { code: number; description?: string };
+    result?: {
+      waybill_number: string;
+      track_history: SiCepatHistory[];
+      POD_receiver?: string;
+      estimated_delivery?: string;
+    };
+  };
+}
+
+const SICEPAT_STATUS_CODES: Record<string, ShipmentStatus> = {
+  PICKREQ: 'pending_pickup',
+  PICK: 'picked_up',
+  ANT: 'out_for_delivery',
+  DELIVERED: 'delivered',
+  RETUR: 'returned',
+  CU: 'exception',
+};
+
+const toCheckpoint = (history: SiCepatHistory): TrackingCheckpoint | null => {
+  const time = parseCourierTime(history.date_time);
+  if (!time) {
+    return null;
+  }
+
+  const description = history.city ?? history.status;
+  return {
+    time,
+    location: description.match(/\b(?:di|at)\s+([A-Za-z ]+?)\s*(?:\[|$)/)?.[1],
+    description,
+    status: SICEPAT_STATUS_CODES[history.status.toUpperCase()] ?? parseShipmentStatus(description)
+  };
+};
+
+export const createSiCepatTracker = (config: CourierApiConfig): CourierTracker => ({
+  name: 'sicepat',
+
+  supports: (courier) => courier === 'sicepat',
+
+  recognizes: (waybill) => guessCouriers(waybill).includes('sicepat'),
+
+  track: async (waybill) => {
+    try {
+      const response = await axios.get<SiCepatResponse>(`${config.baseUrl}/customer/waybill`, {
+        params: { waybill },
+        headers: { 'api-key': config.apiKey },
+        timeout: config.timeoutMs
+      });
+
+      const result = response.data.sicepat?.status.code === 200 ? response.data.sicepat.result : undefined;
+      if (!result) {
+        return null;
+      }
+
+      const checkpoints = result.track_history
+        .map(toCheckpoint)
+        .filter((checkpoint): checkpoint is TrackingCheckpoint => checkpoint !== null);
+      return createShipmentTracking(result.waybill_number, 'sicepat', checkpoints, {
+        estimatedDelivery: result.estimated_delivery ? parseCourierTime(`${result.estimated_delivery} 00:00`) : undefined,
+        receiver: result.POD_receiver || undefined
+      });
+    } catch (error) {
+      console.error('Error tracking SiCepat waybill:', error);
+      return null;
+    }
+  }
+});
@@ -0,0 +1,100 @@
+/**
+ * WhatsAppClient.ts
+ * Outbound message clients for the WhatsApp channel
+ */
+
+import axios from 'axios';
+
+// WhatsApp rejects text bodies longer than this
+const MAX_TEXT_LENGTH = 4096;
+
+/**
+ * Sends messages to a WhatsApp user.
+ * Implementations can be swapped, e.g. for a local fake server during tests.
+ */
+export interface WhatsAppClient {
+  sendText(to: string, body: string): Promise<void>;
+}
+
+export interface CloudApiConfig {
+  apiUrl: string;
+  phoneNumberId: string;
+  accessToken: string;
+}
+
+/**
+ * Split a long text into chunks WhatsApp accepts, preferring line breaks
+ */
+export const splitMessage = (body: string, maxLength: number = MAX_TEXT_LENGTH): string[] => {
+  const chunks: string[] = [];
+  let remaining = body;
+
+  while (remaining.length > maxLength) {
+    let cut = remaining.lastIndexOf('\n', maxLength);
+    if (cut <= 0) {
+      cut = maxLength;
+    }
+    chunks.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut).replace(/^\n/, '');
+  }
+
+  if (remaining.length > 0) {
+    chunks.push(remaining);
+  }
+
+  return chunks;
+};
+
+/**
+ * Client for the WhatsApp Cloud API (or any server exposing the same endpoint)
+ */
+export const createCloudApiClient = (config: CloudApiConfig): WhatsAppClient => ({
+  async sendText(to: string, body: string): Promise<void> {
+    for (const chunk of splitMessage(body)) {
+      await axios.post(
+        `${config.apiUrl}/${config.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          type: 'text',
+          text: { preview_url: false, body: chunk }
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${config.accessToken}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+    }
+  }
+});
+
+/**
+ * Client that only logs outgoing messages, used when no credentials are configured
+ */
+export const createLoggingClient = (): WhatsAppClient => ({
+  async sendText(to: string, body: string): Promise<void> {
+    console.log(`[WhatsApp] to ${to}:\n${body}`);
+  }
+});
+
+/**
+ * Create the WhatsApp client configured in the environment
+ */
+export const createWhatsAppClientFromEnv = (): WhatsAppClient => {
+  const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+
+  if (!accessToken || !phoneNumberId) {
+    console.warn('WHATSAPP_ACCESS_TOKEN or WHATSAPP_PHONE_NUMBER_ID not set, WhatsApp replies will only be logged.');
+    return createLoggingClient();
+  }
+
+  return createCloudApiClient({
+    apiUrl: process.env.WHATSAPP_API_URL || 'https://graph.facebook.com/v20.0',
+    phoneNumberId,
+    accessToken
+  });
+};
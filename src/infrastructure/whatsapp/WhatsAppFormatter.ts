@@ -0,0 +1,31 @@
+/**
+ * WhatsAppFormatter.ts
+ * Converts the markdown used by the chat formatters into WhatsApp formatting
+ */
+
+/**
+ * Convert markdown text to WhatsApp formatting.
+ * WhatsApp uses *bold*, _italic_, ~strikethrough~ and ```monospace```.
+ */
+export const toWhatsAppFormat = (markdown: string): string => {
+  // Placeholder keeps converted bold markers from being read as italics
+  const BOLD = '\u0000';
+
+  return markdown
+    // Bold: **text** or __text__
+    .replace(/\*\*(.+?)\*\*/g, `${BOLD}$1${BOLD}`)
+    .replace(/__(.+?)__/g, `${BOLD}$1${BOLD}`)
+    // Italic: *text*
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)(?<!\s)\*(?!\*)/gm, '$1_$2_')
+    // Strikethrough: ~~text~~
+    .replace(/~~(.+?)~~/g, '~$1~')
+    // Headings become bold lines
+    .replace(/^#{1,6}\s+(.+)$/gm, `${BOLD}$1${BOLD}`)
+    // Bullets
+    .replace(/^(\s*)[-*]\s+/gm, '$1• ')
+    // Links: [label](url) → label (url)
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    // Inline code becomes monospace
+    .replace(/(^|[^`])`([^`\n]+)`(?!`)/g, '$1```$2```')
+    .replace(new RegExp(BOLD, 'g'), '*');
+};
@@ -20,18 +20,21 @@ document.addEventListener('DOMContentLoaded', function() {
     });
 
     function sendMessage() {
-        const message = userInput.value.trim();
+        sendText(userInput.value.trim());
+        userInput.value = '';
+    }
+
+    function sendText(message) {
         if (message === '') return;
 
         // Add user message to chat
         addUserMessage(message);
-        userInput.value = '';
 
         // Show typing indicator
         showTypingIndicator();
 
-        // Send message to API
-        fetch('/api/chat', {
+        // Send message to API and read the reply as Server-Sent Events
+        fetch('/api/chat/stream', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json'
@@ -39,23 +42,10 @@ document.addEventListener('DOMContentLoaded', function() {
             body: JSON.stringify({ message, sessionId })
         })
         .then(response => {
-            if (!response.ok) {
+            if (!response.ok || !response.body) {
                 throw new Error('Network response was not ok');
             }
-            return response.json();
-        })
-        .then(data => {
-            // Hide typing indicator
-            hideTypingIndicator();
-            
-            // Store session ID for conversation context
-            if (data.sessionId) {
-                sessionId = data.sessionId;
-                console.log('Session ID:', sessionId);
-            }
-            
-            // Add bot response to chat
-            addBotMessage(data.response);
+            return readEventStream(response.body);
         })
         .catch(error => {
             console.error('Error:', error);
@@ -64,6 +54,74 @@ document.addEventListener('DOMContentLoaded', function() {
         });
     }
 
+    async function readEventStream(body) {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let partialText = '';
+        let messageDiv = null;
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events are separated by a blank line
+            let boundary;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const rawEvent = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+
+                const { event, data } = parseEvent(rawEvent);
+                if (!data) continue;
+
+                if (event === 'token') {
+                    // Replace the typing indicator with the partial answer
+                    if (!messageDiv) {
+                        hideTypingIndicator();
+                        messageDiv = addBotMessage('');
+                    }
+                    partialText += data.token;
+                    renderBotMessage(messageDiv, partialText);
+                    scrollToBottom();
+                } else if (event === 'done') {
+                    hideTypingIndicator();
+
+                    // Store session ID for conversation context
+                    if (data.sessionId) {
+                        sessionId = data.sessionId;
+                        console.log('Session ID:', sessionId);
+                    }
+
+                    // The streamed text is replaced by the structured reply;
+                    // older servers only send the plain text
+                    if (messageDiv) {
+                        messageDiv.remove();
+                    }
+                    renderMessages(data.messages || [{ type: 'text', text: data.response }]);
+                } else if (event === 'error') {
+                    throw new Error(data.error);
+                }
+            }
+        }
+    }
+
+    function parseEvent(rawEvent) {
+        let event = 'message';
+        let data = '';
+
+        rawEvent.split('\n').forEach(line => {
+            if (line.startsWith('event:')) {
+                event = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                data += line.slice(5).trim();
+            }
+        });
+
+        return { event, data: data ? JSON.parse(data) : null };
+    }
+
     function addUserMessage(message) {
         const messageDiv = document.createElement('div');
         messageDiv.className = 'message user-message';
@@ -75,21 +133,183 @@ document.addEventListener('DOMContentLoaded', function() {
     function addBotMessage(message) {
         const messageDiv = document.createElement('div');
         messageDiv.className = 'message bot-message';
-        
-        // Check if the message contains markdown-like formatting
-        if (message.includes('**') || message.includes('\n')) {
-            // Simple markdown parsing for bold text and line breaks
-            const formattedMessage = message
-                .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                .replace(/\n/g, '<br>');
-            
-            messageDiv.innerHTML = formattedMessage;
-        } else {
-            messageDiv.textContent = message;
-        }
-        
+        renderBotMessage(messageDiv, message);
+
         chatBox.appendChild(messageDiv);
         scrollToBottom();
+        return messageDiv;
+    }
+
+    function renderBotMessage(messageDiv, message) {
+        // Build the nodes by hand so model output is never parsed as HTML:
+        // **bold**, *italic* and line breaks are the only formatting
+        messageDiv.replaceChildren();
+
+        message.split('\n').forEach((line, index) => {
+            if (index > 0) {
+                messageDiv.appendChild(document.createElement('br'));
+            }
+
+            line.split(/(\*\*[^*]+\*\*|\*[^*\s][^*]*\*)/).forEach(part => {
+                if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+                    messageDiv.appendChild(createElement('strong', null, part.slice(2, -2)));
+                } else if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+                    messageDiv.appendChild(createElement('em', null, part.slice(1, -1)));
+                } else if (part) {
+                    messageDiv.appendChild(document.createTextNode(part));
+                }
+            });
+        });
+    }
+
+    function renderMessages(messages) {
+        messages.forEach(message => {
+            switch (message.type) {
+                case 'text':
+                    addBotMessage(message.text);
+                    break;
+                case 'product_carousel':
+                    chatBox.appendChild(createProductCarousel(message.products));
+                    break;
+                case 'order_summary':
+                    chatBox.appendChild(createOrderSummary(message.order));
+                    break;
+                case 'tracking_timeline':
+                    chatBox.appendChild(createTrackingTimeline(message.tracking));
+                    break;
+                case 'quick_replies':
+                    chatBox.appendChild(createQuickReplies(message.options));
+                    break;
+                case 'handoff':
+                    chatBox.appendChild(createHandoff(message));
+                    break;
+                default:
+                    // Unknown kinds from a newer server are skipped
+                    break;
+            }
+        });
+        scrollToBottom();
+    }
+
+    function createProductCarousel(products) {
+        const carousel = createElement('div', 'product-carousel');
+
+        products.forEach(product => {
+            const card = createElement('div', 'product-card');
+
+            if (isSafeUrl(product.imageUrl)) {
+                const image = createElement('img', 'product-image');
+                image.src = product.imageUrl;
+                image.alt = product.name;
+                image.loading = 'lazy';
+                card.appendChild(image);
+            }
+
+            card.appendChild(createElement('div', 'product-name', product.name));
+            card.appendChild(createElement('div', 'product-price', product.priceLabel));
+
+            const details = [product.color, product.size].filter(Boolean).join(' · ');
+            if (details) {
+                card.appendChild(createElement('div', 'product-details', details));
+            }
+
+            const stockClass = product.inStock ? 'product-stock' : 'product-stock out-of-stock';
+            card.appendChild(createElement('div', stockClass, product.stockLabel));
+            carousel.appendChild(card);
+        });
+
+        return carousel;
+    }
+
+    function createOrderSummary(order) {
+        const summary = createElement('div', 'message bot-message order-summary');
+
+        const header = createElement('div', 'order-header');
+        header.appendChild(createElement('strong', null, order.id));
+        header.appendChild(createElement('span', 'order-status status-' + order.status, order.statusLabel));
+        summary.appendChild(header);
+
+        summary.appendChild(createElement('div', 'order-date', order.dateLabel));
+        if (order.trackingLabel) {
+            summary.appendChild(createElement('div', 'order-tracking', order.trackingLabel));
+        }
+
+        const items = createElement('ul', 'order-items');
+        order.items.forEach(item => {
+            items.appendChild(createElement('li', null, item.quantity + ' x ' + item.name + ' (' + item.priceLabel + ')'));
+        });
+        summary.appendChild(items);
+
+        summary.appendChild(createElement('div', 'order-total', order.totalLabel));
+        return summary;
+    }
+
+    function createTrackingTimeline(tracking) {
+        const timeline = createElement('div', 'message bot-message tracking-timeline');
+
+        const header = createElement('div', 'tracking-header');
+        header.appendChild(createElement('strong', null, tracking.courierName + ' · ' + tracking.waybill));
+        header.appendChild(createElement('span', 'tracking-status status-' + tracking.status, tracking.statusLabel));
+        timeline.appendChild(header);
+
+        if (tracking.detailLabel) {
+            timeline.appendChild(createElement('div', 'tracking-detail', tracking.detailLabel));
+        }
+
+        const checkpoints = createElement('ol', 'tracking-checkpoints');
+        tracking.checkpoints.forEach(checkpoint => {
+            const item = createElement('li', 'tracking-checkpoint');
+            const place = [checkpoint.timeLabel, checkpoint.location].filter(Boolean).join(' · ');
+            item.appendChild(createElement('div', 'tracking-time', place));
+            item.appendChild(createElement('div', 'tracking-description', checkpoint.description));
+            checkpoints.appendChild(item);
+        });
+        timeline.appendChild(checkpoints);
+
+        return timeline;
+    }
+
+    function createQuickReplies(options) {
+        const container = createElement('div', 'quick-replies');
+
+        options.forEach(option => {
+            const button = createElement('button', 'quick-reply', option.label);
+            button.type = 'button';
+            button.addEventListener('click', () => {
+                // The choices only apply to the message they came with
+                container.remove();
+                sendText(option.value);
+            });
+            container.appendChild(button);
+        });
+
+        return container;
+    }
+
+    function createHandoff(message) {
+        const link = createElement('a', 'handoff-button', message.text);
+        if (isSafeUrl(message.url)) {
+            link.href = message.url;
+        }
+        link.target = '_blank';
+        link.rel = 'noopener';
+        return link;
+    }
+
+    function createElement(tag, className, text) {
+        const element = document.createElement(tag);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined && text !== null) {
+            element.textContent = text;
+        }
+        return element;
+    }
+
+    // Only web links and paths on this site, never javascript: or data: URLs
+    function isSafeUrl(url) {
+        return typeof url === 'string' && /^(https?:\/\/|\/(?!\/))/i.test(url);
     }
 
     function showTypingIndicator() {